@@ -0,0 +1,366 @@
+import * as http from "node:http";
+import { hmac } from "@noble/hashes/hmac";
+import { sha256 } from "@noble/hashes/sha256";
+import { randomBytes } from "@noble/ciphers/webcrypto";
+import {
+  createConversationExpiredError,
+  createGenericFailureError,
+} from "../content-types/index.js";
+import type { InviteContext, PendingJoinRequest } from "../middleware/index.js";
+import { constantTimeEqual } from "../crypto/secp256k1.js";
+import { bytesToHex } from "../utils/hex.js";
+import type { AgentRuntime, MessageContext } from "./runtime.js";
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_RETRY_DELAY_MS = 1_000;
+const DEFAULT_REQUEST_TIMEOUT_MS = 10_000;
+const MAX_BODY_BYTES = 64 * 1024;
+
+/** Header carrying `sha256=<hex HMAC of "<timestamp>.<body>">` */
+export const WEBHOOK_SIGNATURE_HEADER = "x-convos-signature";
+/** Header carrying the Unix time in seconds the delivery was signed at */
+export const WEBHOOK_TIMESTAMP_HEADER = "x-convos-timestamp";
+
+/**
+ * A message received by the agent, as posted to webhooks
+ */
+export interface MessageSummary {
+  conversationId: string;
+  senderInboxId: string;
+  senderName: string;
+  /** Text of text messages and replies */
+  text?: string;
+  content: unknown;
+}
+
+/**
+ * A join request received by the agent, as posted to webhooks
+ */
+export interface InviteSummary {
+  /** `pending` requests can be accepted or rejected through the bridge API */
+  status: "pending" | "accepted";
+  /** Pending request ID, set when status is `pending` */
+  requestId?: string;
+  joinerInboxId: string;
+  conversationId: string;
+  inviteTag: string;
+  creatorInboxId: string;
+  /** Conversation name from the invite */
+  name?: string;
+  /** When a pending request stops being actionable */
+  expiresAt?: string;
+}
+
+/**
+ * Body of a webhook delivery
+ */
+export type BridgeEvent =
+  | { id: string; type: "message"; createdAt: string; data: MessageSummary }
+  | { id: string; type: "invite"; createdAt: string; data: InviteSummary };
+
+export interface WebhookDispatcherOptions {
+  /** URLs every event is posted to */
+  urls: string[];
+  /** Secret for the HMAC signature header */
+  secret: string;
+  /** Delivery attempts per URL, including the first (default: 5) */
+  maxAttempts?: number;
+  /** Delay before the first retry, doubled after each attempt (default: 1 second) */
+  retryDelayMs?: number;
+  /** Timeout for each delivery attempt (default: 10 seconds) */
+  requestTimeoutMs?: number;
+  /** Called when a URL still fails after the last attempt */
+  onDeliveryFailed?: (url: string, event: BridgeEvent, error: Error) => void;
+}
+
+/**
+ * Summarizes a received message for webhooks.
+ */
+export function summarizeMessage(ctx: MessageContext): MessageSummary {
+  const content = ctx.content as { text?: unknown } | string | undefined;
+  const text =
+    typeof content === "string"
+      ? content
+      : typeof content?.text === "string"
+        ? content.text
+        : undefined;
+  return {
+    conversationId: ctx.conversationId,
+    senderInboxId: ctx.senderInboxId,
+    senderName: ctx.senderName,
+    text,
+    content: ctx.content,
+  };
+}
+
+/**
+ * Summarizes a join request for webhooks. Pass the pending request if the
+ * join request was deferred.
+ */
+export function summarizeInvite(ctx: InviteContext, pending?: PendingJoinRequest): InviteSummary {
+  return {
+    status: pending ? "pending" : "accepted",
+    requestId: pending?.id,
+    joinerInboxId: ctx.joinerInboxId,
+    conversationId: ctx.conversationId,
+    inviteTag: ctx.inviteTag,
+    creatorInboxId: ctx.creatorInboxId,
+    name: ctx.invite.payload.name,
+    expiresAt: pending?.expiresAt.toISOString(),
+  };
+}
+
+/**
+ * Computes the signature header value for a webhook body.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const encoder = new TextEncoder();
+  const mac = hmac(sha256, encoder.encode(secret), encoder.encode(`${timestamp}.${body}`));
+  return `sha256=${bytesToHex(mac)}`;
+}
+
+/**
+ * Checks a webhook signature, for receivers written in TypeScript.
+ * Receivers should also reject old timestamps to prevent replays.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: number,
+  body: string,
+  signature: string
+): boolean {
+  const encoder = new TextEncoder();
+  return constantTimeEqual(
+    encoder.encode(signWebhookPayload(secret, timestamp, body)),
+    encoder.encode(signature)
+  );
+}
+
+/**
+ * Posts bridge events to webhook URLs with an HMAC signature, retrying
+ * network errors, 429 and 5xx responses with exponential backoff.
+ * Other 4xx responses are not retried.
+ */
+export class WebhookDispatcher {
+  private readonly options: Required<Omit<WebhookDispatcherOptions, "onDeliveryFailed">> &
+    Pick<WebhookDispatcherOptions, "onDeliveryFailed">;
+
+  constructor(options: WebhookDispatcherOptions) {
+    this.options = {
+      maxAttempts: DEFAULT_MAX_ATTEMPTS,
+      retryDelayMs: DEFAULT_RETRY_DELAY_MS,
+      requestTimeoutMs: DEFAULT_REQUEST_TIMEOUT_MS,
+      ...options,
+    };
+  }
+
+  /**
+   * Creates an event with a fresh ID and posts it to every URL.
+   * Resolves once every URL has accepted it or failed for good.
+   */
+  async dispatch(
+    type: BridgeEvent["type"],
+    data: MessageSummary | InviteSummary
+  ): Promise<BridgeEvent> {
+    const event = {
+      id: bytesToHex(randomBytes(16)),
+      type,
+      createdAt: new Date().toISOString(),
+      data,
+    } as BridgeEvent;
+
+    await Promise.all(
+      this.options.urls.map((url) =>
+        this.deliver(url, event).catch((err: Error) =>
+          this.options.onDeliveryFailed?.(url, event, err)
+        )
+      )
+    );
+    return event;
+  }
+
+  private async deliver(url: string, event: BridgeEvent): Promise<void> {
+    const body = JSON.stringify(event);
+    let delay = this.options.retryDelayMs;
+
+    for (let attempt = 1; ; attempt++) {
+      let error: Error;
+      let retryable = true;
+      try {
+        const timestamp = Math.floor(Date.now() / 1000);
+        const response = await fetch(url, {
+          method: "POST",
+          headers: {
+            "content-type": "application/json",
+            [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+            [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(this.options.secret, timestamp, body),
+          },
+          body,
+          signal: AbortSignal.timeout(this.options.requestTimeoutMs),
+        });
+        if (response.ok) {
+          return;
+        }
+        error = new Error(`Webhook ${url} responded with ${response.status}`);
+        retryable = response.status === 429 || response.status >= 500;
+      } catch (err) {
+        error = err instanceof Error ? err : new Error(String(err));
+      }
+
+      if (!retryable || attempt >= this.options.maxAttempts) {
+        throw error;
+      }
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      delay *= 2;
+    }
+  }
+}
+
+/**
+ * Runtime operations the bridge HTTP API exposes
+ */
+export type BridgeApi = Pick<
+  AgentRuntime,
+  "sendToConversation" | "broadcast" | "createGroup" | "listPendingJoins" | "approveJoin" | "denyJoin"
+>;
+
+export interface BridgeServerOptions {
+  /** Bearer token required on every request */
+  token: string;
+}
+
+/**
+ * Creates an error that the bridge server reports with the given HTTP status.
+ */
+function httpError(status: number, message: string): Error & { status: number } {
+  return Object.assign(new Error(message), { status });
+}
+
+/**
+ * Creates an HTTP server exposing the bridge API. Listen on a loopback
+ * address; the API can send messages as the agent. Requests must carry the
+ * bearer token, and bodies must be JSON. Requests with an `Origin` header are
+ * refused, so web pages open in the operator's browser cannot call the API.
+ *
+ * Endpoints:
+ * - `POST /messages` `{ conversationId?, text }` sends a message, or broadcasts without a conversation
+ * - `POST /groups` `{ name?, description? }` creates a group and returns its invite URL
+ * - `GET /invites` lists pending join requests
+ * - `POST /invites/:id/accept` adds the joiner
+ * - `POST /invites/:id/reject` `{ reason?: "expired" | "generic" }` sends the joiner an error
+ */
+export function createBridgeServer(api: BridgeApi, options: BridgeServerOptions): http.Server {
+  return http.createServer((req, res) => {
+    handleBridgeRequest(api, options, req)
+      .then((result) => sendJson(res, 200, result ?? { ok: true }))
+      .catch((err) => {
+        const status = typeof err?.status === "number" ? err.status : 500;
+        sendJson(res, status, { error: err instanceof Error ? err.message : String(err) });
+      });
+  });
+}
+
+async function handleBridgeRequest(
+  api: BridgeApi,
+  options: BridgeServerOptions,
+  req: http.IncomingMessage
+): Promise<unknown> {
+  if (req.headers.origin !== undefined) {
+    throw httpError(403, "Browser requests are not allowed");
+  }
+  if (!isAuthorized(req, options.token)) {
+    throw httpError(401, "Unauthorized");
+  }
+  // Browsers send text/plain and form posts cross-origin without a preflight
+  if (req.method !== "GET" && !isJsonRequest(req)) {
+    throw httpError(415, "Content-Type must be application/json");
+  }
+
+  const url = new URL(req.url ?? "/", "http://localhost");
+  const route = `${req.method} ${url.pathname}`;
+
+  if (route === "POST /messages") {
+    const body = await readJsonBody(req);
+    if (typeof body.text !== "string" || body.text === "") {
+      throw httpError(400, "text is required");
+    }
+    if (typeof body.conversationId === "string") {
+      await api.sendToConversation(body.conversationId, body.text);
+    } else {
+      await api.broadcast(body.text);
+    }
+    return undefined;
+  }
+
+  if (route === "POST /groups") {
+    const body = await readJsonBody(req);
+    return api.createGroup({
+      name: typeof body.name === "string" ? body.name : undefined,
+      description: typeof body.description === "string" ? body.description : undefined,
+    });
+  }
+
+  if (route === "GET /invites") {
+    return { invites: await api.listPendingJoins() };
+  }
+
+  const action = /^POST \/invites\/([^/]+)\/(accept|reject)$/.exec(route);
+  if (action) {
+    const requestId = decodeURIComponent(action[1]);
+    const pending = (await api.listPendingJoins()).find((request) => request.id === requestId);
+    if (!pending) {
+      throw httpError(404, `No pending join request: ${requestId}`);
+    }
+    if (action[2] === "accept") {
+      return api.approveJoin(requestId);
+    }
+    const body = await readJsonBody(req);
+    const error =
+      body.reason === "expired"
+        ? createConversationExpiredError(pending.inviteTag)
+        : createGenericFailureError(pending.inviteTag);
+    return api.denyJoin(requestId, error);
+  }
+
+  throw httpError(404, `Not found: ${route}`);
+}
+
+function isAuthorized(req: http.IncomingMessage, token: string): boolean {
+  const encoder = new TextEncoder();
+  return constantTimeEqual(
+    encoder.encode(req.headers.authorization ?? ""),
+    encoder.encode(`Bearer ${token}`)
+  );
+}
+
+function isJsonRequest(req: http.IncomingMessage): boolean {
+  const mediaType = req.headers["content-type"]?.split(";")[0].trim().toLowerCase();
+  return mediaType === "application/json";
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+  let raw = "";
+  for await (const chunk of req) {
+    raw += chunk;
+    if (raw.length > MAX_BODY_BYTES) {
+      throw httpError(413, "Request body too large");
+    }
+  }
+  if (raw === "") {
+    return {};
+  }
+  try {
+    const body = JSON.parse(raw) as unknown;
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+      throw new Error();
+    }
+    return body as Record<string, unknown>;
+  } catch {
+    throw httpError(400, "Request body must be a JSON object");
+  }
+}
+
+function sendJson(res: http.ServerResponse, status: number, value: unknown): void {
+  res.writeHead(status, { "content-type": "application/json" });
+  res.end(JSON.stringify(value));
+}
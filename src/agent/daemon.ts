@@ -0,0 +1,451 @@
+import * as fs from "node:fs";
+import * as net from "node:net";
+import * as path from "node:path";
+import type { InviteJoinError } from "../content-types/index.js";
+import type { ConvosGroupInviteOptions } from "../middleware/convos-group.js";
+import type {
+  InviteResult,
+  JoinOutcome,
+  JoinResult,
+  PendingJoinRequest,
+  WaitForOutcomeOptions,
+} from "../middleware/index.js";
+import {
+  summarizeInvite,
+  summarizeMessage,
+  type InviteSummary,
+  type MessageSummary,
+} from "./bridge.js";
+import { serveJsonLines } from "../utils/json-line-server.js";
+import type { AgentRuntime } from "./runtime.js";
+import type { AgentProfile } from "./state.js";
+
+const SOCKET_FILE = "daemon.sock";
+const DEFAULT_TIMEOUT_MS = 30_000;
+const PING_TIMEOUT_MS = 1_000;
+
+/** JSON-RPC error codes */
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const SERVER_ERROR = -32000;
+
+/**
+ * Operations a daemon serves to CLI commands
+ */
+export interface DaemonApi {
+  status(): Promise<{ inboxId: string; address: string }>;
+  sendToConversation(conversationId: string, text: string): Promise<void>;
+  broadcast(text: string): Promise<void>;
+  listConversations(): Promise<string[]>;
+  getProfile(): Promise<AgentProfile | undefined>;
+  saveProfile(profile: AgentProfile): Promise<void>;
+  getInviteTag(conversationId: string): Promise<string | undefined>;
+  createInvite(conversationId: string, options?: ConvosGroupInviteOptions): Promise<InviteResult>;
+  rotateInviteTag(conversationId: string): Promise<string>;
+  listPendingJoins(): Promise<PendingJoinRequest[]>;
+  approveJoin(requestId: string): Promise<PendingJoinRequest>;
+  denyJoin(requestId: string, error?: InviteJoinError): Promise<PendingJoinRequest>;
+  join(inviteUrl: string): Promise<JoinResult>;
+  joinAndWait(
+    inviteUrl: string,
+    options?: WaitForOutcomeOptions
+  ): Promise<{ join: JoinResult; outcome: JoinOutcome }>;
+  /** Waits for the next incoming message matching the filter. See `WAITING_METHODS` */
+  waitForMessage(filter?: MessageFilter, signal?: AbortSignal): Promise<MessageSummary>;
+  /** Waits for the next join request and accepts it. See `WAITING_METHODS` */
+  acceptNextInvite(signal?: AbortSignal): Promise<InviteSummary>;
+}
+
+/**
+ * Which messages `waitForMessage` returns. Unset fields match any message
+ */
+export interface MessageFilter {
+  conversationId?: string;
+  /** Regular expression the message text must match */
+  pattern?: string;
+}
+
+const DAEMON_METHODS: ReadonlyArray<keyof DaemonApi> = [
+  "status",
+  "sendToConversation",
+  "broadcast",
+  "listConversations",
+  "getProfile",
+  "saveProfile",
+  "getInviteTag",
+  "createInvite",
+  "rotateInviteTag",
+  "listPendingJoins",
+  "approveJoin",
+  "denyJoin",
+  "join",
+  "joinAndWait",
+  "waitForMessage",
+  "acceptNextInvite",
+];
+
+/**
+ * Methods that wait for events with no time limit, and how many params clients
+ * send them. The server passes an AbortSignal after those params that aborts
+ * when the client disconnects, so an abandoned wait cannot act later.
+ */
+const WAITING_METHODS: Partial<Record<keyof DaemonApi, number>> = {
+  waitForMessage: 1,
+  acceptNextInvite: 0,
+};
+
+/**
+ * JSON-RPC 2.0 request, one JSON object per line. Params are positional.
+ */
+export interface DaemonRequest {
+  jsonrpc: "2.0";
+  id: number;
+  method: string;
+  params?: unknown[];
+}
+
+/**
+ * JSON-RPC 2.0 response, one JSON object per line
+ */
+export interface DaemonResponse {
+  jsonrpc: "2.0";
+  id: number | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+export interface DaemonClientOptions {
+  /** How long to wait for each response in milliseconds (default: 30 seconds) */
+  timeoutMs?: number;
+}
+
+/**
+ * Returns the control socket path of the daemon for a data directory.
+ */
+export function getDaemonSocketPath(dataDir: string): string {
+  return path.join(dataDir, SOCKET_FILE);
+}
+
+/**
+ * Exposes a runtime as a DaemonApi.
+ */
+export function createDaemonApi(runtime: AgentRuntime): DaemonApi {
+  return {
+    status: async () => ({ inboxId: runtime.inboxId, address: runtime.address }),
+    sendToConversation: (conversationId, text) =>
+      runtime.sendToConversation(conversationId, text),
+    broadcast: (text) => runtime.broadcast(text),
+    listConversations: () => runtime.listConversations(),
+    getProfile: async () => runtime.getProfile(),
+    saveProfile: (profile) => runtime.saveProfile(profile),
+    getInviteTag: (conversationId) => runtime.getInviteTag(conversationId),
+    createInvite: (conversationId, options) =>
+      runtime.createInvite(conversationId, options && reviveInviteOptions(options)),
+    rotateInviteTag: (conversationId) => runtime.rotateInviteTag(conversationId),
+    listPendingJoins: () => runtime.listPendingJoins(),
+    approveJoin: (requestId) => runtime.approveJoin(requestId),
+    denyJoin: (requestId, error) => runtime.denyJoin(requestId, error && reviveJoinError(error)),
+    join: (inviteUrl) => runtime.join(inviteUrl),
+    joinAndWait: (inviteUrl, options) => runtime.joinAndWait(inviteUrl, options),
+    waitForMessage: async (filter = {}, signal) => {
+      const pattern = filter.pattern ? new RegExp(filter.pattern) : undefined;
+      const ctx = await runtime.waitForMessage((candidate) => {
+        if (filter.conversationId && candidate.conversationId !== filter.conversationId) {
+          return false;
+        }
+        return !pattern || pattern.test(summarizeMessage(candidate).text ?? "");
+      }, signal);
+      return summarizeMessage(ctx);
+    },
+    acceptNextInvite: async (signal) => summarizeInvite(await runtime.acceptNextInvite(signal)),
+  };
+}
+
+/**
+ * Restores the timestamp of a join error, which arrives as an ISO string over the socket.
+ */
+function reviveJoinError(error: InviteJoinError): InviteJoinError {
+  return { ...error, timestamp: new Date(error.timestamp) };
+}
+
+/**
+ * Restores the dates in invite options, which arrive as ISO strings over the socket.
+ */
+function reviveInviteOptions(options: ConvosGroupInviteOptions): ConvosGroupInviteOptions {
+  return {
+    ...options,
+    expiresAt: options.expiresAt && new Date(options.expiresAt),
+    conversationExpiresAt: options.conversationExpiresAt && new Date(options.conversationExpiresAt),
+  };
+}
+
+/**
+ * Restores the dates in a pending join request, which arrive as ISO strings over the socket.
+ */
+function revivePendingJoin(request: PendingJoinRequest): PendingJoinRequest {
+  return {
+    ...request,
+    requestedAt: new Date(request.requestedAt),
+    expiresAt: new Date(request.expiresAt),
+  };
+}
+
+/**
+ * Client for a running daemon. Each call opens its own connection.
+ */
+export class DaemonClient implements DaemonApi {
+  readonly socketPath: string;
+  private readonly timeoutMs: number;
+  private nextId = 1;
+
+  constructor(socketPath: string, options: DaemonClientOptions = {}) {
+    this.socketPath = socketPath;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  status(): Promise<{ inboxId: string; address: string }> {
+    return this.call("status");
+  }
+
+  sendToConversation(conversationId: string, text: string): Promise<void> {
+    return this.call("sendToConversation", conversationId, text);
+  }
+
+  broadcast(text: string): Promise<void> {
+    return this.call("broadcast", text);
+  }
+
+  listConversations(): Promise<string[]> {
+    return this.call("listConversations");
+  }
+
+  async getProfile(): Promise<AgentProfile | undefined> {
+    // undefined is sent as null
+    return (await this.call<AgentProfile | null>("getProfile")) ?? undefined;
+  }
+
+  saveProfile(profile: AgentProfile): Promise<void> {
+    return this.call("saveProfile", profile);
+  }
+
+  async getInviteTag(conversationId: string): Promise<string | undefined> {
+    return (await this.call<string | null>("getInviteTag", conversationId)) ?? undefined;
+  }
+
+  createInvite(conversationId: string, options?: ConvosGroupInviteOptions): Promise<InviteResult> {
+    return this.call("createInvite", conversationId, options);
+  }
+
+  rotateInviteTag(conversationId: string): Promise<string> {
+    return this.call("rotateInviteTag", conversationId);
+  }
+
+  async listPendingJoins(): Promise<PendingJoinRequest[]> {
+    const requests = await this.call<PendingJoinRequest[]>("listPendingJoins");
+    return requests.map(revivePendingJoin);
+  }
+
+  async approveJoin(requestId: string): Promise<PendingJoinRequest> {
+    return revivePendingJoin(await this.call("approveJoin", requestId));
+  }
+
+  async denyJoin(requestId: string, error?: InviteJoinError): Promise<PendingJoinRequest> {
+    return revivePendingJoin(await this.call("denyJoin", requestId, error));
+  }
+
+  join(inviteUrl: string): Promise<JoinResult> {
+    return this.call("join", inviteUrl);
+  }
+
+  async joinAndWait(
+    inviteUrl: string,
+    options?: WaitForOutcomeOptions
+  ): Promise<{ join: JoinResult; outcome: JoinOutcome }> {
+    // The daemon ends the wait at the join timeout
+    const result = await this.callWithTimeout<{ join: JoinResult; outcome: JoinOutcome }>(
+      0,
+      "joinAndWait",
+      [inviteUrl, options]
+    );
+    const { outcome } = result;
+    return outcome.status === "rejected"
+      ? { ...result, outcome: { ...outcome, error: reviveJoinError(outcome.error) } }
+      : result;
+  }
+
+  waitForMessage(filter: MessageFilter = {}): Promise<MessageSummary> {
+    return this.callWithTimeout(0, "waitForMessage", [filter]);
+  }
+
+  acceptNextInvite(): Promise<InviteSummary> {
+    return this.callWithTimeout(0, "acceptNextInvite", []);
+  }
+
+  /**
+   * Calls a daemon method with positional params.
+   *
+   * @throws Error if the daemon is unreachable, times out, or the method fails
+   */
+  call<T>(method: keyof DaemonApi, ...params: unknown[]): Promise<T> {
+    return this.callWithTimeout(this.timeoutMs, method, params);
+  }
+
+  /**
+   * Like `call`, with its own timeout. A timeout of 0 waits as long as the daemon takes.
+   */
+  private callWithTimeout<T>(
+    timeoutMs: number,
+    method: keyof DaemonApi,
+    params: unknown[]
+  ): Promise<T> {
+    const request: DaemonRequest = { jsonrpc: "2.0", id: this.nextId++, method, params };
+
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection(this.socketPath);
+      let buffer = "";
+      let done = false;
+
+      const finish = (error: Error | null, result?: T) => {
+        if (done) {
+          return;
+        }
+        done = true;
+        clearTimeout(timer);
+        socket.destroy();
+        if (error) {
+          reject(error);
+        } else {
+          resolve(result as T);
+        }
+      };
+
+      const timer =
+        timeoutMs > 0
+          ? setTimeout(() => finish(new Error(`Daemon timed out after ${timeoutMs}ms`)), timeoutMs)
+          : undefined;
+
+      socket.setEncoding("utf-8");
+      socket.on("connect", () => socket.write(JSON.stringify(request) + "\n"));
+      socket.on("data", (chunk: string) => {
+        buffer += chunk;
+        const newline = buffer.indexOf("\n");
+        if (newline === -1) {
+          return;
+        }
+        let response: DaemonResponse;
+        try {
+          response = JSON.parse(buffer.slice(0, newline)) as DaemonResponse;
+        } catch {
+          finish(new Error("Daemon sent an invalid response"));
+          return;
+        }
+        if (response.id !== request.id) {
+          finish(new Error("Daemon response does not match request"));
+        } else if (response.error) {
+          finish(new Error(response.error.message));
+        } else {
+          finish(null, response.result as T);
+        }
+      });
+      socket.on("error", (err) =>
+        finish(new Error(`Daemon unavailable at ${this.socketPath}: ${err.message}`))
+      );
+      socket.on("close", () => finish(new Error("Daemon closed the connection")));
+    });
+  }
+}
+
+/**
+ * Connects to the daemon for a data directory.
+ * Returns null if no daemon is running, including when a socket file was left
+ * behind by one that exited.
+ */
+export async function connectDaemon(
+  dataDir: string,
+  options?: DaemonClientOptions
+): Promise<DaemonClient | null> {
+  const socketPath = getDaemonSocketPath(dataDir);
+  if (!fs.existsSync(socketPath)) {
+    return null;
+  }
+  try {
+    await new DaemonClient(socketPath, { timeoutMs: PING_TIMEOUT_MS }).status();
+  } catch {
+    return null;
+  }
+  return new DaemonClient(socketPath, options);
+}
+
+/**
+ * Serves an API on a Unix socket for `DaemonClient`. Call this only while
+ * holding the data directory lock: a socket file at the path is assumed to be
+ * stale and replaced. The socket is accessible to the owner only and removed
+ * when the server closes.
+ *
+ * @example
+ * ```typescript
+ * const runtime = await startAgent({ dataDir });
+ * const server = await serveDaemon(createDaemonApi(runtime), getDaemonSocketPath(dataDir));
+ * ```
+ */
+export function serveDaemon(api: DaemonApi, socketPath: string): Promise<net.Server> {
+  return serveJsonLines(socketPath, (line, signal) => handleDaemonRequest(api, line, signal));
+}
+
+/**
+ * Returns true if a parsed line is shaped like a request: an object with a
+ * string method and, if present, an array of params.
+ */
+function isDaemonRequest(value: unknown): value is DaemonRequest {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const { method, params } = value as Partial<DaemonRequest>;
+  return typeof method === "string" && (params === undefined || Array.isArray(params));
+}
+
+async function handleDaemonRequest(
+  api: DaemonApi,
+  line: string,
+  signal: AbortSignal
+): Promise<DaemonResponse> {
+  let request: unknown;
+  try {
+    request = JSON.parse(line);
+  } catch {
+    return { jsonrpc: "2.0", id: null, error: { code: PARSE_ERROR, message: "Parse error" } };
+  }
+  if (!isDaemonRequest(request)) {
+    return {
+      jsonrpc: "2.0",
+      id: null,
+      error: { code: INVALID_REQUEST, message: "Invalid request" },
+    };
+  }
+
+  const method = request.method as keyof DaemonApi;
+  if (!DAEMON_METHODS.includes(method)) {
+    return {
+      jsonrpc: "2.0",
+      id: request.id,
+      error: { code: METHOD_NOT_FOUND, message: `Unknown method: ${String(request.method)}` },
+    };
+  }
+
+  try {
+    const handler = api[method] as (...params: unknown[]) => Promise<unknown>;
+    const params = request.params ?? [];
+    const arity = WAITING_METHODS[method];
+    const args =
+      arity === undefined ? params : [...Array.from({ length: arity }, (_, i) => params[i]), signal];
+    const result = await handler.apply(api, args);
+    return { jsonrpc: "2.0", id: request.id, result: result ?? null };
+  } catch (err) {
+    return {
+      jsonrpc: "2.0",
+      id: request.id,
+      error: { code: SERVER_ERROR, message: err instanceof Error ? err.message : String(err) },
+    };
+  }
+}
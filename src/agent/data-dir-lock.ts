@@ -0,0 +1,141 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+const LOCK_FILE = "agent.lock";
+/** How long an unreadable lockfile is assumed to be mid-write by its owner */
+const UNREADABLE_LOCK_GRACE_MS = 5_000;
+
+/**
+ * Contents of the lockfile: who holds the data directory
+ */
+export interface DataDirLockInfo {
+  pid: number;
+  hostname: string;
+  acquiredAt: string;
+}
+
+/**
+ * An exclusive hold on a data directory, released with `release()` or when
+ * the process exits.
+ */
+export interface DataDirLock {
+  readonly dataDir: string;
+  release(): void;
+}
+
+/**
+ * Takes the lock on a data directory so that only one process uses its state
+ * and database at a time. A lock left behind by a process on this host that is
+ * no longer running is treated as stale and replaced.
+ *
+ * @throws Error if another running process holds the data directory
+ */
+export function acquireDataDirLock(dataDir: string): DataDirLock {
+  const lockPath = path.join(dataDir, LOCK_FILE);
+  const info: DataDirLockInfo = {
+    pid: process.pid,
+    hostname: os.hostname(),
+    acquiredAt: new Date().toISOString(),
+  };
+
+  // Second attempt runs after removing a stale lock
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      fs.writeFileSync(lockPath, JSON.stringify(info), { flag: "wx" });
+      return createLock(dataDir, lockPath);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw err;
+      }
+    }
+
+    const holder = readLockInfo(lockPath);
+    if (!holder && isRecent(lockPath)) {
+      throw lockedError(`Data directory ${dataDir} is being locked by another process`);
+    }
+    if (holder && !isStale(holder)) {
+      throw lockedError(
+        `Data directory ${dataDir} is in use by process ${holder.pid} on ${holder.hostname} ` +
+          `(since ${holder.acquiredAt}). Stop that process or use another --data-dir.`
+      );
+    }
+    fs.rmSync(lockPath, { force: true });
+  }
+  throw new Error(`Could not lock data directory ${dataDir}`);
+}
+
+/**
+ * Runs an operation while holding the lock on a data directory.
+ */
+export async function withDataDirLock<T>(dataDir: string, operation: () => Promise<T>): Promise<T> {
+  const lock = acquireDataDirLock(dataDir);
+  try {
+    return await operation();
+  } finally {
+    lock.release();
+  }
+}
+
+/**
+ * Creates an error with code `DATA_DIR_LOCKED`, so callers can tell a busy
+ * data directory from other failures.
+ */
+function lockedError(message: string): Error & { code: string } {
+  return Object.assign(new Error(message), { code: "DATA_DIR_LOCKED" });
+}
+
+function createLock(dataDir: string, lockPath: string): DataDirLock {
+  let released = false;
+  const release = () => {
+    if (released) {
+      return;
+    }
+    released = true;
+    process.off("exit", release);
+    const holder = readLockInfo(lockPath);
+    if (holder?.pid === process.pid && holder.hostname === os.hostname()) {
+      fs.rmSync(lockPath, { force: true });
+    }
+  };
+  process.on("exit", release);
+  return { dataDir, release };
+}
+
+/**
+ * Reads the lockfile. Returns null if it is missing or unreadable, e.g. when
+ * a process died while writing it.
+ */
+function readLockInfo(lockPath: string): DataDirLockInfo | null {
+  try {
+    const info = JSON.parse(fs.readFileSync(lockPath, "utf-8")) as DataDirLockInfo;
+    return typeof info.pid === "number" ? info : null;
+  } catch {
+    return null;
+  }
+}
+
+function isRecent(lockPath: string): boolean {
+  try {
+    return Date.now() - fs.statSync(lockPath).mtimeMs < UNREADABLE_LOCK_GRACE_MS;
+  } catch {
+    return false;
+  }
+}
+
+function isStale(holder: DataDirLockInfo): boolean {
+  if (holder.hostname !== os.hostname()) {
+    // Processes on other hosts cannot be checked
+    return false;
+  }
+  if (holder.pid === process.pid) {
+    return false;
+  }
+  try {
+    process.kill(holder.pid, 0);
+    return false;
+  } catch (err) {
+    // EPERM means the process exists but belongs to another user
+    return (err as NodeJS.ErrnoException).code === "ESRCH";
+  }
+}
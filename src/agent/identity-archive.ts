@@ -0,0 +1,245 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { encrypt, decrypt } from "../crypto/chacha20poly1305.js";
+import {
+  createScryptParams,
+  deriveKeyFromPassphrase,
+  type ScryptParams,
+} from "../crypto/passphrase.js";
+import {
+  constantTimeEqual,
+  getPublicKey,
+  hashSha256,
+  recoverPublicKey,
+  signWithRecovery,
+} from "../crypto/secp256k1.js";
+import { bytesToHex, hexToBytes } from "../utils/hex.js";
+import { readJsonFile, writeJsonFile } from "../utils/json-file.js";
+import {
+  createStateCipher,
+  hasAgentState,
+  loadAgentState,
+  saveAgentState,
+  type AgentState,
+  type StateSecret,
+} from "./state.js";
+import { withDataDirLock } from "./data-dir-lock.js";
+
+const ARCHIVE_FORMAT = "convos-identity";
+const ARCHIVE_VERSION = 1;
+const ARCHIVE_AAD = new TextEncoder().encode("ConvosIdentityArchiveV1");
+
+/** Invite state files carried alongside `agent.json` */
+const INVITE_STATE_FILES = ["pending-joins.json", "revocations.json", "redemptions.json"];
+
+/**
+ * What an identity archive carries
+ */
+export interface IdentityArchiveContents {
+  state: AgentState;
+  /** Invite state by file name: pending join requests, revocations and redemptions */
+  files: Record<string, unknown>;
+}
+
+/**
+ * A portable, signed copy of an agent identity
+ */
+export interface IdentityArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  address: string;
+  /** Uncompressed public key of the agent (hex) */
+  publicKey: string;
+  exportedAt: string;
+  /** How the contents are encrypted. `none` means they are stored as JSON text */
+  encryption: ScryptParams | { name: "none" };
+  /** Contents as JSON text, or nonce + ciphertext + tag (hex) when encrypted */
+  payload: string;
+  /** Signature by the agent key over all other fields (hex) */
+  signature: string;
+}
+
+export interface ExportIdentityOptions {
+  /** Secret that unlocks encrypted agent state */
+  stateSecret?: StateSecret;
+  /** Passphrase that encrypts the archive. Without one the archive is signed but readable */
+  passphrase?: string;
+  /** scrypt CPU/memory cost, a power of two (default: 2^15) */
+  scryptN?: number;
+}
+
+export interface ImportIdentityOptions {
+  /** Passphrase of an encrypted archive */
+  passphrase?: string;
+  /** Secret that encrypts the imported state at rest, and unlocks existing state */
+  stateSecret?: StateSecret;
+  /** Replace an identity already in the data directory */
+  force?: boolean;
+  /** scrypt CPU/memory cost when encrypting state with a passphrase */
+  scryptN?: number;
+}
+
+/**
+ * Bundles the agent state and invite state of a data directory into an archive.
+ * The XMTP database is not included; the importing machine registers a new
+ * installation on first start.
+ *
+ * @throws Error if there is no state, or it is encrypted and the secret is missing or wrong
+ */
+export async function exportIdentity(
+  dataDir: string,
+  options: ExportIdentityOptions = {}
+): Promise<IdentityArchive> {
+  const { state } = await loadAgentState(dataDir, options.stateSecret);
+  if (!state) {
+    throw new Error(`No agent state in ${dataDir}`);
+  }
+
+  const files: Record<string, unknown> = {};
+  for (const name of INVITE_STATE_FILES) {
+    const content = readJsonFile<unknown>(path.join(dataDir, name), undefined);
+    if (content !== undefined) {
+      files[name] = content;
+    }
+  }
+
+  const privateKey = hexToBytes(state.privateKey.replace(/^0x/, ""));
+  const contents = JSON.stringify({ state, files } satisfies IdentityArchiveContents);
+  let encryption: IdentityArchive["encryption"] = { name: "none" };
+  let payload = contents;
+  if (options.passphrase) {
+    encryption = createScryptParams(options.scryptN);
+    const key = await deriveKeyFromPassphrase(options.passphrase, encryption);
+    payload = bytesToHex(encrypt(new TextEncoder().encode(contents), key, ARCHIVE_AAD));
+  }
+
+  const unsigned: Omit<IdentityArchive, "signature"> = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    address: state.address,
+    publicKey: bytesToHex(getPublicKey(privateKey)),
+    exportedAt: new Date().toISOString(),
+    encryption,
+    payload,
+  };
+  return {
+    ...unsigned,
+    signature: bytesToHex(signWithRecovery(hashArchive(unsigned), privateKey)),
+  };
+}
+
+/**
+ * Verifies an archive and returns its contents.
+ *
+ * @throws Error if the archive is unsupported, tampered with, or the passphrase is missing or wrong
+ */
+export async function readIdentityArchive(
+  archive: IdentityArchive,
+  passphrase?: string
+): Promise<IdentityArchiveContents> {
+  if (archive?.format !== ARCHIVE_FORMAT) {
+    throw new Error("Not a Convos identity archive");
+  }
+  if (archive.version !== ARCHIVE_VERSION) {
+    throw new Error(`Unsupported identity archive version: ${archive.version}`);
+  }
+
+  const { signature, ...unsigned } = archive;
+  const publicKey = hexToBytes(archive.publicKey);
+  let signer: Uint8Array;
+  try {
+    signer = recoverPublicKey(hashArchive(unsigned), hexToBytes(signature));
+  } catch {
+    throw new Error("Identity archive signature is invalid");
+  }
+  if (!constantTimeEqual(signer, publicKey)) {
+    throw new Error("Identity archive signature is invalid");
+  }
+
+  let contents: string = archive.payload;
+  if (archive.encryption.name === "scrypt") {
+    if (!passphrase) {
+      throw new Error("Identity archive is encrypted; a passphrase is required");
+    }
+    const key = await deriveKeyFromPassphrase(passphrase, archive.encryption);
+    try {
+      contents = new TextDecoder().decode(decrypt(hexToBytes(archive.payload), key, ARCHIVE_AAD));
+    } catch {
+      throw new Error("Failed to decrypt identity archive: wrong passphrase");
+    }
+  }
+
+  const parsed = JSON.parse(contents) as IdentityArchiveContents;
+  const privateKey = hexToBytes(parsed.state.privateKey.replace(/^0x/, ""));
+  if (
+    !constantTimeEqual(getPublicKey(privateKey), publicKey) ||
+    parsed.state.address !== archive.address
+  ) {
+    throw new Error("Identity archive contents do not match its signer");
+  }
+  return parsed;
+}
+
+/**
+ * Restores an archive into a data directory.
+ * A directory that already holds an identity is left untouched unless `force`
+ * is set; a database belonging to a different identity is never overwritten.
+ *
+ * @throws Error if the archive is invalid, conflicts with the data directory,
+ * or another process holds the data directory
+ */
+export async function importIdentity(
+  dataDir: string,
+  archive: IdentityArchive,
+  options: ImportIdentityOptions = {}
+): Promise<AgentState> {
+  const { state, files } = await readIdentityArchive(archive, options.passphrase);
+
+  fs.mkdirSync(dataDir, { recursive: true });
+  return withDataDirLock(dataDir, async () => {
+    if (hasAgentState(dataDir)) {
+      const existing = await loadAgentState(dataDir, options.stateSecret).then(
+        (loaded) => loaded.state,
+        () => null
+      );
+      if (!options.force) {
+        const current = existing ? `identity ${existing.address}` : "an identity";
+        throw new Error(`Data directory ${dataDir} already contains ${current}`);
+      }
+      const sameIdentity = existing?.address.toLowerCase() === state.address.toLowerCase();
+      if (!sameIdentity && fs.readdirSync(dataDir).some((name) => /^xmtp-.*\.db/.test(name))) {
+        throw new Error(
+          `Data directory ${dataDir} has a database for another identity; import into an empty directory`
+        );
+      }
+    }
+
+    const cipher = options.stateSecret
+      ? await createStateCipher(options.stateSecret, { scryptN: options.scryptN })
+      : undefined;
+    saveAgentState(dataDir, state, cipher);
+
+    for (const name of INVITE_STATE_FILES) {
+      const filePath = path.join(dataDir, name);
+      if (name in files) {
+        writeJsonFile(filePath, files[name]);
+      } else if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+      }
+    }
+    return state;
+  });
+}
+
+function hashArchive(archive: Omit<IdentityArchive, "signature">): Uint8Array {
+  const fields = [
+    archive.format,
+    archive.version,
+    archive.address,
+    archive.publicKey,
+    archive.exportedAt,
+    archive.encryption,
+    archive.payload,
+  ];
+  return hashSha256(new TextEncoder().encode(JSON.stringify(fields)));
+}
@@ -1,8 +1,71 @@
 export {
   startAgent,
-  type AgentProfile,
   type AgentRuntime,
   type AgentRuntimeOptions,
-  type AgentState,
   type MessageContext,
 } from "./runtime.js";
+
+export {
+  acquireDataDirLock,
+  withDataDirLock,
+  type DataDirLock,
+  type DataDirLockInfo,
+} from "./data-dir-lock.js";
+
+export {
+  createBridgeServer,
+  summarizeInvite,
+  summarizeMessage,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WebhookDispatcher,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  type BridgeApi,
+  type BridgeEvent,
+  type BridgeServerOptions,
+  type InviteSummary,
+  type MessageSummary,
+  type WebhookDispatcherOptions,
+} from "./bridge.js";
+
+export {
+  connectDaemon,
+  createDaemonApi,
+  getDaemonSocketPath,
+  serveDaemon,
+  DaemonClient,
+  type DaemonApi,
+  type DaemonClientOptions,
+  type MessageFilter,
+  type DaemonRequest,
+  type DaemonResponse,
+} from "./daemon.js";
+
+export {
+  exportIdentity,
+  importIdentity,
+  readIdentityArchive,
+  type ExportIdentityOptions,
+  type IdentityArchive,
+  type IdentityArchiveContents,
+  type ImportIdentityOptions,
+} from "./identity-archive.js";
+
+export {
+  loadAgentState,
+  saveAgentState,
+  hasAgentState,
+  rekeyAgentState,
+  isAgentStateEncrypted,
+  createStateCipher,
+  getStateSecretFromEnv,
+  STATE_PASSPHRASE_ENV,
+  STATE_KEY_ENV,
+  type AgentProfile,
+  type AgentState,
+  type EncryptedAgentState,
+  type StateCipher,
+  type StateCipherOptions,
+  type StateSecret,
+} from "./state.js";
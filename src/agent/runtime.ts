@@ -7,23 +7,44 @@ import {
   getTestUrl,
   type XmtpEnv,
 } from "@xmtp/agent-sdk";
-import { ConvosMiddleware, type InviteContext, type JoinResult } from "../middleware/index.js";
-import { bytesToHex } from "../utils/hex.js";
-
-const DEFAULT_DATA_DIR = ".convos-agent";
-const STATE_FILE = "agent.json";
+import { randomBytes } from "@noble/ciphers/webcrypto";
+import {
+  ConvosMiddleware,
+  FileInviteRedemptionStore,
+  FileInviteRevocationStore,
+  FilePendingJoinStore,
+  type InviteContext,
+  type InviteResult,
+  type JoinOutcome,
+  type JoinResult,
+  type PendingJoinRequest,
+  type WaitForOutcomeOptions,
+} from "../middleware/index.js";
+import type { InviteJoinError } from "../content-types/index.js";
+import type {
+  ConvosGroupInviteOptions,
+  XMTPGroupWithAppData,
+} from "../middleware/convos-group.js";
+import { InviteSecretKeyring } from "../invite/index.js";
+import { bytesToHex, hexToBytes } from "../utils/hex.js";
+import {
+  createStateCipher,
+  getStateSecretFromEnv,
+  loadAgentState,
+  saveAgentState,
+  type AgentProfile,
+  type AgentState,
+  type StateCipher,
+  type StateSecret,
+} from "./state.js";
+import { acquireDataDirLock, type DataDirLock } from "./data-dir-lock.js";
 
-export interface AgentProfile {
-  name?: string;
-  image?: string;
-}
+export type { AgentProfile, AgentState } from "./state.js";
 
-export interface AgentState {
-  privateKey: string;
-  address: string;
-  createdAt: string;
-  profile?: AgentProfile;
-}
+const DEFAULT_DATA_DIR = ".convos-agent";
+const REDEMPTIONS_FILE = "redemptions.json";
+const REVOCATIONS_FILE = "revocations.json";
+const PENDING_JOINS_FILE = "pending-joins.json";
 
 export interface MessageContext {
   senderInboxId: string;
@@ -42,6 +63,15 @@ export interface AgentRuntimeOptions {
   onInvite?: (ctx: InviteContext) => void | Promise<void>;
   onStart?: (info: { inboxId: string; address: string; testUrl: string }) => void;
   onError?: (error: Error) => void;
+  /** Passphrase that encrypts `agent.json`. Defaults to CONVOS_AGENT_PASSPHRASE */
+  statePassphrase?: string;
+  /** Raw 32-byte key that encrypts `agent.json`, instead of a passphrase. Defaults to CONVOS_AGENT_KEY */
+  stateKey?: Uint8Array | string;
+  /**
+   * Encryption key for the XMTP database. Defaults to the key stored in encrypted
+   * state; data directories created without encryption use an unencrypted database.
+   */
+  dbEncryptionKey?: Uint8Array | string;
 }
 
 export interface AgentRuntime {
@@ -55,6 +85,11 @@ export interface AgentRuntime {
   broadcast: (text: string) => Promise<void>;
   listConversations: () => Promise<string[]>;
   join: (inviteUrl: string) => Promise<JoinResult>;
+  /** Sends a join request and waits until the creator adds or rejects us, or the timeout passes */
+  joinAndWait: (
+    inviteUrl: string,
+    options?: WaitForOutcomeOptions
+  ) => Promise<{ join: JoinResult; outcome: JoinOutcome }>;
   createGroup: (options?: { name?: string; description?: string }) => Promise<{
     conversationId: string;
     inviteUrl: string;
@@ -65,6 +100,42 @@ export interface AgentRuntime {
   saveProfile: (profile: AgentProfile) => Promise<void>;
   /** Gets the current stored profile */
   getProfile: () => AgentProfile | undefined;
+  /** Lists join requests deferred with `ctx.defer()`, oldest first */
+  listPendingJoins: () => Promise<PendingJoinRequest[]>;
+  /** Approves a pending join request, adding the joiner to the conversation */
+  approveJoin: (requestId: string) => Promise<PendingJoinRequest>;
+  /** Denies a pending join request, sending the error to the joiner */
+  denyJoin: (requestId: string, error?: InviteJoinError) => Promise<PendingJoinRequest>;
+  /**
+   * Switches new invites to a fresh invite secret and saves it. Existing invites keep working.
+   * Returns the new key ID.
+   */
+  rotateInviteSecret: () => number;
+  /**
+   * Returns the conversation's current invite tag, or undefined if it has no invite metadata.
+   * Invites with any other tag are rejected.
+   */
+  getInviteTag: (conversationId: string) => Promise<string | undefined>;
+  /** Creates an invite for an existing group, adding invite metadata to it if needed */
+  createInvite: (conversationId: string, options?: ConvosGroupInviteOptions) => Promise<InviteResult>;
+  /**
+   * Replaces the group's invite tag, invalidating every invite created for it so far.
+   * Returns the new tag.
+   */
+  rotateInviteTag: (conversationId: string) => Promise<string>;
+  /**
+   * Resolves with the next incoming message that `match` accepts, alongside `onMessage`.
+   * Rejects with the signal's reason if it aborts first.
+   */
+  waitForMessage: (
+    match?: (ctx: MessageContext) => boolean,
+    signal?: AbortSignal
+  ) => Promise<MessageContext>;
+  /**
+   * Accepts the next join request instead of passing it to `onInvite`, and resolves with it.
+   * Rejects with the signal's reason if it aborts first.
+   */
+  acceptNextInvite: (signal?: AbortSignal) => Promise<InviteContext>;
 }
 
 function ensureDataDir(dataDir: string): void {
@@ -73,25 +144,55 @@ function ensureDataDir(dataDir: string): void {
   }
 }
 
-function loadState(dataDir: string): AgentState | null {
-  const statePath = path.join(dataDir, STATE_FILE);
-  if (!fs.existsSync(statePath)) {
-    return null;
+function resolveStateSecret(options: AgentRuntimeOptions): StateSecret | undefined {
+  if (options.statePassphrase) {
+    return { passphrase: options.statePassphrase };
+  }
+  if (options.stateKey) {
+    return { key: options.stateKey };
   }
-  const content = fs.readFileSync(statePath, "utf-8");
-  return JSON.parse(content) as AgentState;
+  return getStateSecretFromEnv();
 }
 
-function saveState(dataDir: string, state: AgentState): void {
-  const statePath = path.join(dataDir, STATE_FILE);
-  fs.writeFileSync(statePath, JSON.stringify(state, null, 2));
+function resolveDbEncryptionKey(
+  options: AgentRuntimeOptions,
+  state: AgentState
+): Uint8Array | undefined {
+  const key = options.dbEncryptionKey ?? state.dbEncryptionKey;
+  if (key === undefined) {
+    return undefined;
+  }
+  return typeof key === "string" ? hexToBytes(key.replace(/^0x/, "")) : key;
 }
 
+/**
+ * Starts an agent on a data directory. Only one process can use a data
+ * directory at a time; the lock is released by `stop()`.
+ *
+ * @throws Error if another process holds the data directory
+ */
 export async function startAgent(
   options: AgentRuntimeOptions = {}
+): Promise<AgentRuntime> {
+  const dataDir = options.dataDir ?? DEFAULT_DATA_DIR;
+  ensureDataDir(dataDir);
+
+  // Concurrent writers would corrupt agent.json and contend on the database
+  const lock = acquireDataDirLock(dataDir);
+  try {
+    return await createRuntime({ ...options, dataDir }, lock);
+  } catch (err) {
+    lock.release();
+    throw err;
+  }
+}
+
+async function createRuntime(
+  options: AgentRuntimeOptions & { dataDir: string },
+  lock: DataDirLock
 ): Promise<AgentRuntime> {
   const {
-    dataDir = DEFAULT_DATA_DIR,
+    dataDir,
     env = "dev",
     apiUrl,
     onMessage,
@@ -100,42 +201,76 @@ export async function startAgent(
     onError,
   } = options;
 
-  ensureDataDir(dataDir);
-
-  let state = loadState(dataDir);
+  const stateSecret = resolveStateSecret(options);
+  const loaded = await loadAgentState(dataDir, stateSecret);
+  let state = loaded.state;
+  let cipher: StateCipher | undefined = loaded.cipher;
   let user;
 
   if (state) {
     // Restore from existing state
     user = createUser(state.privateKey as `0x${string}`);
   } else {
-    // Create new user and persist
+    // Create new user and persist, encrypting state and database if a secret was given
     user = createUser();
+    cipher = stateSecret ? await createStateCipher(stateSecret) : undefined;
     state = {
       privateKey: user.key,
       address: user.account.address,
       createdAt: new Date().toISOString(),
+      dbEncryptionKey: cipher ? bytesToHex(randomBytes(32)) : undefined,
     };
-    saveState(dataDir, state);
+    saveAgentState(dataDir, state, cipher);
+  }
+
+  // Agents created before invite secrets existed get one on first start;
+  // their earlier invites keep decrypting with the wallet-derived key
+  let inviteSecrets: InviteSecretKeyring;
+  if (state.inviteSecrets) {
+    inviteSecrets = InviteSecretKeyring.fromJSON(state.inviteSecrets);
+  } else {
+    inviteSecrets = InviteSecretKeyring.generate();
+    state.inviteSecrets = inviteSecrets.toJSON();
+    saveAgentState(dataDir, state, cipher);
   }
 
   const signer = createSigner(user);
   const dbPath = path.join(dataDir, `xmtp-${env}.db`);
 
-  const agent = await Agent.create(signer, { env, dbPath, apiUrl });
+  const agent = await Agent.create(signer, {
+    env,
+    dbPath,
+    apiUrl,
+    codecs: ConvosMiddleware.codecs(),
+    dbEncryptionKey: resolveDbEncryptionKey(options, state),
+  });
 
   // Initialize Convos middleware
   // user.key is a hex string, cast to the expected type
   const convos = ConvosMiddleware.create(agent as any, {
     privateKey: user.key as unknown as `0x${string}`,
     env,
+    redemptionStore: new FileInviteRedemptionStore(path.join(dataDir, REDEMPTIONS_FILE)),
+    revocationStore: new FileInviteRevocationStore(path.join(dataDir, REVOCATIONS_FILE)),
+    pendingJoins: {
+      store: new FilePendingJoinStore(path.join(dataDir, PENDING_JOINS_FILE)),
+    },
+    inviteSecrets,
   });
 
   agent.use(convos.middleware() as any);
 
+  // One-shot listeners added by waitForMessage and acceptNextInvite, oldest first
+  const messageWaiters = new Set<(ctx: MessageContext) => void>();
+  const inviteWaiters = new Set<(ctx: InviteContext) => Promise<void>>();
+
   // Handle invite join requests
   convos.on("invite", async (ctx) => {
-    if (onInvite) {
+    const [waiter] = inviteWaiters;
+    if (waiter) {
+      inviteWaiters.delete(waiter);
+      await waiter(ctx);
+    } else if (onInvite) {
       await onInvite(ctx);
     } else {
       // Default: auto-accept
@@ -147,7 +282,7 @@ export async function startAgent(
   agent.on("message", async (ctx) => {
     if (ctx.message.senderInboxId === agent.client.inboxId) return;
 
-    if (onMessage) {
+    if (onMessage || messageWaiters.size > 0) {
       // Get sender name from conversation metadata profiles
       let senderName = "unknown";
       try {
@@ -165,7 +300,7 @@ export async function startAgent(
         // Ignore errors decoding metadata
       }
 
-      await onMessage({
+      const messageContext: MessageContext = {
         senderInboxId: ctx.message.senderInboxId,
         senderName,
         content: ctx.message.content,
@@ -173,7 +308,11 @@ export async function startAgent(
         send: async (text: string) => {
           await ctx.conversation.sendText(text);
         },
-      });
+      };
+      for (const waiter of messageWaiters) {
+        waiter(messageContext);
+      }
+      await onMessage?.(messageContext);
     }
   });
 
@@ -216,6 +355,15 @@ export async function startAgent(
     );
   };
 
+  const getGroup = async (conversationId: string) => {
+    const conversation =
+      await agent.client.conversations.getConversationById(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation not found: ${conversationId}`);
+    }
+    return convos.group(conversation as unknown as XMTPGroupWithAppData);
+  };
+
   // Apply stored profile on start if available
   if (state.profile && (state.profile.name || state.profile.image)) {
     await setProfileOnAllConversations(state.profile);
@@ -227,7 +375,13 @@ export async function startAgent(
     inboxId: agent.client.inboxId,
     address: agent.address!,
     testUrl,
-    stop: () => agent.stop(),
+    stop: async () => {
+      try {
+        await agent.stop();
+      } finally {
+        lock.release();
+      }
+    },
     sendToConversation: async (conversationId: string, text: string) => {
       const conversation =
         await agent.client.conversations.getConversationById(conversationId);
@@ -250,6 +404,11 @@ export async function startAgent(
     join: async (inviteUrl: string) => {
       return convos.join(inviteUrl);
     },
+    joinAndWait: async (inviteUrl: string, waitOptions?: WaitForOutcomeOptions) => {
+      const { waitForOutcome, ...join } = await convos.join(inviteUrl, { watch: true });
+      const outcome = await waitForOutcome(waitOptions);
+      return { join, outcome };
+    },
     createGroup: async (groupOptions = {}) => {
       const xmtpGroup = await agent.client.conversations.createGroup([], {
         groupName: groupOptions.name,
@@ -269,10 +428,83 @@ export async function startAgent(
     saveProfile: async (profile: AgentProfile) => {
       // Update state with new profile
       state.profile = profile;
-      saveState(dataDir, state);
+      saveAgentState(dataDir, state, cipher);
       // Apply to all conversations
       await setProfileOnAllConversations(profile);
     },
     getProfile: () => state.profile,
+    listPendingJoins: () => convos.pendingJoins.list(),
+    approveJoin: (requestId: string) => convos.pendingJoins.accept(requestId),
+    denyJoin: (requestId: string, error?: InviteJoinError) =>
+      convos.pendingJoins.reject(requestId, error),
+    rotateInviteSecret: () => {
+      const { keyId } = inviteSecrets.rotate();
+      state.inviteSecrets = inviteSecrets.toJSON();
+      saveAgentState(dataDir, state, cipher);
+      return keyId;
+    },
+    getInviteTag: async (conversationId: string) => {
+      const conversation =
+        await agent.client.conversations.getConversationById(conversationId);
+      if (!conversation) {
+        throw new Error(`Conversation not found: ${conversationId}`);
+      }
+      const { appData } = conversation as { appData?: string };
+      return appData ? convos.getInviteTag(appData) || undefined : undefined;
+    },
+    createInvite: async (conversationId: string, inviteOptions?: ConvosGroupInviteOptions) => {
+      const group = await getGroup(conversationId);
+      return group.createInvite(inviteOptions);
+    },
+    rotateInviteTag: async (conversationId: string) => {
+      const group = await getGroup(conversationId);
+      const { newTag } = await group.rotateInvites();
+      return newTag;
+    },
+    waitForMessage: (match = () => true, signal?: AbortSignal) =>
+      new Promise<MessageContext>((resolve, reject) => {
+        const waiter = (ctx: MessageContext) => {
+          if (match(ctx)) {
+            messageWaiters.delete(waiter);
+            signal?.removeEventListener("abort", onAbort);
+            resolve(ctx);
+          }
+        };
+        const onAbort = () => {
+          messageWaiters.delete(waiter);
+          reject(signal!.reason);
+        };
+        if (signal?.aborted) {
+          reject(signal.reason);
+          return;
+        }
+        signal?.addEventListener("abort", onAbort, { once: true });
+        messageWaiters.add(waiter);
+      }),
+    acceptNextInvite: (signal?: AbortSignal) =>
+      new Promise<InviteContext>((resolve, reject) => {
+        // Removed from inviteWaiters by the invite handler before it is called
+        const waiter = async (ctx: InviteContext) => {
+          signal?.removeEventListener("abort", onAbort);
+          try {
+            await ctx.accept();
+          } catch (err) {
+            reject(err);
+            // Let the middleware answer the joiner as it does for onInvite errors
+            throw err;
+          }
+          resolve(ctx);
+        };
+        const onAbort = () => {
+          inviteWaiters.delete(waiter);
+          reject(signal!.reason);
+        };
+        if (signal?.aborted) {
+          reject(signal.reason);
+          return;
+        }
+        signal?.addEventListener("abort", onAbort, { once: true });
+        inviteWaiters.add(waiter);
+      }),
   };
 }
@@ -0,0 +1,239 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { encrypt, decrypt } from "../crypto/chacha20poly1305.js";
+import {
+  createScryptParams,
+  deriveKeyFromPassphrase,
+  type ScryptParams,
+} from "../crypto/passphrase.js";
+import { bytesToHex, hexToBytes } from "../utils/hex.js";
+import { writeJsonFile } from "../utils/json-file.js";
+import type { InviteSecretKeyringData } from "../invite/invite-secrets.js";
+import { withDataDirLock } from "./data-dir-lock.js";
+
+const STATE_FILE = "agent.json";
+const ENCRYPTED_STATE_VERSION = 1;
+const STATE_AAD = new TextEncoder().encode("ConvosAgentStateV1");
+const STATE_KEY_LENGTH = 32;
+
+/** Environment variable holding the state passphrase */
+export const STATE_PASSPHRASE_ENV = "CONVOS_AGENT_PASSPHRASE";
+/** Environment variable holding a raw 32-byte state key (hex) */
+export const STATE_KEY_ENV = "CONVOS_AGENT_KEY";
+
+export interface AgentProfile {
+  name?: string;
+  image?: string;
+}
+
+export interface AgentState {
+  privateKey: string;
+  address: string;
+  createdAt: string;
+  profile?: AgentProfile;
+  /** Secrets that encrypt invite conversation tokens, rotatable without changing the identity */
+  inviteSecrets?: InviteSecretKeyringData;
+  /** Encryption key for the XMTP database (hex), set when the state was created encrypted */
+  dbEncryptionKey?: string;
+}
+
+/**
+ * Secret that encrypts agent state at rest: a passphrase, stretched with scrypt,
+ * or a raw 32-byte key (Uint8Array or hex string)
+ */
+export type StateSecret = { passphrase: string } | { key: Uint8Array | string };
+
+/**
+ * Contents of an encrypted `agent.json`
+ */
+export interface EncryptedAgentState {
+  version: number;
+  /** How the key was derived. `none` means a raw key was used */
+  kdf: ScryptParams | { name: "none" };
+  cipher: "chacha20poly1305";
+  /** nonce + ciphertext + tag (hex) */
+  ciphertext: string;
+}
+
+/**
+ * An unlocked state key, derived once and reused for every save
+ */
+export interface StateCipher {
+  key: Uint8Array;
+  kdf: EncryptedAgentState["kdf"];
+}
+
+export interface StateCipherOptions {
+  /** scrypt CPU/memory cost for passphrases, a power of two (default: 2^15) */
+  scryptN?: number;
+}
+
+/**
+ * Reads the state secret from CONVOS_AGENT_PASSPHRASE or CONVOS_AGENT_KEY.
+ */
+export function getStateSecretFromEnv(): StateSecret | undefined {
+  const passphrase = process.env[STATE_PASSPHRASE_ENV];
+  if (passphrase) {
+    return { passphrase };
+  }
+  const key = process.env[STATE_KEY_ENV];
+  if (key) {
+    return { key };
+  }
+  return undefined;
+}
+
+/**
+ * Derives a new state key from a secret, with a fresh salt for passphrases.
+ */
+export async function createStateCipher(
+  secret: StateSecret,
+  options: StateCipherOptions = {}
+): Promise<StateCipher> {
+  if ("passphrase" in secret) {
+    const kdf = createScryptParams(options.scryptN);
+    return { key: await deriveKeyFromPassphrase(secret.passphrase, kdf), kdf };
+  }
+  return { key: normalizeStateKey(secret.key), kdf: { name: "none" } };
+}
+
+/**
+ * Returns true if the data directory holds agent state, encrypted or not.
+ */
+export function hasAgentState(dataDir: string): boolean {
+  return fs.existsSync(path.join(dataDir, STATE_FILE));
+}
+
+/**
+ * Returns true if the data directory holds encrypted agent state.
+ */
+export function isAgentStateEncrypted(dataDir: string): boolean {
+  const raw = readStateFile(dataDir);
+  return raw !== null && isEncryptedState(raw);
+}
+
+/**
+ * Loads agent state from the data directory, decrypting it if needed.
+ * The returned cipher is undefined for unencrypted state; pass it to
+ * `saveAgentState` to keep the state encrypted.
+ *
+ * @throws Error if the state is encrypted and the secret is missing or wrong
+ */
+export async function loadAgentState(
+  dataDir: string,
+  secret?: StateSecret
+): Promise<{ state: AgentState | null; cipher?: StateCipher }> {
+  const raw = readStateFile(dataDir);
+  if (raw === null) {
+    return { state: null };
+  }
+  if (!isEncryptedState(raw)) {
+    return { state: raw };
+  }
+
+  if (raw.version !== ENCRYPTED_STATE_VERSION) {
+    throw new Error(`Unsupported agent state version: ${raw.version}`);
+  }
+  if (!secret) {
+    throw Object.assign(
+      new Error(
+        `Agent state in ${dataDir} is encrypted. Set ${STATE_PASSPHRASE_ENV} or ${STATE_KEY_ENV}.`
+      ),
+      { code: "STATE_LOCKED" }
+    );
+  }
+
+  const cipher = await unlockStateCipher(secret, raw.kdf);
+  let plaintext: Uint8Array;
+  try {
+    plaintext = decrypt(hexToBytes(raw.ciphertext), cipher.key, STATE_AAD);
+  } catch {
+    throw Object.assign(new Error("Failed to unlock agent state: wrong passphrase or key"), {
+      code: "STATE_UNLOCK_FAILED",
+    });
+  }
+  return { state: JSON.parse(new TextDecoder().decode(plaintext)) as AgentState, cipher };
+}
+
+/**
+ * Writes agent state to the data directory, encrypted if a cipher is given.
+ * The file is replaced atomically and readable by the owner only.
+ */
+export function saveAgentState(dataDir: string, state: AgentState, cipher?: StateCipher): void {
+  const statePath = path.join(dataDir, STATE_FILE);
+  const content = cipher ? encryptState(state, cipher) : state;
+  writeJsonFile(statePath, content, { mode: 0o600 });
+}
+
+/**
+ * Re-encrypts agent state under a new secret, or stores it unencrypted if
+ * `next` is undefined.
+ *
+ * @throws Error if there is no state, the current secret is missing or wrong,
+ * or another process holds the data directory
+ */
+export async function rekeyAgentState(
+  dataDir: string,
+  current: StateSecret | undefined,
+  next: StateSecret | undefined,
+  options?: StateCipherOptions
+): Promise<AgentState> {
+  if (!hasAgentState(dataDir)) {
+    throw new Error(`No agent state in ${dataDir}`);
+  }
+  return withDataDirLock(dataDir, async () => {
+    const { state } = await loadAgentState(dataDir, current);
+    if (!state) {
+      throw new Error(`No agent state in ${dataDir}`);
+    }
+    const cipher = next ? await createStateCipher(next, options) : undefined;
+    saveAgentState(dataDir, state, cipher);
+    return state;
+  });
+}
+
+async function unlockStateCipher(
+  secret: StateSecret,
+  kdf: EncryptedAgentState["kdf"]
+): Promise<StateCipher> {
+  if (kdf.name === "scrypt") {
+    if (!("passphrase" in secret)) {
+      throw new Error("Agent state is encrypted with a passphrase, not a key");
+    }
+    return { key: await deriveKeyFromPassphrase(secret.passphrase, kdf), kdf };
+  }
+  if (!("key" in secret)) {
+    throw new Error("Agent state is encrypted with a key, not a passphrase");
+  }
+  return { key: normalizeStateKey(secret.key), kdf };
+}
+
+function encryptState(state: AgentState, cipher: StateCipher): EncryptedAgentState {
+  const plaintext = new TextEncoder().encode(JSON.stringify(state));
+  return {
+    version: ENCRYPTED_STATE_VERSION,
+    kdf: cipher.kdf,
+    cipher: "chacha20poly1305",
+    ciphertext: bytesToHex(encrypt(plaintext, cipher.key, STATE_AAD)),
+  };
+}
+
+function normalizeStateKey(key: Uint8Array | string): Uint8Array {
+  const bytes = typeof key === "string" ? hexToBytes(key.replace(/^0x/, "")) : key;
+  if (bytes.length !== STATE_KEY_LENGTH) {
+    throw new Error(`State key must be ${STATE_KEY_LENGTH} bytes`);
+  }
+  return bytes;
+}
+
+function readStateFile(dataDir: string): AgentState | EncryptedAgentState | null {
+  const statePath = path.join(dataDir, STATE_FILE);
+  if (!fs.existsSync(statePath)) {
+    return null;
+  }
+  return JSON.parse(fs.readFileSync(statePath, "utf-8")) as AgentState | EncryptedAgentState;
+}
+
+function isEncryptedState(raw: AgentState | EncryptedAgentState): raw is EncryptedAgentState {
+  return "ciphertext" in raw && !("privateKey" in raw);
+}
@@ -1,7 +1,48 @@
 #!/usr/bin/env node
 
-import { Command } from "commander";
-import { startAgent } from "./agent/index.js";
+import * as fs from "node:fs";
+import * as readline from "node:readline/promises";
+import { Writable } from "node:stream";
+import { Command, CommanderError, InvalidArgumentError, Option } from "commander";
+import {
+  startAgent,
+  loadAgentState,
+  rekeyAgentState,
+  isAgentStateEncrypted,
+  getStateSecretFromEnv,
+  exportIdentity,
+  importIdentity,
+  connectDaemon,
+  createDaemonApi,
+  getDaemonSocketPath,
+  serveDaemon,
+  createBridgeServer,
+  summarizeInvite,
+  summarizeMessage,
+  WebhookDispatcher,
+  type AgentProfile,
+  type AgentRuntimeOptions,
+  type DaemonApi,
+  type DaemonClient,
+  type IdentityArchive,
+  type MessageContext,
+  type StateSecret,
+} from "./agent/index.js";
+import {
+  createConversationExpiredError,
+  createGenericFailureError,
+  getErrorMessage,
+} from "./content-types/index.js";
+import {
+  inspectInvite,
+  parseInviteSlug,
+  InviteSecretKeyring,
+  type InviteCreatorKeys,
+} from "./invite/index.js";
+import { encodeQR, renderQRPng, renderQRSvg, renderQRTerminal } from "./qr/index.js";
+import { hexToBytes } from "./utils/hex.js";
+import type { InviteContext, PendingJoinRequest } from "./middleware/index.js";
+import { generateSecureRandomString, writeJsonFile } from "./utils/index.js";
 import type { XmtpEnv } from "@xmtp/agent-sdk";
 
 const program = new Command();
@@ -12,7 +53,64 @@ program
   .version("1.0.0")
   .option("--dev", "Use XMTP dev environment (default)")
   .option("--prod", "Use XMTP production environment")
-  .option("--local <ip>", "Use XMTP local environment at specified IP");
+  .option("--local <ip>", "Use XMTP local environment at specified IP")
+  .option("--json", "Print one JSON object per line for every result, event and error")
+  // Usage errors are reported by the catch around parseAsync, as JSON with --json
+  .exitOverride()
+  .configureOutput({
+    outputError: (message, write) => {
+      if (!isJson()) {
+        write(message);
+      }
+    },
+  });
+
+/**
+ * Returns true if --json was given.
+ */
+function isJson(): boolean {
+  return program.opts().json === true;
+}
+
+/**
+ * Writes a result or event to stdout: as one line of JSON with --json,
+ * otherwise as the given text lines, if any.
+ */
+function emit(record: { type: string } & Record<string, unknown>, text?: string | string[]): void {
+  if (isJson()) {
+    process.stdout.write(JSON.stringify(record) + "\n");
+    return;
+  }
+  for (const line of text === undefined ? [] : [text].flat()) {
+    process.stdout.write(line + "\n");
+  }
+}
+
+/**
+ * Like `emit`, but writes the text form to stderr, for status updates that
+ * should not end up in captured output.
+ */
+function notify(record: { type: string } & Record<string, unknown>, text: string): void {
+  if (isJson()) {
+    emit(record);
+  } else {
+    process.stderr.write(text + "\n");
+  }
+}
+
+/**
+ * Reports a failed command and sets a failing exit code. Errors with a `code`
+ * keep it; others are reported as `ERROR`.
+ */
+function reportError(err: unknown, code?: string): void {
+  const message = err instanceof Error ? err.message : String(err);
+  const errorCode = code ?? (err as { code?: unknown } | null)?.code;
+  notify(
+    { type: "error", code: typeof errorCode === "string" ? errorCode : "ERROR", message },
+    message
+  );
+  process.exitCode = 1;
+}
 
 /**
  * Gets the XMTP environment from global options.
@@ -40,31 +138,353 @@ function getApiUrl(): string | undefined {
   return undefined;
 }
 
+/**
+ * Parses a positive number of seconds from a CLI option.
+ */
+function parseSeconds(value: string): number {
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds <= 0) {
+    throw new InvalidArgumentError("Must be a positive number of seconds.");
+  }
+  return seconds;
+}
+
+/**
+ * Parses a duration such as `90`, `30m`, `12h` or `7d` into seconds.
+ * A bare number is seconds.
+ */
+function parseDuration(value: string): number {
+  const match = /^(\d+(?:\.\d+)?)([smhd]?)$/.exec(value.trim());
+  const seconds = match
+    ? Number(match[1]) * { "": 1, s: 1, m: 60, h: 3600, d: 86400 }[match[2]]!
+    : NaN;
+  if (!(seconds > 0)) {
+    throw new InvalidArgumentError("Must be a duration such as 90, 30m, 12h or 7d.");
+  }
+  return seconds;
+}
+
+/**
+ * Parses a date or date-time from a CLI option.
+ */
+function parseDate(value: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new InvalidArgumentError("Must be a date such as 2026-12-31 or 2026-12-31T18:00:00Z.");
+  }
+  return date;
+}
+
+/**
+ * Parses a positive whole number of characters from a CLI option.
+ */
+function parseLength(value: string): number {
+  const length = Number(value);
+  if (!Number.isInteger(length) || length <= 0) {
+    throw new InvalidArgumentError("Must be a positive whole number.");
+  }
+  return length;
+}
+
+/**
+ * Parses a TCP port from a CLI option.
+ */
+function parsePort(value: string): number {
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new InvalidArgumentError("Must be a port number.");
+  }
+  return port;
+}
+
+/**
+ * Returns true if a host name or address refers to this machine only.
+ */
+function isLoopbackHost(host: string): boolean {
+  return host === "localhost" || host === "::1" || /^127(\.\d{1,3}){3}$/.test(host);
+}
+
+/**
+ * Parses the file for `--qr <file>`, which must be an SVG or PNG.
+ */
+function parseQRFile(value: string): string {
+  if (!/\.(svg|png)$/i.test(value)) {
+    throw new InvalidArgumentError("Must be a path ending in .svg or .png.");
+  }
+  return value;
+}
+
+/**
+ * Renders an invite URL for `--qr`: as text lines for the terminal, or into an
+ * SVG or PNG file.
+ */
+function renderInviteQR(url: string, file: string | true): { lines: string[]; qrFile?: string } {
+  if (file === true) {
+    // Level L keeps the code small enough for a terminal; screens scan cleanly
+    return { lines: renderQRTerminal(encodeQR(url, { errorCorrection: "L" })).split("\n") };
+  }
+  const qr = encodeQR(url);
+  fs.writeFileSync(file, file.toLowerCase().endsWith(".png") ? renderQRPng(qr) : renderQRSvg(qr));
+  return { lines: [`QR code written to ${file}`], qrFile: file };
+}
+
+/**
+ * Collects a repeatable CLI option into an array.
+ */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Prompts for a secret on the terminal without echoing it.
+ */
+async function promptSecret(question: string): Promise<string> {
+  if (!process.stdin.isTTY) {
+    throw new Error(`Cannot prompt for "${question.trim()}": stdin is not a terminal`);
+  }
+  const muted = new Writable({
+    write: (_chunk, _encoding, callback) => callback(),
+  });
+  process.stderr.write(question);
+  const rl = readline.createInterface({ input: process.stdin, output: muted, terminal: true });
+  try {
+    return await rl.question("");
+  } finally {
+    rl.close();
+    process.stderr.write("\n");
+  }
+}
+
+/** Passphrase entered interactively for an encrypted data directory */
+let statePassphrase: string | undefined;
+
+/**
+ * Gets the secret for the agent state: the entered passphrase, or one from the environment.
+ */
+function getStateSecret(): StateSecret | undefined {
+  return statePassphrase ? { passphrase: statePassphrase } : getStateSecretFromEnv();
+}
+
+/** Daemon running on the command's data directory, if any */
+let daemon: DaemonClient | null = null;
+
+// Look for a daemon, then ask for the passphrase of an encrypted data directory
+// before running a command, unless one is set in the environment or the daemon
+// has already unlocked it
+program.hook("preAction", async (_program, actionCommand) => {
+  const dataDir: string | undefined = actionCommand.opts().dataDir;
+  if (!dataDir) {
+    return;
+  }
+  daemon = await connectDaemon(dataDir);
+  if (!daemon && !getStateSecretFromEnv() && isAgentStateEncrypted(dataDir)) {
+    statePassphrase = await promptSecret("Passphrase: ");
+  }
+});
+
+/**
+ * Uses the daemon for the data directory when one is running, or starts an
+ * agent for the duration of the command. The handlers apply only to an agent
+ * started here; a daemon keeps its own.
+ */
+async function openAgent(
+  dataDir: string,
+  handlers: Pick<AgentRuntimeOptions, "onInvite" | "onMessage"> = {}
+): Promise<{ api: DaemonApi; close: () => Promise<void> }> {
+  if (daemon) {
+    return { api: daemon, close: async () => {} };
+  }
+  const runtime = await startAgent({
+    dataDir,
+    env: getEnv(),
+    apiUrl: getApiUrl(),
+    statePassphrase,
+    ...handlers,
+  });
+  return { api: createDaemonApi(runtime), close: () => runtime.stop() };
+}
+
+/**
+ * Accepts an invite, or queues it for `requests approve` and reports it.
+ */
+async function handleInvite(ctx: InviteContext, autoAccept: boolean | undefined): Promise<void> {
+  if (autoAccept) {
+    await ctx.accept();
+    emit({ type: "invite", ...summarizeInvite(ctx) });
+    return;
+  }
+  const request = await ctx.defer();
+  notify(
+    { type: "invite", ...summarizeInvite(ctx, request) },
+    `Join request ${request.id} from ${request.joinerInboxId} for ${request.conversationId}`
+  );
+}
+
+/**
+ * Prints incoming messages as `<conversation> ::: <sender> :: <text>`.
+ */
+function printMessage(ctx: MessageContext): void {
+  const summary = summarizeMessage(ctx);
+  const text = summary.text ?? JSON.stringify(ctx.content);
+  emit({ type: "message", ...summary }, `${ctx.conversationId} ::: ${ctx.senderName} :: ${text}`);
+}
+
+/**
+ * Summarizes a pending join request for output.
+ */
+function toRequestRecord(request: PendingJoinRequest) {
+  return {
+    type: "request",
+    id: request.id,
+    joinerInboxId: request.joinerInboxId,
+    conversationId: request.conversationId,
+    inviteTag: request.inviteTag,
+    name: describePendingInvite(request.inviteSlug),
+    requestedAt: request.requestedAt.toISOString(),
+    expiresAt: request.expiresAt.toISOString(),
+  };
+}
+
 program
   .command("listen")
   .description("Listen for messages and invites")
   .option("-d, --data-dir <path>", "Data directory for persistent storage", ".convos-agent")
-  .option("--auto-accept", "Automatically accept invite requests")
+  .option("--auto-accept", "Automatically accept invite requests (otherwise they are queued for `requests approve`)")
   .action(async (options) => {
     const runtime = await startAgent({
       dataDir: options.dataDir,
       env: getEnv(),
       apiUrl: getApiUrl(),
-      onInvite: options.autoAccept
-        ? async (ctx) => {
-            await ctx.accept();
-          }
-        : undefined,
-      onMessage: async (ctx) => {
-        const text =
-          typeof ctx.content === "string"
-            ? ctx.content
-            : (ctx.content as any)?.text ?? JSON.stringify(ctx.content);
-        process.stdout.write(`${ctx.conversationId} ::: ${ctx.senderName} :: ${text}\n`);
-      }
+      statePassphrase,
+      onInvite: (ctx) => handleInvite(ctx, options.autoAccept),
+      onMessage: printMessage,
+    });
+    // Lets `requests` and other commands use this agent while it listens
+    const server = await serveDaemon(
+      createDaemonApi(runtime),
+      getDaemonSocketPath(options.dataDir)
+    );
+
+    const shutdown = async () => {
+      server.close();
+      await runtime.stop();
+      process.exit(0);
+    };
+
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+  });
+
+program
+  .command("daemon")
+  .description("Listen like `listen`, and serve other commands for the data directory over a local socket")
+  .option("-d, --data-dir <path>", "Data directory for persistent storage", ".convos-agent")
+  .option("--auto-accept", "Automatically accept invite requests (otherwise they are queued for `requests approve`)")
+  .action(async (options) => {
+    const runtime = await startAgent({
+      dataDir: options.dataDir,
+      env: getEnv(),
+      apiUrl: getApiUrl(),
+      statePassphrase,
+      onInvite: (ctx) => handleInvite(ctx, options.autoAccept),
+      onMessage: printMessage,
     });
 
+    const socketPath = getDaemonSocketPath(options.dataDir);
+    const server = await serveDaemon(createDaemonApi(runtime), socketPath);
+    notify(
+      { type: "ready", address: runtime.address, socketPath },
+      `Daemon for ${runtime.address} listening on ${socketPath}`
+    );
+
     const shutdown = async () => {
+      server.close();
+      await runtime.stop();
+      process.exit(0);
+    };
+
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+  });
+
+program
+  .command("bridge")
+  .description("Post messages and join requests to webhooks, and serve a local HTTP API")
+  .option("-d, --data-dir <path>", "Data directory for persistent storage", ".convos-agent")
+  .option("--webhook <url>", "Webhook URL to post events to (repeatable)", collect, [])
+  .option("--webhook-secret <secret>", "HMAC secret for webhook signatures (default: CONVOS_WEBHOOK_SECRET)")
+  .option("--host <host>", "Address for the HTTP API", "127.0.0.1")
+  .option("--port <port>", "Port for the HTTP API", parsePort, 8787)
+  .option("--token <token>", "Bearer token required by the HTTP API (default: CONVOS_BRIDGE_TOKEN, else a generated one)")
+  .option("--auto-accept", "Automatically accept invite requests (otherwise they wait for the HTTP API)")
+  .action(async (options) => {
+    const secret = options.webhookSecret ?? process.env.CONVOS_WEBHOOK_SECRET;
+    if (options.webhook.length > 0 && !secret) {
+      program.error("--webhook requires --webhook-secret or CONVOS_WEBHOOK_SECRET");
+    }
+    const configuredToken: string | undefined = options.token ?? process.env.CONVOS_BRIDGE_TOKEN;
+    if (!configuredToken && !isLoopbackHost(options.host)) {
+      program.error("--host other than a loopback address requires --token or CONVOS_BRIDGE_TOKEN");
+    }
+    const token = configuredToken ?? generateSecureRandomString(32);
+    const webhooks = new WebhookDispatcher({
+      urls: options.webhook,
+      secret: secret ?? "",
+      onDeliveryFailed: (url, event, error) => {
+        const message = `Failed to deliver ${event.type} event ${event.id} to ${url}: ${error.message}`;
+        notify({ type: "error", code: "WEBHOOK_DELIVERY_FAILED", message }, message);
+      },
+    });
+
+    const runtime = await startAgent({
+      dataDir: options.dataDir,
+      env: getEnv(),
+      apiUrl: getApiUrl(),
+      statePassphrase,
+      onInvite: async (ctx) => {
+        if (options.autoAccept) {
+          await ctx.accept();
+          void webhooks.dispatch("invite", summarizeInvite(ctx));
+        } else {
+          void webhooks.dispatch("invite", summarizeInvite(ctx, await ctx.defer()));
+        }
+      },
+      onMessage: (ctx) => {
+        void webhooks.dispatch("message", summarizeMessage(ctx));
+      },
+    });
+
+    const daemonServer = await serveDaemon(
+      createDaemonApi(runtime),
+      getDaemonSocketPath(options.dataDir)
+    );
+    const server = createBridgeServer(runtime, { token });
+    try {
+      await new Promise<void>((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(options.port, options.host, () => {
+          server.off("error", reject);
+          resolve();
+        });
+      });
+    } catch (err) {
+      // e.g. EADDRINUSE: release the data directory before reporting it
+      daemonServer.close();
+      await runtime.stop();
+      throw err;
+    }
+    const url = `http://${options.host}:${options.port}`;
+    // A generated token is only shown here
+    const generatedToken = configuredToken ? undefined : token;
+    notify(
+      { type: "ready", address: runtime.address, url, token: generatedToken },
+      `Bridge for ${runtime.address} listening on ${url}` +
+        (generatedToken ? `\nAPI token: ${generatedToken}` : "")
+    );
+
+    const shutdown = async () => {
+      server.close();
+      daemonServer.close();
       await runtime.stop();
       process.exit(0);
     };
@@ -81,13 +501,16 @@ program
   .option("--description <description>", "Group description")
   .option("--no-auto-accept", "Return immediately instead of waiting for invites")
   .option("--auto-accept-all", "Wait forever and auto-accept all invites")
+  .option("--qr [file]", "Also print the invite as a QR code, or write it to an .svg or .png file", parseQRFile)
   .action(async (options) => {
     const runtime = await startAgent({
       dataDir: options.dataDir,
       env: getEnv(),
       apiUrl: getApiUrl(),
+      statePassphrase,
       onInvite: async (ctx) => {
         await ctx.accept();
+        emit({ type: "invite", ...summarizeInvite(ctx) });
         if (!options.autoAcceptAll) {
           await runtime.stop();
           process.exit(0);
@@ -95,12 +518,16 @@ program
       },
     });
 
-    const { inviteUrl } = await runtime.createGroup({
+    const { conversationId, inviteUrl } = await runtime.createGroup({
       name: options.name,
       description: options.description,
     });
 
-    process.stdout.write(inviteUrl + "\n");
+    const qr = options.qr ? renderInviteQR(inviteUrl, options.qr) : undefined;
+    emit({ type: "conversation", conversationId, inviteUrl, qrFile: qr?.qrFile }, [
+      inviteUrl,
+      ...(qr?.lines ?? []),
+    ]);
 
     if (!options.autoAccept) {
       await runtime.stop();
@@ -123,19 +550,16 @@ program
   .option("-d, --data-dir <path>", "Data directory for persistent storage", ".convos-agent")
   .option("-c, --conversation <id>", "Conversation ID (broadcasts to all if not specified)")
   .action(async (message, options) => {
-    const runtime = await startAgent({
-      dataDir: options.dataDir,
-      env: getEnv(),
-      apiUrl: getApiUrl(),
-    });
+    const { api, close } = await openAgent(options.dataDir);
 
     if (options.conversation) {
-      await runtime.sendToConversation(options.conversation, message);
+      await api.sendToConversation(options.conversation, message);
     } else {
-      await runtime.broadcast(message);
+      await api.broadcast(message);
     }
+    emit({ type: "sent", conversationId: options.conversation ?? null });
 
-    await runtime.stop();
+    await close();
   });
 
 program
@@ -144,78 +568,59 @@ program
   .argument("<url>", "Invite URL to join")
   .option("-d, --data-dir <path>", "Data directory for persistent storage", ".convos-agent")
   .option("--no-wait", "Don't wait for the join to be accepted")
+  .option("-t, --timeout <seconds>", "How long to wait for the join to be accepted", parseSeconds, 60)
   .action(async (url, options) => {
-    // Get existing conversations before joining (for wait mode)
-    const existingConversations = new Set<string>();
-
-    const runtime = await startAgent({
-      dataDir: options.dataDir,
-      env: getEnv(),
-      apiUrl: getApiUrl(),
-    });
+    const { api, close } = await openAgent(options.dataDir);
 
-    if (options.wait) {
-      // Track existing conversations so we can detect the new one
-      const conversations = await runtime.listConversations();
-      for (const id of conversations) {
-        existingConversations.add(id);
-      }
-    }
+    const shutdown = async () => {
+      await close();
+      process.exit(0);
+    };
 
-    // Send the join request
-    const result = await runtime.join(url);
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
 
     if (!options.wait) {
-      // Just print info and exit
-      process.stdout.write(`Join request sent to ${result.creatorInboxId}\n`);
-      if (result.name) {
-        process.stdout.write(`Conversation: ${result.name}\n`);
-      }
-      await runtime.stop();
+      // Just send the request and print info
+      const result = await api.join(url);
+      emit({ type: "join", status: "sent", ...result }, [
+        `Join request sent to ${result.creatorInboxId}`,
+        ...(result.name ? [`Conversation: ${result.name}`] : []),
+      ]);
+      await close();
       return;
     }
 
-    // Wait for the join to be accepted by polling for new conversations
-    process.stderr.write(`Waiting to be added to conversation...\n`);
-
-    const pollInterval = 1000; // 1 second
-    const maxWaitTime = 60000; // 60 seconds
-    const startTime = Date.now();
-
-    const checkForNewConversation = async (): Promise<string | null> => {
-      const conversations = await runtime.listConversations();
-      for (const id of conversations) {
-        if (!existingConversations.has(id)) {
-          return id;
-        }
-      }
-      return null;
-    };
-
-    const poll = async (): Promise<void> => {
-      while (Date.now() - startTime < maxWaitTime) {
-        const newConversationId = await checkForNewConversation();
-        if (newConversationId) {
-          process.stdout.write(`${newConversationId}\n`);
-          await runtime.stop();
-          process.exit(0);
-        }
-        await new Promise((resolve) => setTimeout(resolve, pollInterval));
-      }
-      process.stderr.write(`Timeout waiting for join acceptance\n`);
-      await runtime.stop();
-      process.exit(1);
-    };
+    // Wait for the creator to add us to the invite's group or reject the request
+    if (!isJson()) {
+      process.stderr.write(`Waiting to be added to conversation...\n`);
+    }
+    const { join, outcome } = await api.joinAndWait(url, {
+      timeout: options.timeout * 1000,
+    });
 
-    const shutdown = async () => {
-      await runtime.stop();
-      process.exit(0);
+    const details =
+      outcome.status === "rejected"
+        ? { errorType: outcome.errorType, message: getErrorMessage(outcome.error) }
+        : outcome;
+    const record = {
+      type: "join",
+      ...details,
+      status: outcome.status,
+      creatorInboxId: join.creatorInboxId,
+      inviteTag: join.inviteTag,
+      name: join.name,
     };
+    if (outcome.status === "accepted") {
+      emit(record, outcome.conversationId);
+    } else if (outcome.status === "rejected") {
+      notify(record, `Join rejected: ${getErrorMessage(outcome.error)}`);
+    } else {
+      notify(record, `Timeout waiting for join acceptance`);
+    }
 
-    process.on("SIGINT", shutdown);
-    process.on("SIGTERM", shutdown);
-
-    await poll();
+    await close();
+    process.exit(outcome.status === "accepted" ? 0 : 1);
   });
 
 program
@@ -223,18 +628,14 @@ program
   .description("List all conversation IDs")
   .option("-d, --data-dir <path>", "Data directory for persistent storage", ".convos-agent")
   .action(async (options) => {
-    const runtime = await startAgent({
-      dataDir: options.dataDir,
-      env: getEnv(),
-      apiUrl: getApiUrl(),
-    });
+    const { api, close } = await openAgent(options.dataDir);
 
-    const conversationIds = await runtime.listConversations();
+    const conversationIds = await api.listConversations();
     for (const id of conversationIds) {
-      process.stdout.write(id + "\n");
+      emit({ type: "conversation", conversationId: id }, id);
     }
 
-    await runtime.stop();
+    await close();
   });
 
 program
@@ -244,44 +645,31 @@ program
   .option("-c, --conversation <id>", "Conversation ID (any conversation if not specified)")
   .option("-r, --regex <pattern>", "Regex pattern to match message content")
   .action(async (options) => {
-    const regex = options.regex ? new RegExp(options.regex) : null;
-
-    const runtime = await startAgent({
-      dataDir: options.dataDir,
-      env: getEnv(),
-      apiUrl: getApiUrl(),
-      onMessage: async (ctx) => {
-        const text =
-          typeof ctx.content === "string"
-            ? ctx.content
-            : (ctx.content as any)?.text || "";
-
-        // Filter by conversation if specified
-        if (options.conversation && ctx.conversationId !== options.conversation) {
-          return;
-        }
-
-        // Filter by regex if specified
-        if (regex && !regex.test(text)) {
-          return;
-        }
+    // Fail on a bad pattern before starting an agent
+    if (options.regex) {
+      new RegExp(options.regex);
+    }
 
-        process.stdout.write(text + "\n");
-        await runtime.stop();
-        process.exit(0);
-      },
+    const { api, close } = await openAgent(options.dataDir, {
       onInvite: async (ctx) => {
         await ctx.accept();
       },
     });
 
     const shutdown = async () => {
-      await runtime.stop();
+      await close();
       process.exit(0);
     };
 
     process.on("SIGINT", shutdown);
     process.on("SIGTERM", shutdown);
+
+    const summary = await api.waitForMessage({
+      conversationId: options.conversation,
+      pattern: options.regex,
+    });
+    emit({ type: "message", ...summary }, summary.text ?? "");
+    await shutdown();
   });
 
 program
@@ -289,25 +677,19 @@ program
   .description("Wait for a pending invite and accept it")
   .option("-d, --data-dir <path>", "Data directory for persistent storage", ".convos-agent")
   .action(async (options) => {
-    const runtime = await startAgent({
-      dataDir: options.dataDir,
-      env: getEnv(),
-      apiUrl: getApiUrl(),
-      onInvite: async (ctx) => {
-        await ctx.accept();
-        process.stdout.write(`${ctx.conversationId}\n`);
-        await runtime.stop();
-        process.exit(0);
-      },
-    });
+    const { api, close } = await openAgent(options.dataDir);
 
     const shutdown = async () => {
-      await runtime.stop();
+      await close();
       process.exit(0);
     };
 
     process.on("SIGINT", shutdown);
     process.on("SIGTERM", shutdown);
+
+    const summary = await api.acceptNextInvite();
+    emit({ type: "invite", ...summary }, summary.conversationId);
+    await shutdown();
   });
 
 program
@@ -317,54 +699,427 @@ program
   .option("-n, --name <name>", "Profile display name")
   .option("-i, --image <url>", "Profile image URL")
   .action(async (options) => {
+    const { api, close } = await openAgent(options.dataDir);
+
     if (!options.name && !options.image) {
       // Show current profile if no options provided
-      const runtime = await startAgent({
-        dataDir: options.dataDir,
-        env: getEnv(),
-        apiUrl: getApiUrl(),
-      });
-
-      const profile = runtime.getProfile();
-      if (profile && (profile.name || profile.image)) {
-        if (profile.name) {
-          process.stdout.write(`Name: ${profile.name}\n`);
-        }
-        if (profile.image) {
-          process.stdout.write(`Image: ${profile.image}\n`);
-        }
-      } else {
-        process.stdout.write("No profile set\n");
-      }
+      const profile = await api.getProfile();
+      emit(
+        { type: "profile", name: profile?.name ?? null, image: profile?.image ?? null },
+        profile?.name || profile?.image ? describeProfile(profile) : "No profile set"
+      );
 
-      await runtime.stop();
+      await close();
       return;
     }
 
-    const runtime = await startAgent({
-      dataDir: options.dataDir,
-      env: getEnv(),
-      apiUrl: getApiUrl(),
-    });
-
     // Get current profile and merge with new values
-    const currentProfile = runtime.getProfile() || {};
+    const currentProfile = (await api.getProfile()) || {};
     const newProfile = {
       name: options.name !== undefined ? options.name : currentProfile.name,
       image: options.image !== undefined ? options.image : currentProfile.image,
     };
 
-    await runtime.saveProfile(newProfile);
+    await api.saveProfile(newProfile);
+
+    emit(
+      { type: "profile", name: newProfile.name ?? null, image: newProfile.image ?? null },
+      ["Profile updated and applied to all conversations", ...describeProfile(newProfile)]
+    );
+
+    await close();
+  });
+
+/**
+ * Describes a profile as `Name:` and `Image:` lines.
+ */
+function describeProfile(profile: AgentProfile): string[] {
+  return [
+    ...(profile.name ? [`Name: ${profile.name}`] : []),
+    ...(profile.image ? [`Image: ${profile.image}`] : []),
+  ];
+}
+
+/**
+ * Describes the invite behind a pending request, for display.
+ */
+function describePendingInvite(inviteSlug: string): string {
+  try {
+    return parseInviteSlug(inviteSlug).payload.name ?? "";
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Queues join requests that arrive while a `requests` command runs, so they
+ * are not accepted without review.
+ */
+async function deferInvite(ctx: InviteContext): Promise<void> {
+  await ctx.defer();
+}
+
+const requests = program
+  .command("requests")
+  .description("List, approve and deny pending join requests");
 
-    process.stdout.write("Profile updated and applied to all conversations\n");
-    if (newProfile.name) {
-      process.stdout.write(`Name: ${newProfile.name}\n`);
+requests
+  .command("list")
+  .description("List pending join requests")
+  .option("-d, --data-dir <path>", "Data directory for persistent storage", ".convos-agent")
+  .action(async (options) => {
+    const { api, close } = await openAgent(options.dataDir, { onInvite: deferInvite });
+
+    const pending = await api.listPendingJoins();
+    for (const request of pending) {
+      const record = toRequestRecord(request);
+      const fields = [
+        record.id,
+        record.joinerInboxId,
+        record.conversationId,
+        record.requestedAt,
+        record.name,
+      ];
+      emit(record, fields.join("\t"));
+    }
+
+    await close();
+  });
+
+requests
+  .command("approve")
+  .description("Approve a pending join request")
+  .argument("<id>", "Pending request ID")
+  .option("-d, --data-dir <path>", "Data directory for persistent storage", ".convos-agent")
+  .action(async (id, options) => {
+    const { api, close } = await openAgent(options.dataDir, { onInvite: deferInvite });
+
+    try {
+      const request = await api.approveJoin(id);
+      emit({ ...toRequestRecord(request), status: "approved" }, request.conversationId);
+    } catch (err) {
+      reportError(err);
+    }
+
+    await close();
+  });
+
+requests
+  .command("deny")
+  .description("Deny a pending join request")
+  .argument("<id>", "Pending request ID")
+  .option("-d, --data-dir <path>", "Data directory for persistent storage", ".convos-agent")
+  .addOption(
+    new Option("--reason <reason>", "Reason reported to the joiner")
+      .choices(["expired", "generic"])
+      .default("generic")
+  )
+  .action(async (id, options) => {
+    const { api, close } = await openAgent(options.dataDir, { onInvite: deferInvite });
+
+    try {
+      const pending = (await api.listPendingJoins()).find((request) => request.id === id);
+      const inviteTag = pending?.inviteTag ?? "";
+      const error =
+        options.reason === "expired"
+          ? createConversationExpiredError(inviteTag)
+          : createGenericFailureError(inviteTag);
+      const request = await api.denyJoin(id, error);
+      emit({ ...toRequestRecord(request), status: "denied" });
+    } catch (err) {
+      reportError(err);
+    }
+
+    await close();
+  });
+
+const invite = program.command("invite").description("Create, rotate and inspect invites");
+
+invite
+  .command("create")
+  .description("Create an invite for an existing group")
+  .requiredOption("-c, --conversation <id>", "Conversation ID")
+  .option("-d, --data-dir <path>", "Data directory for persistent storage", ".convos-agent")
+  .option("-n, --name <name>", "Conversation name shown in the invite")
+  .option("--description <description>", "Conversation description shown in the invite")
+  .option("--image <url>", "Conversation image URL shown in the invite")
+  .option("--expires-in <duration>", "Invite lifetime, e.g. 3600, 30m, 12h or 7d", parseDuration)
+  .option("--conversation-expires-at <date>", "When the conversation itself expires", parseDate)
+  .option("--single-use", "Expire the invite after its first use")
+  .option("--compact", "Use the compact invite format for a shorter link")
+  .option("--max-length <chars>", "Trim or drop the description, image and name to keep the slug this short", parseLength)
+  .option("--qr [file]", "Also print the invite as a QR code, or write it to an .svg or .png file", parseQRFile)
+  .action(async (options) => {
+    const { api, close } = await openAgent(options.dataDir);
+
+    const expiresAt =
+      options.expiresIn !== undefined
+        ? new Date(Date.now() + options.expiresIn * 1000)
+        : undefined;
+    const { url, slug, length, trimmedFields, droppedFields } = await api.createInvite(
+      options.conversation,
+      {
+        name: options.name,
+        description: options.description,
+        imageURL: options.image,
+        expiresAt,
+        conversationExpiresAt: options.conversationExpiresAt,
+        expiresAfterUse: options.singleUse,
+        compact: options.compact,
+        maxSlugLength: options.maxLength,
+      }
+    );
+    const qr = options.qr ? renderInviteQR(url, options.qr) : undefined;
+    emit(
+      {
+        type: "created",
+        conversationId: options.conversation,
+        inviteUrl: url,
+        slug,
+        slugLength: length,
+        trimmedFields,
+        droppedFields,
+        expiresAt: expiresAt ?? null,
+        qrFile: qr?.qrFile,
+      },
+      [url, ...(qr?.lines ?? [])]
+    );
+    if (!isJson() && trimmedFields.length + droppedFields.length > 0) {
+      const changes = [
+        ...trimmedFields.map((field) => `${field} trimmed`),
+        ...droppedFields.map((field) => `${field} dropped`),
+      ];
+      process.stderr.write(`To fit ${options.maxLength} characters: ${changes.join(", ")}\n`);
     }
-    if (newProfile.image) {
-      process.stdout.write(`Image: ${newProfile.image}\n`);
+
+    await close();
+  });
+
+invite
+  .command("rotate")
+  .description("Replace a group's invite tag, invalidating all of its existing invites")
+  .requiredOption("-c, --conversation <id>", "Conversation ID")
+  .option("-d, --data-dir <path>", "Data directory for persistent storage", ".convos-agent")
+  .action(async (options) => {
+    const { api, close } = await openAgent(options.dataDir);
+
+    const inviteTag = await api.rotateInviteTag(options.conversation);
+    emit(
+      { type: "rotated", conversationId: options.conversation, inviteTag },
+      `Invite tag rotated to ${inviteTag}. Existing invites no longer work.`
+    );
+
+    await close();
+  });
+
+invite
+  .command("inspect")
+  .description("Decode an invite and check its signature, offline unless a data directory is given")
+  .argument("<invite>", "Invite URL or slug")
+  .option("-d, --data-dir <path>", "Creator's data directory, to decrypt the conversation and check the tag")
+  .option("--offline", "With --data-dir, skip checking the conversation's current tag over the network")
+  .action(async (inviteUrl, options) => {
+    let creator: InviteCreatorKeys | undefined;
+    if (options.dataDir) {
+      const { state } = await loadAgentState(options.dataDir, getStateSecret());
+      if (!state) {
+        throw new Error(`No agent state in ${options.dataDir}`);
+      }
+      creator = {
+        privateKey: hexToBytes(state.privateKey.replace(/^0x/, "")),
+        inviteSecrets: state.inviteSecrets
+          ? InviteSecretKeyring.fromJSON(state.inviteSecrets)
+          : undefined,
+      };
+    }
+
+    const inspection = inspectInvite(inviteUrl, creator);
+
+    // The tag lives in the group's metadata, so checking it needs the agent
+    let currentTag: string | null | undefined;
+    if (inspection.conversationId && !options.offline) {
+      const { api, close } = await openAgent(options.dataDir);
+      try {
+        currentTag = (await api.getInviteTag(inspection.conversationId)) ?? null;
+      } finally {
+        await close();
+      }
     }
+    const tagCurrent = currentTag === undefined ? undefined : currentTag === inspection.tag;
 
-    await runtime.stop();
+    const row = (label: string, value: string) => `${(label + ":").padEnd(22)} ${value}`;
+    const expiry = (date: Date | undefined, expired: boolean) =>
+      `${date?.toISOString() ?? "never"}${expired ? " (expired)" : ""}`;
+    const size = inspection.compressed
+      ? `${inspection.encodedBytes} bytes compressed from ${inspection.signedInviteBytes}`
+      : `${inspection.encodedBytes} bytes uncompressed`;
+    const lines = [
+      row("Tag", inspection.tag),
+      row("Name", inspection.name ?? ""),
+      row("Creator inbox", inspection.creatorInboxId),
+      row("Expires", expiry(inspection.expiresAt, inspection.isExpired)),
+      row(
+        "Conversation expires",
+        expiry(inspection.conversationExpiresAt, inspection.isConversationExpired)
+      ),
+      row("Single use", inspection.expiresAfterUse ? "yes" : "no"),
+      row("Slug size", `${inspection.slugLength} chars, ${size}`),
+      row("Format", inspection.compact ? "compact" : "standard"),
+      row(
+        "Token key",
+        inspection.tokenKeyId === undefined
+          ? "wallet-derived"
+          : `invite secret ${inspection.tokenKeyId}`
+      ),
+      row("Signer public key", inspection.signerPublicKey ?? "unrecoverable"),
+    ];
+    if (creator) {
+      lines.push(
+        row("Signature", inspection.signatureValid ? "valid" : "not signed by this identity"),
+        row(
+          "Conversation",
+          inspection.conversationId ?? `cannot decrypt (${inspection.decryptionError})`
+        )
+      );
+    }
+    if (tagCurrent !== undefined) {
+      lines.push(row("Tag current", tagCurrent ? "yes" : `no, current tag is ${currentTag ?? "none"}`));
+    }
+    emit({ type: "inspection", ...inspection, currentTag, tagCurrent }, lines);
   });
 
-program.parse();
+program
+  .command("unlock")
+  .description("Check the passphrase of an encrypted data directory and print the agent address")
+  .option("-d, --data-dir <path>", "Data directory for persistent storage", ".convos-agent")
+  .action(async (options) => {
+    try {
+      const { state, cipher } = await loadAgentState(options.dataDir, getStateSecret());
+      if (!state) {
+        throw new Error(`No agent state in ${options.dataDir}`);
+      }
+      emit(
+        { type: "unlocked", address: state.address, encrypted: cipher !== undefined },
+        state.address
+      );
+      if (!cipher && !isJson()) {
+        process.stderr.write("Agent state is not encrypted. Run `rekey` to set a passphrase.\n");
+      }
+    } catch (err) {
+      reportError(err);
+    }
+  });
+
+program
+  .command("rekey")
+  .description("Encrypt the agent state with a new passphrase")
+  .option("-d, --data-dir <path>", "Data directory for persistent storage", ".convos-agent")
+  .option("--remove", "Remove encryption and store the state in plaintext")
+  .action(async (options) => {
+    try {
+      let next: StateSecret | undefined;
+      if (!options.remove) {
+        let passphrase = process.env.CONVOS_AGENT_NEW_PASSPHRASE;
+        if (!passphrase) {
+          passphrase = await promptSecret("New passphrase: ");
+          if ((await promptSecret("Repeat new passphrase: ")) !== passphrase) {
+            throw new Error("Passphrases do not match");
+          }
+        }
+        if (!passphrase) {
+          throw new Error("Passphrase must not be empty");
+        }
+        next = { passphrase };
+      }
+
+      await rekeyAgentState(options.dataDir, getStateSecret(), next);
+      notify(
+        { type: "rekeyed", encrypted: next !== undefined },
+        next ? "Agent state encrypted" : "Agent state decrypted"
+      );
+    } catch (err) {
+      reportError(err);
+    }
+  });
+
+const identity = program
+  .command("identity")
+  .description("Move the agent identity between machines");
+
+identity
+  .command("export")
+  .description("Write the agent identity and invite state to a signed archive")
+  .requiredOption("-o, --out <file>", "Archive file to write")
+  .option("-d, --data-dir <path>", "Data directory for persistent storage", ".convos-agent")
+  .option("--encrypt", "Encrypt the archive with a passphrase (CONVOS_ARCHIVE_PASSPHRASE or prompt)")
+  .action(async (options) => {
+    try {
+      let passphrase: string | undefined;
+      if (options.encrypt) {
+        passphrase = process.env.CONVOS_ARCHIVE_PASSPHRASE;
+        if (!passphrase) {
+          passphrase = await promptSecret("Archive passphrase: ");
+          if ((await promptSecret("Repeat archive passphrase: ")) !== passphrase) {
+            throw new Error("Passphrases do not match");
+          }
+        }
+        if (!passphrase) {
+          throw new Error("Passphrase must not be empty");
+        }
+      }
+
+      const archive = await exportIdentity(options.dataDir, {
+        stateSecret: getStateSecret(),
+        passphrase,
+      });
+      writeJsonFile(options.out, archive, { mode: 0o600 });
+      emit(
+        { type: "exported", address: archive.address, file: options.out, encrypted: !!passphrase },
+        archive.address
+      );
+      if (!passphrase && !isJson()) {
+        process.stderr.write("Archive is not encrypted and contains the agent's private key\n");
+      }
+    } catch (err) {
+      reportError(err);
+    }
+  });
+
+identity
+  .command("import")
+  .description("Restore the agent identity and invite state from an archive")
+  .argument("<file>", "Archive file to read")
+  .option("-d, --data-dir <path>", "Data directory for persistent storage", ".convos-agent")
+  .option("--force", "Replace the identity already in the data directory")
+  .action(async (file, options) => {
+    try {
+      const archive = JSON.parse(fs.readFileSync(file, "utf-8")) as IdentityArchive;
+      let passphrase: string | undefined;
+      if (archive.encryption?.name === "scrypt") {
+        passphrase =
+          process.env.CONVOS_ARCHIVE_PASSPHRASE ?? (await promptSecret("Archive passphrase: "));
+      }
+
+      const state = await importIdentity(options.dataDir, archive, {
+        passphrase,
+        stateSecret: getStateSecret(),
+        force: options.force,
+      });
+      emit({ type: "imported", address: state.address }, state.address);
+    } catch (err) {
+      reportError(err);
+    }
+  });
+
+program.parseAsync().catch((err) => {
+  if (err instanceof CommanderError) {
+    // Help and version output exit with code 0; usage errors were already
+    // printed in text mode
+    if (err.exitCode !== 0 && isJson()) {
+      reportError(new Error(err.message.replace(/^error: /, "")), "USAGE_ERROR");
+    }
+    process.exitCode = err.exitCode;
+    return;
+  }
+  reportError(err);
+});
@@ -6,5 +6,17 @@ export {
   decodeInviteJoinError,
   createConversationExpiredError,
   createGenericFailureError,
+  createInviteAlreadyUsedError,
+  createInviteRevokedError,
+  createRateLimitedError,
+  createInvalidInviteError,
   getErrorMessage,
 } from "./invite-join-error.js";
+
+export {
+  InviteJoinErrorCodec,
+  isInviteJoinErrorContentType,
+  type ContentCodec,
+  type ContentTypeId,
+  type EncodedContent,
+} from "./invite-join-error-codec.js";
@@ -0,0 +1,93 @@
+import {
+  INVITE_JOIN_ERROR_CONTENT_TYPE,
+  encodeInviteJoinError,
+  decodeInviteJoinError,
+  getErrorMessage,
+  type InviteJoinError,
+} from "./invite-join-error.js";
+
+/**
+ * XMTP content type identifier
+ */
+export interface ContentTypeId {
+  authorityId: string;
+  typeId: string;
+  versionMajor: number;
+  versionMinor: number;
+}
+
+/**
+ * Encoded XMTP message content, as accepted by `conversation.send()`
+ */
+export interface EncodedContent {
+  type?: ContentTypeId;
+  parameters: Record<string, string>;
+  fallback?: string;
+  compression?: number;
+  content: Uint8Array;
+}
+
+/**
+ * XMTP content codec interface, compatible with the agent SDK's `ContentCodec`
+ */
+export interface ContentCodec<T = unknown> {
+  contentType: ContentTypeId;
+  encode(content: T): EncodedContent;
+  decode(content: EncodedContent): T;
+  fallback(content: T): string | undefined;
+  shouldPush(content: T): boolean;
+}
+
+/**
+ * Content codec for invite join errors.
+ * Register it when creating the agent so received errors decode to InviteJoinError:
+ *
+ * @example
+ * ```typescript
+ * const agent = await Agent.create(signer, { codecs: [new InviteJoinErrorCodec()] });
+ * ```
+ */
+export class InviteJoinErrorCodec implements ContentCodec<InviteJoinError> {
+  get contentType(): ContentTypeId {
+    return INVITE_JOIN_ERROR_CONTENT_TYPE;
+  }
+
+  encode(error: InviteJoinError): EncodedContent {
+    return {
+      type: INVITE_JOIN_ERROR_CONTENT_TYPE,
+      parameters: {},
+      fallback: this.fallback(error),
+      content: encodeInviteJoinError(error),
+    };
+  }
+
+  decode(content: EncodedContent): InviteJoinError {
+    return decodeInviteJoinError(content.content);
+  }
+
+  /**
+   * Clients without the codec show the user-facing error message instead.
+   */
+  fallback(error: InviteJoinError): string {
+    return getErrorMessage(error);
+  }
+
+  /**
+   * The joiner is waiting on the outcome of their request, so errors are pushed.
+   */
+  shouldPush(): boolean {
+    return true;
+  }
+}
+
+/**
+ * Returns true if the content type is the invite join error type (any minor version).
+ */
+export function isInviteJoinErrorContentType(contentType: ContentTypeId | undefined): boolean {
+  return (
+    contentType !== undefined &&
+    contentType.authorityId === INVITE_JOIN_ERROR_CONTENT_TYPE.authorityId &&
+    contentType.typeId === INVITE_JOIN_ERROR_CONTENT_TYPE.typeId &&
+    contentType.versionMajor === INVITE_JOIN_ERROR_CONTENT_TYPE.versionMajor
+  );
+}
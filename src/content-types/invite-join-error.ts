@@ -6,6 +6,10 @@
 export enum InviteJoinErrorType {
   ConversationExpired = "conversationExpired",
   GenericFailure = "genericFailure",
+  InviteAlreadyUsed = "inviteAlreadyUsed",
+  InviteRevoked = "inviteRevoked",
+  RateLimited = "rateLimited",
+  InvalidInvite = "invalidInvite",
   Unknown = "unknown",
 }
 
@@ -82,6 +86,52 @@ export function createGenericFailureError(inviteTag: string): InviteJoinError {
   };
 }
 
+/**
+ * Creates an InviteJoinError for a single-use invite that was already redeemed.
+ */
+export function createInviteAlreadyUsedError(inviteTag: string): InviteJoinError {
+  return {
+    errorType: InviteJoinErrorType.InviteAlreadyUsed,
+    inviteTag,
+    timestamp: new Date(),
+  };
+}
+
+/**
+ * Creates an InviteJoinError for an invite that was revoked, either individually
+ * or by rotating the conversation's invite tag.
+ */
+export function createInviteRevokedError(inviteTag: string): InviteJoinError {
+  return {
+    errorType: InviteJoinErrorType.InviteRevoked,
+    inviteTag,
+    timestamp: new Date(),
+  };
+}
+
+/**
+ * Creates an InviteJoinError for a join request rejected by rate limiting.
+ */
+export function createRateLimitedError(inviteTag: string): InviteJoinError {
+  return {
+    errorType: InviteJoinErrorType.RateLimited,
+    inviteTag,
+    timestamp: new Date(),
+  };
+}
+
+/**
+ * Creates an InviteJoinError warning the joiner that their invite could not be read,
+ * e.g. because the link was truncated when pasted.
+ */
+export function createInvalidInviteError(inviteTag: string = ""): InviteJoinError {
+  return {
+    errorType: InviteJoinErrorType.InvalidInvite,
+    inviteTag,
+    timestamp: new Date(),
+  };
+}
+
 /**
  * Gets a user-facing message for an InviteJoinError.
  */
@@ -89,6 +139,14 @@ export function getErrorMessage(error: InviteJoinError): string {
   switch (error.errorType) {
     case InviteJoinErrorType.ConversationExpired:
       return "This conversation is no longer available";
+    case InviteJoinErrorType.InviteAlreadyUsed:
+      return "This invite has already been used";
+    case InviteJoinErrorType.InviteRevoked:
+      return "This invite is no longer valid";
+    case InviteJoinErrorType.RateLimited:
+      return "Too many join requests, please try again later";
+    case InviteJoinErrorType.InvalidInvite:
+      return "This invite link is invalid. Check that the whole link was copied";
     case InviteJoinErrorType.GenericFailure:
     case InviteJoinErrorType.Unknown:
     default:
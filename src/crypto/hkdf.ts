@@ -14,3 +14,18 @@ export function deriveInviteKey(
   const info = new TextEncoder().encode(`inbox:${inboxId}`);
   return hkdf(sha256, privateKey, INVITE_SALT, info, 32);
 }
+
+const INVITE_SECRET_SALT = new TextEncoder().encode("ConvosInviteSecretV1");
+
+/**
+ * Derives a 32-byte symmetric key from an invite secret for invite encryption.
+ * Uses HKDF-SHA256 with salt "ConvosInviteSecretV1" and info "inbox:<inboxId>",
+ * so one secret yields a distinct key per creator inbox.
+ */
+export function deriveInviteKeyFromSecret(
+  secret: Uint8Array,
+  inboxId: string
+): Uint8Array {
+  const info = new TextEncoder().encode(`inbox:${inboxId}`);
+  return hkdf(sha256, secret, INVITE_SECRET_SALT, info, 32);
+}
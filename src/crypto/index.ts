@@ -1,4 +1,4 @@
-export { deriveInviteKey } from "./hkdf.js";
+export { deriveInviteKey, deriveInviteKeyFromSecret } from "./hkdf.js";
 export { encrypt, decrypt } from "./chacha20poly1305.js";
 export {
   signWithRecovery,
@@ -0,0 +1,51 @@
+import { scryptAsync } from "@noble/hashes/scrypt";
+import { randomBytes } from "@noble/ciphers/webcrypto";
+import { bytesToHex, hexToBytes } from "../utils/hex.js";
+
+const DEFAULT_SCRYPT_N = 2 ** 15;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const SALT_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+/**
+ * scrypt parameters stored alongside passphrase-encrypted data
+ */
+export interface ScryptParams {
+  name: "scrypt";
+  /** hex-encoded salt */
+  salt: string;
+  N: number;
+  r: number;
+  p: number;
+}
+
+/**
+ * Creates scrypt parameters with a fresh random salt.
+ *
+ * @param N CPU/memory cost, a power of two (default: 2^15)
+ */
+export function createScryptParams(N: number = DEFAULT_SCRYPT_N): ScryptParams {
+  return {
+    name: "scrypt",
+    salt: bytesToHex(randomBytes(SALT_LENGTH)),
+    N,
+    r: SCRYPT_R,
+    p: SCRYPT_P,
+  };
+}
+
+/**
+ * Derives a 32-byte encryption key from a passphrase.
+ */
+export function deriveKeyFromPassphrase(
+  passphrase: string,
+  params: ScryptParams
+): Promise<Uint8Array> {
+  return scryptAsync(passphrase, hexToBytes(params.salt), {
+    N: params.N,
+    r: params.r,
+    p: params.p,
+    dkLen: KEY_LENGTH,
+  });
+}
@@ -6,21 +6,86 @@ export {
   type CreateGroupOptions,
   type InviteResult,
   type InviteContext,
+  type JoinResult,
+  type JoinOptions,
+  type JoinHandle,
   type XMTPAgent,
   type XMTPConversation,
   type XMTPMessageContext,
   type AgentMiddleware,
 } from "./middleware/convos-middleware.js";
 
+export {
+  type ConvosMiddlewareEvents,
+  type ConvosMiddlewareEventName,
+  type ConvosMiddlewareEventHandler,
+  type JoinAcceptedEvent,
+  type JoinRejectedEvent,
+  type InviteExpiredEvent,
+  type InvalidInviteEvent,
+  type HandlerErrorEvent,
+} from "./middleware/convos-events.js";
+
+export {
+  JoinWatch,
+  type JoinOutcome,
+  type JoinWatchTarget,
+  type JoinCandidate,
+  type WaitForOutcomeOptions,
+} from "./middleware/join-watcher.js";
+
 // ConvosGroup - wraps XMTP groups with Convos functionality
 export {
   type ConvosGroup,
   type ConvosGroupInviteOptions,
+  type RotateInvitesOptions,
+  type RotateInvitesResult,
   type SetConversationProfileOptions,
   type XMTPGroupWithAppData,
   createConvosGroup,
 } from "./middleware/convos-group.js";
 
+// Invite redemption, revocation, approval and abuse handling
+export {
+  InMemoryInviteRedemptionStore,
+  FileInviteRedemptionStore,
+  type InviteRedemption,
+  type InviteRedemptionStore,
+} from "./middleware/invite-redemption-store.js";
+
+export {
+  InMemoryInviteRevocationStore,
+  FileInviteRevocationStore,
+  type InviteRevocationStore,
+  type RevokedInvite,
+} from "./middleware/invite-revocation-store.js";
+
+export {
+  PendingJoinQueue,
+  InMemoryPendingJoinStore,
+  FilePendingJoinStore,
+  type PendingJoinRequest,
+  type PendingJoinInput,
+  type PendingJoinStore,
+  type PendingJoinQueueOptions,
+  type PendingJoinListener,
+} from "./middleware/pending-join-queue.js";
+
+export {
+  JoinRateLimiter,
+  TokenBucket,
+  type JoinRateLimitOptions,
+  type TokenBucketOptions,
+  type RateLimitScope,
+} from "./middleware/rate-limiter.js";
+
+export {
+  BlockReason,
+  StrikeLedger,
+  type BlockPolicy,
+  type BlockEvent,
+} from "./middleware/block-policy.js";
+
 // Legacy exports (use ConvosMiddleware instead)
 export {
   ConvosConversationManager,
@@ -43,26 +108,72 @@ export {
   decodeInviteJoinError,
   createConversationExpiredError,
   createGenericFailureError,
+  createInviteAlreadyUsedError,
+  createInviteRevokedError,
+  createRateLimitedError,
+  createInvalidInviteError,
   getErrorMessage,
+  InviteJoinErrorCodec,
+  isInviteJoinErrorContentType,
+  type ContentCodec,
+  type ContentTypeId,
+  type EncodedContent,
 } from "./content-types/index.js";
 
 // Invite system (for advanced usage)
 export {
   type CreateInviteOptions as InternalCreateInviteOptions,
+  type CreateSignedInviteOptions,
   type ParsedInvite,
+  type InviteSlugResult,
+  type InviteDisplayField,
   createInviteSlug,
+  createInviteSlugWithSigner,
+  buildInviteSlug,
+  buildInviteSlugWithSigner,
   parseInviteSlug,
   verifyInvite,
   verifyInviteWithPrivateKey,
+  verifyInviteWithSigner,
   decryptInviteConversationId,
+  decryptInviteConversationIdWithSigner,
+  hashInvitePayload,
+  inspectInvite,
+  type InviteCreatorKeys,
+  type InviteInspection,
   encryptConversationToken,
   decryptConversationToken,
+  encryptConversationTokenWithKey,
+  decryptConversationTokenWithKey,
+  encryptConversationTokenWithKeyring,
+  decryptConversationTokenWithKeyring,
+  getConversationTokenKeyId,
+  InviteSecretKeyring,
+  type InviteSecret,
+  type InviteSecretKeyringData,
   encodeToSlug,
   decodeFromSlug,
   generateInviteURL,
   parseInviteCode,
 } from "./invite/index.js";
 
+// Invite signers - keep the creator's private key out of process
+export {
+  type InviteSigner,
+  LocalInviteSigner,
+  isInviteSigner,
+  KeystoreInviteSigner,
+  encryptKeystore,
+  writeKeystoreFile,
+  type Keystore,
+  type KeystoreOptions,
+  RemoteInviteSigner,
+  serveInviteSigner,
+  type RemoteInviteSignerOptions,
+  type SignerRequest,
+  type SignerResponse,
+} from "./signer/index.js";
+
 // Protobuf types (for advanced usage)
 export {
   type InvitePayload,
@@ -74,6 +185,7 @@ export {
 // Crypto utilities (for advanced usage)
 export {
   deriveInviteKey,
+  deriveInviteKeyFromSecret,
   encrypt,
   decrypt,
   signWithRecovery,
@@ -84,6 +196,21 @@ export {
   normalizePublicKey,
 } from "./crypto/index.js";
 
+// QR codes for sharing invites
+export {
+  encodeQR,
+  getQRByteCapacity,
+  renderQRTerminal,
+  renderQRSvg,
+  renderQRPng,
+  type QRCode,
+  type QREncodeOptions,
+  type QRErrorCorrectionLevel,
+  type QRTerminalOptions,
+  type QRImageOptions,
+  type QRSvgOptions,
+} from "./qr/index.js";
+
 // Utility functions
 export {
   generateSecureRandomString,
@@ -97,8 +224,22 @@ export {
 // Agent runtime
 export {
   startAgent,
+  rekeyAgentState,
+  isAgentStateEncrypted,
+  exportIdentity,
+  importIdentity,
+  serveDaemon,
+  connectDaemon,
+  DaemonClient,
+  createBridgeServer,
+  WebhookDispatcher,
+  verifyWebhookSignature,
+  type DaemonApi,
+  type BridgeEvent,
   type AgentRuntime,
   type AgentRuntimeOptions,
   type AgentState,
+  type StateSecret,
+  type IdentityArchive,
   type MessageContext,
 } from "./agent/index.js";
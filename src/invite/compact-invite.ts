@@ -0,0 +1,67 @@
+import { keccak_256 } from "@noble/hashes/sha3";
+import { normalizePublicKey, hashSha256 } from "../crypto/secp256k1.js";
+import type { SignedInvite } from "../proto/invite.js";
+import { bytesToHex } from "../utils/hex.js";
+
+/**
+ * First byte of a compact invite. Standard invites start with a protobuf
+ * field tag (0x0a), or 0x78 once compressed, so the formats cannot be confused.
+ */
+export const COMPACT_INVITE_VERSION = 0x01;
+
+const SIGNATURE_LENGTH = 64;
+const HEADER_LENGTH = 1 + SIGNATURE_LENGTH;
+
+/**
+ * Returns true if decoded slug bytes hold a compact invite.
+ */
+export function isCompactInvite(bytes: Uint8Array): boolean {
+  return bytes.length > 0 && bytes[0] === COMPACT_INVITE_VERSION;
+}
+
+/**
+ * Encodes a signed invite in the compact format: version byte, 64-byte
+ * signature with the recovery bit in the top bit of s (as in EIP-2098), then
+ * the payload, without protobuf framing.
+ *
+ * @throws Error if the signature's recovery ID does not fit in one bit
+ */
+export function encodeCompactInvite(invite: SignedInvite): Uint8Array {
+  const { payload, signature } = invite;
+  if (signature.length !== 65 || signature[64] > 1 || signature[32] & 0x80) {
+    throw new Error("Signature cannot be encoded in the compact invite format");
+  }
+
+  const bytes = new Uint8Array(HEADER_LENGTH + payload.length);
+  bytes[0] = COMPACT_INVITE_VERSION;
+  bytes.set(signature.subarray(0, SIGNATURE_LENGTH), 1);
+  bytes[1 + 32] |= signature[64] << 7;
+  bytes.set(payload, HEADER_LENGTH);
+  return bytes;
+}
+
+/**
+ * Decodes a compact invite into a signed invite with a 65-byte signature.
+ *
+ * @throws Error if the bytes are not a compact invite
+ */
+export function decodeCompactInvite(bytes: Uint8Array): SignedInvite {
+  if (!isCompactInvite(bytes) || bytes.length < HEADER_LENGTH) {
+    throw new Error("Invalid compact invite");
+  }
+
+  const signature = new Uint8Array(65);
+  signature.set(bytes.subarray(1, HEADER_LENGTH));
+  signature[64] = signature[32] >>> 7;
+  signature[32] &= 0x7f;
+  return { payload: bytes.slice(HEADER_LENGTH), signature };
+}
+
+/**
+ * Derives the XMTP inbox ID a wallet gets by default (nonce 0) from its
+ * public key. Compact invites omit the creator inbox ID when it matches.
+ */
+export function getDefaultInboxId(publicKey: Uint8Array): string {
+  const address = keccak_256(normalizePublicKey(publicKey).subarray(1)).subarray(12);
+  return bytesToHex(hashSha256(new TextEncoder().encode(`0x${bytesToHex(address)}0`)));
+}
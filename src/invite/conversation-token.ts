@@ -1,7 +1,11 @@
 import { deriveInviteKey } from "../crypto/hkdf.js";
 import { encrypt, decrypt } from "../crypto/chacha20poly1305.js";
+import type { InviteSecretKeyring } from "./invite-secrets.js";
 
+/** Key derived from the wallet private key */
 const FORMAT_VERSION = 0x01;
+/** Key derived from an invite secret, identified by the key ID after the version byte */
+const KEYED_FORMAT_VERSION = 0x02;
 const TYPE_UUID = 0x01;
 const TYPE_STRING = 0x02;
 
@@ -20,7 +24,21 @@ export function encryptConversationToken(
   creatorInboxId: string,
   privateKey: Uint8Array
 ): Uint8Array {
-  const key = deriveInviteKey(privateKey, creatorInboxId);
+  return encryptConversationTokenWithKey(
+    conversationId,
+    creatorInboxId,
+    deriveInviteKey(privateKey, creatorInboxId)
+  );
+}
+
+/**
+ * Encrypts a conversation ID into a token using an already-derived invite key.
+ */
+export function encryptConversationTokenWithKey(
+  conversationId: string,
+  creatorInboxId: string,
+  key: Uint8Array
+): Uint8Array {
   const aad = new TextEncoder().encode(creatorInboxId);
   const plaintext = packConversationId(conversationId);
 
@@ -33,6 +51,73 @@ export function encryptConversationToken(
   return result;
 }
 
+/**
+ * Encrypts a conversation ID into a token using the keyring's current invite secret.
+ * Binary format: version(1) | keyId(1) | nonce(12) | ciphertext | tag(16)
+ */
+export function encryptConversationTokenWithKeyring(
+  conversationId: string,
+  creatorInboxId: string,
+  keyring: InviteSecretKeyring
+): Uint8Array {
+  const keyId = keyring.currentKeyId;
+  const key = keyring.deriveKey(keyId, creatorInboxId);
+  const aad = new TextEncoder().encode(creatorInboxId);
+  const encrypted = encrypt(packConversationId(conversationId), key, aad);
+
+  const result = new Uint8Array(2 + encrypted.length);
+  result[0] = KEYED_FORMAT_VERSION;
+  result[1] = keyId;
+  result.set(encrypted, 2);
+  return result;
+}
+
+/**
+ * Returns the invite secret key ID of a token, or undefined if the token was
+ * encrypted with the wallet-derived key.
+ *
+ * @throws Error if the token is empty or has an unknown version
+ */
+export function getConversationTokenKeyId(tokenBytes: Uint8Array): number | undefined {
+  if (tokenBytes.length < 1) {
+    throw new Error("Token too short");
+  }
+  if (tokenBytes[0] === FORMAT_VERSION) {
+    return undefined;
+  }
+  if (tokenBytes[0] === KEYED_FORMAT_VERSION) {
+    if (tokenBytes.length < 2) {
+      throw new Error("Token too short");
+    }
+    return tokenBytes[1];
+  }
+  throw new Error(`Unsupported token version: ${tokenBytes[0]}`);
+}
+
+/**
+ * Decrypts a conversation token encrypted with an invite secret.
+ *
+ * @throws Error if the token was not encrypted with an invite secret, its key ID
+ *   is not in the keyring, or decryption fails
+ */
+export function decryptConversationTokenWithKeyring(
+  tokenBytes: Uint8Array,
+  creatorInboxId: string,
+  keyring: InviteSecretKeyring
+): string {
+  const keyId = getConversationTokenKeyId(tokenBytes);
+  if (keyId === undefined) {
+    throw new Error("Token was not encrypted with an invite secret");
+  }
+  if (!keyring.has(keyId)) {
+    throw new Error(`Unknown invite secret key ID: ${keyId}`);
+  }
+
+  const key = keyring.deriveKey(keyId, creatorInboxId);
+  const aad = new TextEncoder().encode(creatorInboxId);
+  return unpackConversationId(decrypt(tokenBytes.slice(2), key, aad));
+}
+
 /**
  * Decrypts a conversation token back to a conversation ID.
  */
@@ -40,6 +125,21 @@ export function decryptConversationToken(
   tokenBytes: Uint8Array,
   creatorInboxId: string,
   privateKey: Uint8Array
+): string {
+  return decryptConversationTokenWithKey(
+    tokenBytes,
+    creatorInboxId,
+    deriveInviteKey(privateKey, creatorInboxId)
+  );
+}
+
+/**
+ * Decrypts a conversation token using an already-derived invite key.
+ */
+export function decryptConversationTokenWithKey(
+  tokenBytes: Uint8Array,
+  creatorInboxId: string,
+  key: Uint8Array
 ): string {
   if (tokenBytes.length < 1) {
     throw new Error("Token too short");
@@ -50,7 +150,6 @@ export function decryptConversationToken(
     throw new Error(`Unsupported token version: ${version}`);
   }
 
-  const key = deriveInviteKey(privateKey, creatorInboxId);
   const aad = new TextEncoder().encode(creatorInboxId);
   const encrypted = tokenBytes.slice(1);
 
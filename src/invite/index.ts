@@ -1,8 +1,19 @@
 export {
   encryptConversationToken,
   decryptConversationToken,
+  encryptConversationTokenWithKey,
+  decryptConversationTokenWithKey,
+  encryptConversationTokenWithKeyring,
+  decryptConversationTokenWithKeyring,
+  getConversationTokenKeyId,
 } from "./conversation-token.js";
 
+export {
+  InviteSecretKeyring,
+  type InviteSecret,
+  type InviteSecretKeyringData,
+} from "./invite-secrets.js";
+
 export {
   encodeToSlug,
   decodeFromSlug,
@@ -12,10 +23,25 @@ export {
 
 export {
   type CreateInviteOptions,
+  type CreateSignedInviteOptions,
   type ParsedInvite,
+  type InviteSlugResult,
+  type InviteDisplayField,
   createInviteSlug,
+  createInviteSlugWithSigner,
+  buildInviteSlug,
+  buildInviteSlugWithSigner,
   parseInviteSlug,
   verifyInvite,
   verifyInviteWithPrivateKey,
+  verifyInviteWithSigner,
   decryptInviteConversationId,
+  decryptInviteConversationIdWithSigner,
+  hashInvitePayload,
 } from "./signed-invite.js";
+
+export {
+  inspectInvite,
+  type InviteCreatorKeys,
+  type InviteInspection,
+} from "./inspect.js";
@@ -0,0 +1,131 @@
+import { getPublicKey, hashSha256, recoverPublicKey } from "../crypto/secp256k1.js";
+import { base64UrlDecode } from "../utils/base64url.js";
+import { decompress, isCompressed } from "../utils/compression.js";
+import { bytesToHex } from "../utils/hex.js";
+import { getConversationTokenKeyId } from "./conversation-token.js";
+import { parseInviteCode } from "./encoding.js";
+import type { InviteSecretKeyring } from "./invite-secrets.js";
+import {
+  decryptInviteConversationId,
+  hashInvitePayload,
+  parseInviteSlug,
+  verifyInvite,
+} from "./signed-invite.js";
+
+/**
+ * Keys of the invite creator, for checks only the creator can make
+ */
+export interface InviteCreatorKeys {
+  privateKey: Uint8Array;
+  /** Needed to decrypt invites encrypted with an invite secret */
+  inviteSecrets?: InviteSecretKeyring;
+}
+
+/**
+ * Everything that can be learned about an invite slug without the network
+ */
+export interface InviteInspection {
+  /** The slug, extracted from the URL if one was given */
+  slug: string;
+  /** Characters in the slug, including iMessage separators */
+  slugLength: number;
+  /** Bytes after compression, as base64url-encoded in the slug */
+  encodedBytes: number;
+  /** Bytes of the signed invite before compression */
+  signedInviteBytes: number;
+  compressed: boolean;
+  /** True for the compact format */
+  compact: boolean;
+  /** Stable invite identifier used for revocations and redemptions */
+  inviteHash: string;
+  tag: string;
+  name?: string;
+  description?: string;
+  imageURL?: string;
+  creatorInboxId: string;
+  expiresAt?: Date;
+  conversationExpiresAt?: Date;
+  expiresAfterUse: boolean;
+  isExpired: boolean;
+  isConversationExpired: boolean;
+  /** Invite secret key ID the conversation token is encrypted with. Undefined for the wallet-derived key */
+  tokenKeyId?: number;
+  /** Public key recovered from the signature (hex), or undefined if the signature is malformed */
+  signerPublicKey?: string;
+  /** Whether the creator's key signed the invite. Set when creator keys are given */
+  signatureValid?: boolean;
+  /** The decrypted conversation ID. Set when creator keys are given and decryption succeeds */
+  conversationId?: string;
+  /** Why decryption failed, when creator keys are given */
+  decryptionError?: string;
+}
+
+/**
+ * Decodes an invite URL or slug and reports its contents, size and signature.
+ * With the creator's keys, also verifies the signer and decrypts the
+ * conversation ID.
+ *
+ * @throws Error if the slug cannot be decoded
+ */
+export function inspectInvite(slugOrUrl: string, creator?: InviteCreatorKeys): InviteInspection {
+  const slug = parseInviteCode(slugOrUrl);
+  const parsed = parseInviteSlug(slug);
+  const { signedInvite, payload } = parsed;
+  const encoded = base64UrlDecode(slug.replace(/\*/g, ""));
+
+  const inspection: InviteInspection = {
+    slug,
+    slugLength: slug.length,
+    encodedBytes: encoded.length,
+    signedInviteBytes: decompress(encoded).length,
+    compressed: isCompressed(encoded),
+    compact: parsed.compact,
+    inviteHash: hashInvitePayload(signedInvite),
+    tag: payload.tag,
+    name: payload.name,
+    description: payload.description,
+    imageURL: payload.imageURL,
+    creatorInboxId: parsed.creatorInboxId,
+    expiresAt: toDate(payload.expiresAtUnix),
+    conversationExpiresAt: toDate(payload.conversationExpiresAtUnix),
+    expiresAfterUse: payload.expiresAfterUse,
+    isExpired: parsed.isExpired,
+    isConversationExpired: parsed.isConversationExpired,
+    tokenKeyId: readTokenKeyId(payload.conversationToken),
+    signerPublicKey: recoverSigner(signedInvite.payload, signedInvite.signature),
+  };
+
+  if (creator) {
+    inspection.signatureValid = verifyInvite(signedInvite, getPublicKey(creator.privateKey));
+    try {
+      inspection.conversationId = decryptInviteConversationId(
+        parsed,
+        creator.privateKey,
+        creator.inviteSecrets
+      );
+    } catch (err) {
+      inspection.decryptionError = err instanceof Error ? err.message : String(err);
+    }
+  }
+  return inspection;
+}
+
+function toDate(unixSeconds: bigint | undefined): Date | undefined {
+  return unixSeconds === undefined ? undefined : new Date(Number(unixSeconds) * 1000);
+}
+
+function readTokenKeyId(token: Uint8Array): number | undefined {
+  try {
+    return getConversationTokenKeyId(token);
+  } catch {
+    return undefined;
+  }
+}
+
+function recoverSigner(payload: Uint8Array, signature: Uint8Array): string | undefined {
+  try {
+    return bytesToHex(recoverPublicKey(hashSha256(payload), signature));
+  } catch {
+    return undefined;
+  }
+}
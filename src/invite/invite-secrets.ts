@@ -0,0 +1,190 @@
+import { randomBytes } from "@noble/ciphers/webcrypto";
+import { deriveInviteKeyFromSecret } from "../crypto/hkdf.js";
+import { bytesToHex, hexToBytes } from "../utils/hex.js";
+
+const SECRET_LENGTH = 32;
+const MIN_KEY_ID = 1;
+const MAX_KEY_ID = 255;
+
+/**
+ * A versioned invite secret
+ */
+export interface InviteSecret {
+  /** Identifier written into conversation tokens (1-255) */
+  keyId: number;
+  /** 32 bytes of secret key material */
+  secret: Uint8Array;
+  createdAt: Date;
+}
+
+/**
+ * Serialized form of an InviteSecretKeyring, safe to store as JSON
+ */
+export interface InviteSecretKeyringData {
+  currentKeyId: number;
+  secrets: Array<{ keyId: number; secret: string; createdAt: string }>;
+}
+
+/**
+ * Invite secrets, kept separate from the wallet key so the invite encryption
+ * key can be rotated without rotating the XMTP identity.
+ *
+ * New invites are encrypted with the current secret, and the key ID is written
+ * into the conversation token. Tokens from earlier secrets keep decrypting as
+ * long as those secrets stay in the keyring; remove a secret to invalidate
+ * every invite encrypted with it.
+ *
+ * @example
+ * ```typescript
+ * const inviteSecrets = InviteSecretKeyring.generate();
+ * const convos = ConvosMiddleware.create(agent, { inviteSecrets });
+ *
+ * // Later: new invites use a fresh secret, old invites keep working
+ * inviteSecrets.rotate();
+ * ```
+ */
+export class InviteSecretKeyring {
+  private readonly secrets = new Map<number, InviteSecret>();
+  private current: number;
+
+  /**
+   * @param secrets The secrets to load
+   * @param currentKeyId Secret used for new invites (default: the highest key ID)
+   */
+  constructor(secrets: InviteSecret[], currentKeyId?: number) {
+    if (secrets.length === 0) {
+      throw new Error("Invite secret keyring must contain at least one secret");
+    }
+    for (const secret of secrets) {
+      validateInviteSecret(secret);
+      if (this.secrets.has(secret.keyId)) {
+        throw new Error(`Duplicate invite secret key ID: ${secret.keyId}`);
+      }
+      this.secrets.set(secret.keyId, secret);
+    }
+
+    this.current = currentKeyId ?? Math.max(...this.secrets.keys());
+    if (!this.secrets.has(this.current)) {
+      throw new Error(`Unknown invite secret key ID: ${this.current}`);
+    }
+  }
+
+  /**
+   * Creates a keyring with one random secret.
+   */
+  static generate(): InviteSecretKeyring {
+    return new InviteSecretKeyring([
+      { keyId: MIN_KEY_ID, secret: randomBytes(SECRET_LENGTH), createdAt: new Date() },
+    ]);
+  }
+
+  /**
+   * Restores a keyring from `toJSON()` output.
+   */
+  static fromJSON(data: InviteSecretKeyringData): InviteSecretKeyring {
+    return new InviteSecretKeyring(
+      data.secrets.map((secret) => ({
+        keyId: secret.keyId,
+        secret: hexToBytes(secret.secret),
+        createdAt: new Date(secret.createdAt),
+      })),
+      data.currentKeyId
+    );
+  }
+
+  /**
+   * The key ID used for new invites.
+   */
+  get currentKeyId(): number {
+    return this.current;
+  }
+
+  /**
+   * Lists the key IDs in the keyring, oldest first.
+   */
+  keyIds(): number[] {
+    return [...this.secrets.values()]
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map((secret) => secret.keyId);
+  }
+
+  /**
+   * Returns true if tokens with this key ID can be decrypted.
+   */
+  has(keyId: number): boolean {
+    return this.secrets.has(keyId);
+  }
+
+  /**
+   * Adds a new secret and makes it current. Earlier secrets stay available
+   * for decryption.
+   *
+   * @param secret 32 bytes of key material (default: random)
+   * @throws Error if the next key ID is still in use
+   */
+  rotate(secret: Uint8Array = randomBytes(SECRET_LENGTH)): InviteSecret {
+    const keyId = this.current >= MAX_KEY_ID ? MIN_KEY_ID : this.current + 1;
+    if (this.secrets.has(keyId)) {
+      throw new Error(
+        `Invite secret key ID ${keyId} is still in use. Remove retired secrets before rotating.`
+      );
+    }
+    const inviteSecret: InviteSecret = { keyId, secret, createdAt: new Date() };
+    validateInviteSecret(inviteSecret);
+    this.secrets.set(keyId, inviteSecret);
+    this.current = keyId;
+    return inviteSecret;
+  }
+
+  /**
+   * Removes a retired secret. Invites encrypted with it can no longer be redeemed.
+   *
+   * @throws Error if the secret is the current one
+   */
+  remove(keyId: number): boolean {
+    if (keyId === this.current) {
+      throw new Error("Cannot remove the current invite secret. Rotate first.");
+    }
+    return this.secrets.delete(keyId);
+  }
+
+  /**
+   * Derives the token encryption key for a creator inbox.
+   *
+   * @throws Error if the key ID is not in the keyring
+   */
+  deriveKey(keyId: number, inboxId: string): Uint8Array {
+    const inviteSecret = this.secrets.get(keyId);
+    if (!inviteSecret) {
+      throw new Error(`Unknown invite secret key ID: ${keyId}`);
+    }
+    return deriveInviteKeyFromSecret(inviteSecret.secret, inboxId);
+  }
+
+  /**
+   * Serializes the keyring. The output contains the secrets; store it like a private key.
+   */
+  toJSON(): InviteSecretKeyringData {
+    return {
+      currentKeyId: this.current,
+      secrets: [...this.secrets.values()].map((secret) => ({
+        keyId: secret.keyId,
+        secret: bytesToHex(secret.secret),
+        createdAt: secret.createdAt.toISOString(),
+      })),
+    };
+  }
+}
+
+function validateInviteSecret(inviteSecret: InviteSecret): void {
+  if (
+    !Number.isInteger(inviteSecret.keyId) ||
+    inviteSecret.keyId < MIN_KEY_ID ||
+    inviteSecret.keyId > MAX_KEY_ID
+  ) {
+    throw new Error(`Invalid invite secret key ID: ${inviteSecret.keyId}`);
+  }
+  if (inviteSecret.secret.length !== SECRET_LENGTH) {
+    throw new Error(`Invite secret must be ${SECRET_LENGTH} bytes`);
+  }
+}
@@ -14,9 +14,25 @@ import {
   constantTimeEqual,
   normalizePublicKey,
 } from "../crypto/secp256k1.js";
-import { encryptConversationToken, decryptConversationToken } from "./conversation-token.js";
+import {
+  encryptConversationToken,
+  decryptConversationToken,
+  encryptConversationTokenWithKey,
+  decryptConversationTokenWithKey,
+  encryptConversationTokenWithKeyring,
+  decryptConversationTokenWithKeyring,
+  getConversationTokenKeyId,
+} from "./conversation-token.js";
+import type { InviteSecretKeyring } from "./invite-secrets.js";
 import { encodeToSlug, decodeFromSlug, parseInviteCode } from "./encoding.js";
+import {
+  decodeCompactInvite,
+  encodeCompactInvite,
+  getDefaultInboxId,
+  isCompactInvite,
+} from "./compact-invite.js";
 import { hexToBytes, bytesToHex } from "../utils/hex.js";
+import type { InviteSigner } from "../signer/invite-signer.js";
 
 export interface CreateInviteOptions {
   conversationId: string;
@@ -29,6 +45,41 @@ export interface CreateInviteOptions {
   expiresAt?: Date;
   conversationExpiresAt?: Date;
   expiresAfterUse?: boolean;
+  /** Encrypt the conversation token with the current invite secret instead of the wallet-derived key */
+  inviteSecrets?: InviteSecretKeyring;
+  /**
+   * Use the compact format: a bare 64-byte signature instead of protobuf framing, and
+   * no creator inbox ID when it can be recovered from the signature
+   */
+  compact?: boolean;
+  /** Longest allowed slug in characters. Display fields are trimmed or dropped to fit */
+  maxSlugLength?: number;
+}
+
+/**
+ * Optional display fields, in the order they give way to a size budget
+ */
+export type InviteDisplayField = "description" | "imageURL" | "name";
+
+/**
+ * A created invite slug and what was done to fit it in the size budget
+ */
+export interface InviteSlugResult {
+  slug: string;
+  /** Characters in the slug, including iMessage separators */
+  length: number;
+  compact: boolean;
+  /** Display fields shortened to fit `maxSlugLength` */
+  trimmedFields: InviteDisplayField[];
+  /** Display fields left out to fit `maxSlugLength` */
+  droppedFields: InviteDisplayField[];
+}
+
+/**
+ * Options for creating an invite with an InviteSigner instead of a raw private key
+ */
+export interface CreateSignedInviteOptions extends Omit<CreateInviteOptions, "privateKey"> {
+  signer: InviteSigner;
 }
 
 export interface ParsedInvite {
@@ -37,23 +88,113 @@ export interface ParsedInvite {
   creatorInboxId: string;
   isExpired: boolean;
   isConversationExpired: boolean;
+  /** True for the compact format */
+  compact: boolean;
 }
 
 /**
- * Creates a signed invite slug for a conversation.
+ * Creates a signed invite slug for a conversation. Use `buildInviteSlug` to
+ * also learn the slug's length and which display fields were trimmed or
+ * dropped to fit `maxSlugLength`.
  */
 export function createInviteSlug(options: CreateInviteOptions): string {
+  return buildInviteSlug(options).slug;
+}
+
+/**
+ * Creates a signed invite slug using an InviteSigner, so the private key
+ * does not have to be available to this process.
+ */
+export async function createInviteSlugWithSigner(
+  options: CreateSignedInviteOptions
+): Promise<string> {
+  return (await buildInviteSlugWithSigner(options)).slug;
+}
+
+/**
+ * Like `createInviteSlug`, but also reports the slug's length and any display
+ * fields trimmed or dropped to fit `maxSlugLength`.
+ *
+ * @throws Error if the invite does not fit `maxSlugLength` even without display fields
+ */
+export function buildInviteSlug(options: CreateInviteOptions): InviteSlugResult {
   // Encrypt the conversation ID
-  const conversationToken = encryptConversationToken(
-    options.conversationId,
-    options.creatorInboxId,
-    options.privateKey
+  const conversationToken = options.inviteSecrets
+    ? encryptConversationTokenWithKeyring(
+        options.conversationId,
+        options.creatorInboxId,
+        options.inviteSecrets
+      )
+    : encryptConversationToken(options.conversationId, options.creatorInboxId, options.privateKey);
+
+  const payload = buildInvitePayload(options, conversationToken, getPublicKey(options.privateKey));
+  let budget = options.maxSlugLength;
+  for (;;) {
+    const draft = fitInvitePayload(payload, options, budget);
+    // Serialize and sign the payload
+    const signature = signWithRecovery(hashSha256(draft.payloadBytes), options.privateKey);
+    const result = finishInviteSlug(draft, signature, options);
+    if (options.maxSlugLength === undefined || result.length <= options.maxSlugLength) {
+      return result;
+    }
+    // The signature compressed worse than the placeholder used to fit the fields
+    budget = budget! - (result.length - options.maxSlugLength);
+  }
+}
+
+/**
+ * Like `createInviteSlugWithSigner`, but also reports the slug's length and
+ * any display fields trimmed or dropped to fit `maxSlugLength`.
+ *
+ * @throws Error if the invite does not fit `maxSlugLength` even without display fields
+ */
+export async function buildInviteSlugWithSigner(
+  options: CreateSignedInviteOptions
+): Promise<InviteSlugResult> {
+  const conversationToken = options.inviteSecrets
+    ? encryptConversationTokenWithKeyring(
+        options.conversationId,
+        options.creatorInboxId,
+        options.inviteSecrets
+      )
+    : encryptConversationTokenWithKey(
+        options.conversationId,
+        options.creatorInboxId,
+        await options.signer.deriveInviteKey(options.creatorInboxId)
+      );
+
+  const payload = buildInvitePayload(
+    options,
+    conversationToken,
+    await options.signer.getPublicKey()
   );
+  let budget = options.maxSlugLength;
+  for (;;) {
+    const draft = fitInvitePayload(payload, options, budget);
+    const signature = await options.signer.signHash(hashSha256(draft.payloadBytes));
+    const result = finishInviteSlug(draft, signature, options);
+    if (options.maxSlugLength === undefined || result.length <= options.maxSlugLength) {
+      return result;
+    }
+    // The signature compressed worse than the placeholder used to fit the fields
+    budget = budget! - (result.length - options.maxSlugLength);
+  }
+}
 
-  // Build the payload
-  const payload: InvitePayload = {
+/**
+ * Builds the invite payload around an encrypted conversation token.
+ */
+function buildInvitePayload(
+  options: Omit<CreateInviteOptions, "privateKey" | "inviteSecrets">,
+  conversationToken: Uint8Array,
+  creatorPublicKey: Uint8Array
+): InvitePayload {
+  // Compact invites leave out an inbox ID the joiner can recover from the signature
+  const omitInboxId =
+    options.compact && options.creatorInboxId.toLowerCase() === getDefaultInboxId(creatorPublicKey);
+  return {
     conversationToken,
-    creatorInboxId: hexToBytes(options.creatorInboxId),
+    creatorInboxId: omitInboxId ? new Uint8Array(0) : hexToBytes(options.creatorInboxId),
     tag: options.inviteTag,
     name: options.name,
     description: options.description,
@@ -66,12 +207,114 @@ export function createInviteSlug(options: CreateInviteOptions): string {
       ? BigInt(Math.floor(options.conversationExpiresAt.getTime() / 1000))
       : undefined,
   };
+}
+
+/**
+ * Stands in for the signature while fitting fields. Random-looking, so it compresses like
+ * one, with a low s and recovery ID 0 so the compact format accepts it too
+ */
+const PLACEHOLDER_SIGNATURE = new Uint8Array(65).map((_, i) =>
+  i === 64 ? 0 : ((i * 167 + 89) % 251) & (i === 32 ? 0x7f : 0xff)
+);
+
+/**
+ * A serialized payload ready to sign
+ */
+interface InviteDraft {
+  payloadBytes: Uint8Array;
+  trimmedFields: InviteDisplayField[];
+  droppedFields: InviteDisplayField[];
+}
+
+/**
+ * Shortens, then drops, display fields until the slug fits the budget:
+ * first the description, then the image URL (dropped only, since a cut URL
+ * is useless), then the name.
+ *
+ * @throws Error if the invite does not fit even without display fields
+ */
+function fitInvitePayload(
+  payload: InvitePayload,
+  options: Pick<CreateInviteOptions, "compact">,
+  budget: number | undefined
+): InviteDraft {
+  const draft: InviteDraft = {
+    payloadBytes: encodeInvitePayload(payload),
+    trimmedFields: [],
+    droppedFields: [],
+  };
+  const measure = (candidate: InvitePayload) =>
+    encodeSignedInviteSlug(encodeInvitePayload(candidate), PLACEHOLDER_SIGNATURE, options).length;
+  if (budget === undefined || measure(payload) <= budget) {
+    return draft;
+  }
+
+  let fitted = payload;
+  for (const field of ["description", "imageURL", "name"] as const) {
+    const value = fitted[field];
+    if (value === undefined) {
+      continue;
+    }
 
-  // Serialize and sign the payload
-  const payloadBytes = encodeInvitePayload(payload);
-  const messageHash = hashSha256(payloadBytes);
-  const signature = signWithRecovery(messageHash, options.privateKey);
+    if (field !== "imageURL") {
+      // Binary search for the longest prefix that fits
+      const characters = Array.from(value);
+      let best: string | undefined;
+      for (let low = 1, high = characters.length - 1; low <= high; ) {
+        const length = Math.floor((low + high) / 2);
+        const shortened = characters.slice(0, length).join("").trimEnd() + "…";
+        if (measure({ ...fitted, [field]: shortened }) <= budget) {
+          best = shortened;
+          low = length + 1;
+        } else {
+          high = length - 1;
+        }
+      }
+      if (best !== undefined) {
+        fitted = { ...fitted, [field]: best };
+        draft.trimmedFields.push(field);
+        draft.payloadBytes = encodeInvitePayload(fitted);
+        return draft;
+      }
+    }
+
+    fitted = { ...fitted, [field]: undefined };
+    draft.droppedFields.push(field);
+    if (measure(fitted) <= budget) {
+      draft.payloadBytes = encodeInvitePayload(fitted);
+      return draft;
+    }
+  }
+
+  throw new Error(
+    `Invite slug needs ${measure(fitted)} characters without display fields, ` +
+      `over the budget of ${budget}`
+  );
+}
 
+function finishInviteSlug(
+  draft: InviteDraft,
+  signature: Uint8Array,
+  options: Pick<CreateInviteOptions, "compact">
+): InviteSlugResult {
+  const slug = encodeSignedInviteSlug(draft.payloadBytes, signature, options);
+  return {
+    slug,
+    length: slug.length,
+    compact: options.compact ?? false,
+    trimmedFields: draft.trimmedFields,
+    droppedFields: draft.droppedFields,
+  };
+}
+
+/**
+ * Combines a serialized payload and its signature into a URL-safe slug.
+ */
+function encodeSignedInviteSlug(
+  payloadBytes: Uint8Array,
+  signature: Uint8Array,
+  options: Pick<CreateInviteOptions, "compact">
+): string {
   // Create the signed invite
   const signedInvite: SignedInvite = {
     payload: payloadBytes,
@@ -79,7 +322,9 @@ export function createInviteSlug(options: CreateInviteOptions): string {
   };
 
   // Encode to URL-safe slug
-  const signedInviteBytes = encodeSignedInvite(signedInvite);
+  const signedInviteBytes = options.compact
+    ? encodeCompactInvite(signedInvite)
+    : encodeSignedInvite(signedInvite);
   return encodeToSlug(signedInviteBytes);
 }
 
@@ -89,8 +334,14 @@ export function createInviteSlug(options: CreateInviteOptions): string {
 export function parseInviteSlug(slugOrUrl: string): ParsedInvite {
   const slug = parseInviteCode(slugOrUrl);
   const bytes = decodeFromSlug(slug);
-  const signedInvite = decodeSignedInvite(bytes);
+  const compact = isCompactInvite(bytes);
+  const signedInvite = compact ? decodeCompactInvite(bytes) : decodeSignedInvite(bytes);
   const payload = decodeInvitePayload(signedInvite.payload);
+  if (compact && payload.creatorInboxId.length === 0) {
+    payload.creatorInboxId = hexToBytes(
+      getDefaultInboxId(recoverPublicKey(hashSha256(signedInvite.payload), signedInvite.signature))
+    );
+  }
 
   const now = BigInt(Math.floor(Date.now() / 1000));
   const isExpired = payload.expiresAtUnix !== undefined && payload.expiresAtUnix < now;
@@ -103,6 +354,7 @@ export function parseInviteSlug(slugOrUrl: string): ParsedInvite {
     creatorInboxId: bytesToHex(payload.creatorInboxId),
     isExpired,
     isConversationExpired,
+    compact,
   };
 }
 
@@ -139,17 +391,75 @@ export function verifyInviteWithPrivateKey(
   return verifyInvite(signedInvite, publicKey);
 }
 
+/**
+ * Verifies an invite was created by the owner of the signer's key.
+ */
+export async function verifyInviteWithSigner(
+  signedInvite: SignedInvite,
+  signer: InviteSigner
+): Promise<boolean> {
+  return verifyInvite(signedInvite, await signer.getPublicKey());
+}
+
+/**
+ * Computes a stable identifier for an invite: the SHA-256 hash (hex) of the signed payload.
+ * Used to track redemptions of individual invites.
+ */
+export function hashInvitePayload(signedInvite: SignedInvite): string {
+  return bytesToHex(hashSha256(signedInvite.payload));
+}
+
 /**
  * Decrypts the conversation ID from a parsed invite.
- * Only the creator (who has the private key) can decrypt this.
+ * Only the creator (who has the private key, or the invite secret) can decrypt this.
+ *
+ * @param inviteSecrets Required for invites encrypted with an invite secret
  */
 export function decryptInviteConversationId(
   parsedInvite: ParsedInvite,
-  privateKey: Uint8Array
+  privateKey: Uint8Array,
+  inviteSecrets?: InviteSecretKeyring
 ): string {
-  return decryptConversationToken(
-    parsedInvite.payload.conversationToken,
-    parsedInvite.creatorInboxId,
-    privateKey
-  );
+  const token = parsedInvite.payload.conversationToken;
+  if (isKeyedToken(token)) {
+    return decryptConversationTokenWithKeyring(
+      token,
+      parsedInvite.creatorInboxId,
+      requireInviteSecrets(inviteSecrets)
+    );
+  }
+  return decryptConversationToken(token, parsedInvite.creatorInboxId, privateKey);
+}
+
+/**
+ * Decrypts the conversation ID from a parsed invite using the creator's signer.
+ *
+ * @param inviteSecrets Required for invites encrypted with an invite secret
+ */
+export async function decryptInviteConversationIdWithSigner(
+  parsedInvite: ParsedInvite,
+  signer: InviteSigner,
+  inviteSecrets?: InviteSecretKeyring
+): Promise<string> {
+  const token = parsedInvite.payload.conversationToken;
+  if (isKeyedToken(token)) {
+    return decryptConversationTokenWithKeyring(
+      token,
+      parsedInvite.creatorInboxId,
+      requireInviteSecrets(inviteSecrets)
+    );
+  }
+  const inviteKey = await signer.deriveInviteKey(parsedInvite.creatorInboxId);
+  return decryptConversationTokenWithKey(token, parsedInvite.creatorInboxId, inviteKey);
+}
+
+function isKeyedToken(token: Uint8Array): boolean {
+  return getConversationTokenKeyId(token) !== undefined;
+}
+
+function requireInviteSecrets(inviteSecrets: InviteSecretKeyring | undefined): InviteSecretKeyring {
+  if (!inviteSecrets) {
+    throw new Error("Invite was encrypted with an invite secret, but no invite secrets were provided");
+  }
+  return inviteSecrets;
 }
@@ -0,0 +1,93 @@
+import type { ParsedInvite } from "../invite/signed-invite.js";
+
+/**
+ * How the middleware responds to invalid or abusive join attempts.
+ * - block: block the sender immediately (default)
+ * - warn: reply with an invalid-invite error and never block
+ * - ignore: drop the message without replying or blocking
+ * - strikes: reply with a warning for each offense, blocking once the sender
+ *   reaches `maxStrikes` within `windowMs`
+ */
+export type BlockPolicy =
+  | { mode: "block" }
+  | { mode: "warn" }
+  | { mode: "ignore" }
+  | { mode: "strikes"; maxStrikes: number; windowMs?: number };
+
+/**
+ * Why a sender was penalized
+ */
+export enum BlockReason {
+  /** Sent something that looks like an invite but cannot be parsed */
+  MalformedInvite = "malformedInvite",
+  /** Sent an invite created by a different inbox */
+  WrongCreator = "wrongCreator",
+  /** Sent an invite whose signature does not verify */
+  InvalidSignature = "invalidSignature",
+  /** Sent an invite whose conversation token cannot be decrypted */
+  DecryptionFailed = "decryptionFailed",
+  /** Kept exceeding the join request rate limit */
+  RateLimited = "rateLimited",
+}
+
+/**
+ * Payload of the `senderBlocked` event
+ */
+export interface BlockEvent {
+  /** The inbox ID that was blocked */
+  senderInboxId: string;
+  /** The offense that triggered the block */
+  reason: BlockReason;
+  /** Strikes recorded against the sender, when using the strikes policy */
+  strikes?: number;
+  /** The invite the sender presented, if it could be parsed */
+  invite?: ParsedInvite;
+}
+
+/**
+ * Counts offenses per sender within a sliding time window.
+ */
+export class StrikeLedger {
+  private readonly windowMs?: number;
+  private readonly strikes = new Map<string, number[]>();
+
+  /**
+   * @param windowMs How long a strike counts against a sender. Strikes never expire if not set
+   */
+  constructor(windowMs?: number) {
+    this.windowMs = windowMs;
+  }
+
+  /**
+   * Records a strike and returns the sender's current strike count.
+   */
+  addStrike(senderInboxId: string, now: number = Date.now()): number {
+    const strikes = this.activeStrikes(senderInboxId, now);
+    strikes.push(now);
+    this.strikes.set(senderInboxId, strikes);
+    return strikes.length;
+  }
+
+  /**
+   * Returns the sender's current strike count.
+   */
+  getStrikes(senderInboxId: string, now: number = Date.now()): number {
+    return this.activeStrikes(senderInboxId, now).length;
+  }
+
+  /**
+   * Forgets all strikes for a sender.
+   */
+  clear(senderInboxId: string): void {
+    this.strikes.delete(senderInboxId);
+  }
+
+  private activeStrikes(senderInboxId: string, now: number): number[] {
+    const strikes = this.strikes.get(senderInboxId) ?? [];
+    if (this.windowMs === undefined) {
+      return strikes;
+    }
+    const cutoff = now - this.windowMs;
+    return strikes.filter((timestamp) => timestamp > cutoff);
+  }
+}
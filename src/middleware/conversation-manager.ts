@@ -2,8 +2,11 @@ import { generateInviteTag } from "../utils/random.js";
 import { hexToBytes } from "../utils/hex.js";
 import {
   createInviteSlug,
+  createInviteSlugWithSigner,
   type CreateInviteOptions,
 } from "../invite/signed-invite.js";
+import type { InviteSigner } from "../signer/invite-signer.js";
+import type { InviteSecretKeyring } from "../invite/invite-secrets.js";
 import { generateInviteURL } from "../invite/encoding.js";
 import {
   encodeConversationMetadata,
@@ -34,8 +37,12 @@ export interface ConvosConversationManagerOptions {
   inboxId?: string;
   /** The creator's secp256k1 private key (32 bytes). If not provided, reads from XMTP_WALLET_KEY env var */
   privateKey?: Uint8Array;
+  /** Performs the creator's key operations instead of an in-process private key. Use with `createInviteWithSigner()` */
+  signer?: InviteSigner;
   /** Base URL for invite links (default: https://popup.convos.org/v2) */
   inviteBaseURL?: string;
+  /** Encrypt conversation tokens with the current invite secret instead of the wallet-derived key */
+  inviteSecrets?: InviteSecretKeyring;
 }
 
 /**
@@ -54,8 +61,10 @@ export interface XMTPAgent {
  */
 export class ConvosConversationManager {
   private readonly inboxId: string;
-  private readonly privateKey: Uint8Array;
+  private readonly privateKey?: Uint8Array;
+  private readonly signer?: InviteSigner;
   private readonly inviteBaseURL: string;
+  private readonly inviteSecrets?: InviteSecretKeyring;
 
   /**
    * Creates a ConvosConversationManager.
@@ -75,8 +84,10 @@ export class ConvosConversationManager {
       );
     }
 
-    // Get privateKey from options or environment
-    if (options.privateKey) {
+    // Get the signer or privateKey from options or environment
+    if (options.signer) {
+      this.signer = options.signer;
+    } else if (options.privateKey) {
       this.privateKey = options.privateKey;
     } else {
       const envKey = process.env.XMTP_WALLET_KEY || process.env.WALLET_KEY;
@@ -89,6 +100,7 @@ export class ConvosConversationManager {
     }
 
     this.inviteBaseURL = options.inviteBaseURL ?? "https://popup.convos.org/v2";
+    this.inviteSecrets = options.inviteSecrets;
   }
 
   /**
@@ -126,25 +138,61 @@ export class ConvosConversationManager {
 
   /**
    * Generates an invite for a conversation.
+   * Requires a private key; use `createInviteWithSigner()` when configured with a signer.
    */
   createInvite(conversation: ConversationInfo, options?: {
     expiresAt?: Date;
     expiresAfterUse?: boolean;
   }): InviteResult {
-    const inviteOptions: CreateInviteOptions = {
+    if (!this.privateKey) {
+      throw new Error("createInvite requires a privateKey. Use createInviteWithSigner() with a signer.");
+    }
+
+    const slug = createInviteSlug({
+      ...this.getInviteOptions(conversation, options),
+      privateKey: this.privateKey,
+    });
+    return this.toInviteResult(slug);
+  }
+
+  /**
+   * Generates an invite for a conversation using the configured signer,
+   * or the private key if no signer was provided.
+   */
+  async createInviteWithSigner(conversation: ConversationInfo, options?: {
+    expiresAt?: Date;
+    expiresAfterUse?: boolean;
+  }): Promise<InviteResult> {
+    if (!this.signer) {
+      return this.createInvite(conversation, options);
+    }
+
+    const slug = await createInviteSlugWithSigner({
+      ...this.getInviteOptions(conversation, options),
+      signer: this.signer,
+    });
+    return this.toInviteResult(slug);
+  }
+
+  private getInviteOptions(
+    conversation: ConversationInfo,
+    options?: { expiresAt?: Date; expiresAfterUse?: boolean }
+  ): Omit<CreateInviteOptions, "privateKey"> {
+    return {
       conversationId: conversation.conversationId,
       inviteTag: conversation.inviteTag,
       creatorInboxId: conversation.creatorInboxId,
-      privateKey: this.privateKey,
       name: conversation.name,
       description: conversation.description,
       imageURL: conversation.imageURL,
       conversationExpiresAt: conversation.expiresAt,
       expiresAt: options?.expiresAt,
       expiresAfterUse: options?.expiresAfterUse,
+      inviteSecrets: this.inviteSecrets,
     };
+  }
 
-    const slug = createInviteSlug(inviteOptions);
+  private toInviteResult(slug: string): InviteResult {
     const url = generateInviteURL(slug, this.inviteBaseURL);
 
     return {
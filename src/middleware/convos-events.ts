@@ -0,0 +1,106 @@
+import type { ParsedInvite } from "../invite/signed-invite.js";
+import type { InviteJoinError } from "../content-types/invite-join-error.js";
+import type { BlockEvent, BlockReason } from "./block-policy.js";
+import type { InviteContext } from "./convos-middleware.js";
+
+/**
+ * Payload of the `joinAccepted` event
+ */
+export interface JoinAcceptedEvent {
+  /** The inbox ID that was added to the conversation */
+  joinerInboxId: string;
+  /** The conversation the joiner was added to */
+  conversationId: string;
+  /** The invite tag from the invite */
+  inviteTag: string;
+  /** The invite the joiner presented */
+  invite: ParsedInvite;
+  /** True if the request was accepted later from the pending join queue */
+  deferred: boolean;
+}
+
+/**
+ * Payload of the `joinRejected` event
+ */
+export interface JoinRejectedEvent {
+  /** The inbox ID whose join request was rejected */
+  joinerInboxId: string;
+  /** The conversation they asked to join, if it was decrypted before the rejection */
+  conversationId?: string;
+  /** The invite tag from the invite */
+  inviteTag: string;
+  /** The invite the joiner presented */
+  invite: ParsedInvite;
+  /** The error sent to the joiner. `error.errorType` is the rejection reason */
+  error: InviteJoinError;
+  /** True if the request was rejected later from the pending join queue */
+  deferred: boolean;
+}
+
+/**
+ * Payload of the `inviteExpired` event
+ */
+export interface InviteExpiredEvent {
+  /** The inbox ID that presented the invite */
+  joinerInboxId: string;
+  /** The conversation the invite was for, if it was decrypted */
+  conversationId?: string;
+  /** The invite tag from the invite */
+  inviteTag: string;
+  /** The expired invite */
+  invite: ParsedInvite;
+}
+
+/**
+ * Payload of the `invalidInvite` event, emitted before the block policy is applied
+ */
+export interface InvalidInviteEvent {
+  /** The inbox ID that sent the invalid invite */
+  senderInboxId: string;
+  /** Why the invite was rejected */
+  reason: BlockReason;
+  /** The parsed invite, unless the message could not be parsed at all */
+  invite?: ParsedInvite;
+}
+
+/**
+ * Payload of the `handlerError` event
+ */
+export interface HandlerErrorEvent {
+  /** The error thrown by the invite handler */
+  error: unknown;
+  /** The invite context the handler was called with */
+  context: InviteContext;
+}
+
+/**
+ * Events emitted by ConvosMiddleware, keyed by event name
+ */
+export interface ConvosMiddlewareEvents {
+  /** A valid join request was received */
+  invite: InviteContext;
+  /** A joiner was added to a conversation */
+  joinAccepted: JoinAcceptedEvent;
+  /** A join request was answered with an error */
+  joinRejected: JoinRejectedEvent;
+  /** A joiner presented an expired invite or an invite for a conversation that no longer exists */
+  inviteExpired: InviteExpiredEvent;
+  /** A sender was blocked under the block policy or for exceeding the rate limit */
+  senderBlocked: BlockEvent;
+  /** A sender presented a malformed, forged or foreign invite */
+  invalidInvite: InvalidInviteEvent;
+  /** An invite handler threw */
+  handlerError: HandlerErrorEvent;
+}
+
+/**
+ * Name of a ConvosMiddleware event
+ */
+export type ConvosMiddlewareEventName = keyof ConvosMiddlewareEvents;
+
+/**
+ * Handler for a ConvosMiddleware event
+ */
+export type ConvosMiddlewareEventHandler<E extends ConvosMiddlewareEventName> = (
+  payload: ConvosMiddlewareEvents[E]
+) => void | Promise<void>;
@@ -1,5 +1,6 @@
 import type { ConversationCustomMetadata, ConversationProfile } from "../proto/conversation-metadata.js";
 import type { InviteResult } from "./convos-middleware.js";
+import type { RevokedInvite } from "./invite-revocation-store.js";
 import { hexToBytes, bytesToHex } from "../utils/hex.js";
 
 /**
@@ -18,6 +19,32 @@ export interface ConvosGroupInviteOptions {
   expiresAt?: Date;
   /** Whether this invite expires after first use */
   expiresAfterUse?: boolean;
+  /** Create the invite as another identity from the keyring (default: the agent's inbox) */
+  creatorInboxId?: string;
+  /** Use the compact invite format, for shorter links and QR codes */
+  compact?: boolean;
+  /** Longest allowed slug in characters. Description, image URL and name are trimmed or dropped to fit */
+  maxSlugLength?: number;
+}
+
+/**
+ * Options for rotating a group's invites
+ */
+export interface RotateInvitesOptions {
+  /** Also create an invite with the new tag, with these options if an object is given */
+  reissue?: boolean | ConvosGroupInviteOptions;
+}
+
+/**
+ * Result of rotating a group's invites
+ */
+export interface RotateInvitesResult {
+  /** The tag that was invalidated, undefined if the group had no readable metadata */
+  previousTag?: string;
+  /** The tag new invites are created with */
+  newTag: string;
+  /** The re-issued invite, if requested */
+  invite?: InviteResult;
 }
 
 /**
@@ -51,12 +78,19 @@ export interface ConvosMiddlewareRef {
     encodedMetadata: string;
   };
   decodeMetadata(encoded: string): ConversationCustomMetadata;
+  rotateInviteTag(currentMetadata: ConversationCustomMetadata): {
+    metadata: ConversationCustomMetadata;
+    encodedMetadata: string;
+    newTag: string;
+  };
   encodeMetadata(metadata: ConversationCustomMetadata): string;
   createInviteInternal(
     conversationId: string,
     inviteTag: string,
     options?: ConvosGroupInviteOptions
-  ): InviteResult;
+  ): Promise<InviteResult>;
+  revokeInvite(inviteUrl: string, conversationId?: string): Promise<RevokedInvite>;
+  listRevokedInvites(conversationId?: string): Promise<RevokedInvite[]>;
   getInboxId(): string;
 }
 
@@ -111,6 +145,55 @@ export class ConvosGroup<T extends XMTPGroupWithAppData = XMTPGroupWithAppData>
     return this.middleware.createInviteInternal(this.inner.id, inviteTag, options);
   }
 
+  /**
+   * Replaces the group's invite tag, invalidating every invite created for it so far.
+   * Profiles and expiry in the metadata are kept; corrupt metadata is replaced.
+   */
+  async rotateInvites(options: RotateInvitesOptions = {}): Promise<RotateInvitesResult> {
+    let current: ConversationCustomMetadata | undefined;
+    if (this.inner.appData) {
+      try {
+        current = this.middleware.decodeMetadata(this.inner.appData);
+      } catch {
+        // Corrupt metadata, replaced with fresh metadata below
+      }
+    }
+
+    const { metadata, encodedMetadata } = current
+      ? this.middleware.rotateInviteTag(current)
+      : this.middleware.createInitialMetadata();
+    await this.inner.updateAppData(encodedMetadata);
+
+    const result: RotateInvitesResult = {
+      previousTag: current?.tag || undefined,
+      newTag: metadata.tag,
+    };
+    if (options.reissue) {
+      // Use the new tag directly: appData may not reflect the update yet
+      result.invite = await this.middleware.createInviteInternal(
+        this.inner.id,
+        metadata.tag,
+        options.reissue === true ? undefined : options.reissue
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Revokes a single invite for this group, leaving other invites valid.
+   * Throws if the invite belongs to a different conversation.
+   */
+  async revokeInvite(inviteUrl: string): Promise<RevokedInvite> {
+    return this.middleware.revokeInvite(inviteUrl, this.inner.id);
+  }
+
+  /**
+   * Lists the invites revoked for this group.
+   */
+  async listRevokedInvites(): Promise<RevokedInvite[]> {
+    return this.middleware.listRevokedInvites(this.inner.id);
+  }
+
   /**
    * Sets the agent's profile on this conversation.
    * The profile is stored in the conversation's metadata and will be visible to other members.
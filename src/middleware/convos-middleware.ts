@@ -1,12 +1,24 @@
 import { hexToBytes } from "../utils/hex.js";
 import { generateInviteTag } from "../utils/random.js";
 import {
-  createInviteSlug,
+  buildInviteSlug,
+  buildInviteSlugWithSigner,
   parseInviteSlug,
-  verifyInviteWithPrivateKey,
-  decryptInviteConversationId,
+  verifyInviteWithSigner,
+  hashInvitePayload,
+  decryptInviteConversationIdWithSigner,
+  type CreateSignedInviteOptions,
+  type InviteDisplayField,
+  type InviteSlugResult,
   type ParsedInvite,
 } from "../invite/signed-invite.js";
+import {
+  decryptConversationTokenWithKey,
+  decryptConversationTokenWithKeyring,
+  getConversationTokenKeyId,
+} from "../invite/conversation-token.js";
+import type { InviteSecretKeyring } from "../invite/invite-secrets.js";
+import { LocalInviteSigner, isInviteSigner, type InviteSigner } from "../signer/invite-signer.js";
 import { generateInviteURL, parseInviteCode, getInviteBaseURL } from "../invite/encoding.js";
 import {
   encodeConversationMetadata,
@@ -18,15 +30,62 @@ import { base64UrlEncode, base64UrlDecode } from "../utils/base64url.js";
 import {
   createConversationExpiredError,
   createGenericFailureError,
-  encodeInviteJoinError,
+  createInviteAlreadyUsedError,
+  createInviteRevokedError,
+  createRateLimitedError,
+  createInvalidInviteError,
   type InviteJoinError,
 } from "../content-types/invite-join-error.js";
+import {
+  InviteJoinErrorCodec,
+  type ContentCodec,
+  type ContentTypeId,
+} from "../content-types/invite-join-error-codec.js";
 import {
   createConvosGroup,
   type ConvosGroup,
   type ConvosGroupInviteOptions,
   type XMTPGroupWithAppData,
 } from "./convos-group.js";
+import {
+  InMemoryInviteRedemptionStore,
+  type InviteRedemption,
+  type InviteRedemptionStore,
+} from "./invite-redemption-store.js";
+import {
+  InMemoryInviteRevocationStore,
+  type InviteRevocationStore,
+  type RevokedInvite,
+} from "./invite-revocation-store.js";
+import {
+  PendingJoinQueue,
+  type PendingJoinQueueOptions,
+  type PendingJoinRequest,
+} from "./pending-join-queue.js";
+import {
+  JoinRateLimiter,
+  type JoinRateLimitOptions,
+  type RateLimitScope,
+} from "./rate-limiter.js";
+import {
+  BlockReason,
+  StrikeLedger,
+  type BlockEvent,
+  type BlockPolicy,
+} from "./block-policy.js";
+import type {
+  ConvosMiddlewareEventHandler,
+  ConvosMiddlewareEventName,
+  ConvosMiddlewareEvents,
+  InviteExpiredEvent,
+  JoinRejectedEvent,
+} from "./convos-events.js";
+import {
+  JoinWatch,
+  type JoinCandidate,
+  type JoinOutcome,
+  type WaitForOutcomeOptions,
+} from "./join-watcher.js";
 
 /**
  * XMTP Conversation/Group interface
@@ -38,6 +97,8 @@ export interface XMTPConversation {
   addMembers(inboxIds: string[]): Promise<void>;
   appData?: string;
   updateAppData?(appData: string): Promise<void>;
+  name?: string;
+  addedByInboxId?: string;
 }
 
 /**
@@ -64,6 +125,7 @@ export interface XMTPAgent {
     contacts: {
       refreshConsentList(): Promise<void>;
       block(inboxIds: string[]): Promise<void>;
+      unblock?(inboxIds: string[]): Promise<void>;
     };
   };
   use?(middleware: AgentMiddleware): void;
@@ -79,6 +141,7 @@ export interface XMTPMessageContext {
   message: {
     content: unknown;
     senderInboxId: string;
+    contentType?: ContentTypeId;
   };
   conversation: XMTPConversation;
 }
@@ -101,14 +164,23 @@ export interface InviteContext {
   conversationId: string;
   /** The invite tag from the invite */
   inviteTag: string;
+  /** The identity that created the invite (this inbox or one from the keyring) */
+  creatorInboxId: string;
   /** Parsed invite details */
   invite: ParsedInvite;
+  /**
+   * Redemption record for single-use invites, set once this joiner has
+   * redeemed the invite (undefined for reusable invites)
+   */
+  redemption?: InviteRedemption;
   /** The original DM context */
   dmContext: XMTPMessageContext;
   /** Accept the join request - adds the joiner to the conversation */
   accept(): Promise<void>;
   /** Reject the join request with an error message */
   reject(error?: InviteJoinError): Promise<void>;
+  /** Queue the join request so it can be accepted or rejected later via `convos.pendingJoins` */
+  defer(): Promise<PendingJoinRequest>;
 }
 
 /**
@@ -129,12 +201,24 @@ export interface CreateInviteOptions {
   expiresAt?: Date;
   /** Whether this invite expires after first use */
   expiresAfterUse?: boolean;
+  /** Create the invite as another identity from the keyring (default: this inbox) */
+  creatorInboxId?: string;
+  /** Use the compact invite format, for shorter links and QR codes */
+  compact?: boolean;
+  /** Longest allowed slug in characters. Description, image URL and name are trimmed or dropped to fit */
+  maxSlugLength?: number;
 }
 
 export interface InviteResult {
   slug: string;
   url: string;
   qrData: string;
+  /** Characters in the slug, including iMessage separators */
+  length: number;
+  /** Display fields shortened to fit `maxSlugLength` */
+  trimmedFields: InviteDisplayField[];
+  /** Display fields left out to fit `maxSlugLength` */
+  droppedFields: InviteDisplayField[];
 }
 
 /**
@@ -153,16 +237,69 @@ export interface JoinResult {
   description?: string;
 }
 
+/**
+ * Options for joining a conversation
+ */
+export interface JoinOptions {
+  /** Watch for the creator's answer so the result can be awaited with `waitForOutcome()` */
+  watch?: boolean;
+  /**
+   * How long to watch in milliseconds if `waitForOutcome()` is not called
+   * (default: 60 seconds). Calling it restarts the timeout with its own.
+   */
+  watchTimeout?: number;
+}
+
+/**
+ * Result of a watched join, see `JoinOptions.watch`
+ */
+export interface JoinHandle extends JoinResult {
+  /**
+   * Resolves once the joiner is added to the conversation, the creator replies
+   * with an InviteJoinError, or the timeout passes.
+   */
+  waitForOutcome(options?: WaitForOutcomeOptions): Promise<JoinOutcome>;
+}
+
 export interface ConvosMiddlewareOptions {
-  /** The creator's secp256k1 private key. Can be Uint8Array (32 bytes) or hex string (with or without 0x prefix). If not provided, reads from XMTP_WALLET_KEY env var */
+  /** The creator's secp256k1 private key. Can be Uint8Array (32 bytes) or hex string (with or without 0x prefix). If neither this nor `signer` is provided, reads from XMTP_WALLET_KEY env var */
   privateKey?: Uint8Array | string;
+  /**
+   * Performs the creator's key operations instead of an in-process private key,
+   * e.g. a `KeystoreInviteSigner` or `RemoteInviteSigner`. Takes precedence over `privateKey`.
+   */
+  signer?: InviteSigner;
+  /**
+   * Additional creator identities served by this middleware, mapping inbox ID to a private key
+   * or signer. Join requests for invites created by these inboxes are verified and decrypted with
+   * the matching key instead of being treated as invites from a foreign creator.
+   */
+  keyring?: Record<string, Uint8Array | string | InviteSigner>;
   /** Base URL for invite links. If not provided, defaults based on env: dev/local → dev.convos.org, production → popup.convos.org */
   inviteBaseURL?: string;
   /** XMTP environment, used to determine default invite base URL */
   env?: string;
+  /** Where single-use invite redemptions are recorded. Defaults to an in-memory store */
+  redemptionStore?: InviteRedemptionStore;
+  /** Where individually revoked invites are recorded. Defaults to an in-memory store */
+  revocationStore?: InviteRevocationStore;
+  /** Storage and expiry for join requests deferred with `ctx.defer()` */
+  pendingJoins?: PendingJoinQueueOptions;
+  /** Token bucket limits for join requests. No limits are applied if not provided */
+  rateLimit?: JoinRateLimitOptions;
+  /** How to respond to malformed, forged or foreign invites. Defaults to `{ mode: "block" }` */
+  blockPolicy?: BlockPolicy;
+  /**
+   * Invite secrets for encrypting conversation tokens, independent of the creator keys.
+   * New invites use the current secret; invites encrypted with the wallet-derived key
+   * or a retired secret still in the keyring keep working.
+   */
+  inviteSecrets?: InviteSecretKeyring;
 }
 
-type InviteHandler = (ctx: InviteContext) => Promise<void>;
+type JoinRejectionDetails = Omit<JoinRejectedEvent, "error" | "deferred">;
+
+const inviteJoinErrorCodec = new InviteJoinErrorCodec();
 
 /**
  * Convos middleware for XMTP agents.
@@ -190,30 +327,93 @@ type InviteHandler = (ctx: InviteContext) => Promise<void>;
  * ```
  */
 export class ConvosMiddleware {
+  /** Join requests awaiting approval, see `InviteContext.defer()` */
+  readonly pendingJoins: PendingJoinQueue;
   private readonly agent: XMTPAgent;
   private readonly inboxId: string;
-  private readonly privateKey: Uint8Array;
+  /** Signers for this inbox and the keyring identities */
+  private readonly signers = new Map<string, InviteSigner>();
+  /** Private keys available in process, used by the synchronous `createInvite()` */
+  private readonly localKeys = new Map<string, Uint8Array>();
   private readonly inviteBaseURL: string;
-  private inviteHandlers: InviteHandler[] = [];
+  private readonly redemptionStore: InviteRedemptionStore;
+  private readonly revocationStore: InviteRevocationStore;
+  private readonly rateLimiter?: JoinRateLimiter;
+  private readonly blockPolicy: BlockPolicy;
+  private readonly inviteSecrets?: InviteSecretKeyring;
+  private readonly strikeLedger: StrikeLedger;
+  private readonly handlers: {
+    [E in ConvosMiddlewareEventName]?: ConvosMiddlewareEventHandler<E>[];
+  } = {};
+  private readonly joinWatches = new Set<JoinWatch>();
+  private watchingNewGroups = false;
 
   private constructor(agent: XMTPAgent, options: ConvosMiddlewareOptions) {
     this.agent = agent;
     this.inboxId = agent.client.inboxId;
 
-    // Get privateKey from options or environment
-    if (options.privateKey) {
-      this.privateKey = this.normalizePrivateKey(options.privateKey);
+    for (const [inboxId, key] of Object.entries(options.keyring ?? {})) {
+      this.addKey(inboxId, key);
+    }
+
+    // Get the signer or privateKey from options or environment
+    if (options.signer) {
+      this.addKey(this.inboxId, options.signer);
+    } else if (options.privateKey) {
+      this.addKey(this.inboxId, options.privateKey);
     } else {
       const envKey = process.env.XMTP_WALLET_KEY || process.env.WALLET_KEY;
       if (!envKey) {
         throw new Error(
-          "privateKey is required. Provide it in options or set XMTP_WALLET_KEY environment variable."
+          "privateKey is required. Provide it or a signer in options, or set XMTP_WALLET_KEY environment variable."
         );
       }
-      this.privateKey = this.normalizePrivateKey(envKey);
+      this.addKey(this.inboxId, envKey);
     }
 
     this.inviteBaseURL = options.inviteBaseURL ?? getInviteBaseURL(options.env);
+    this.redemptionStore = options.redemptionStore ?? new InMemoryInviteRedemptionStore();
+    this.revocationStore = options.revocationStore ?? new InMemoryInviteRevocationStore();
+    this.pendingJoins = new PendingJoinQueue(agent, options.pendingJoins, {
+      onAccepting: (request) => this.checkPendingJoin(request),
+      onAccepted: (request) =>
+        this.emit("joinAccepted", {
+          joinerInboxId: request.joinerInboxId,
+          conversationId: request.conversationId,
+          inviteTag: request.inviteTag,
+          invite: parseInviteSlug(request.inviteSlug),
+          deferred: true,
+        }),
+      onRejected: (request, error) =>
+        this.emit("joinRejected", {
+          joinerInboxId: request.joinerInboxId,
+          conversationId: request.conversationId,
+          inviteTag: request.inviteTag,
+          invite: parseInviteSlug(request.inviteSlug),
+          error,
+          deferred: true,
+        }),
+    });
+    this.rateLimiter = options.rateLimit ? new JoinRateLimiter(options.rateLimit) : undefined;
+    this.blockPolicy = options.blockPolicy ?? { mode: "block" };
+    this.inviteSecrets = options.inviteSecrets;
+    this.strikeLedger = new StrikeLedger(
+      this.blockPolicy.mode === "strikes" ? this.blockPolicy.windowMs : undefined
+    );
+  }
+
+  /**
+   * Registers the key or signer for a creator identity.
+   */
+  private addKey(inboxId: string, key: Uint8Array | string | InviteSigner): void {
+    if (isInviteSigner(key)) {
+      this.signers.set(inboxId, key);
+      this.localKeys.delete(inboxId);
+      return;
+    }
+    const privateKey = this.normalizePrivateKey(key);
+    this.localKeys.set(inboxId, privateKey);
+    this.signers.set(inboxId, new LocalInviteSigner(privateKey));
   }
 
   /**
@@ -227,6 +427,15 @@ export class ConvosMiddleware {
     return hexToBytes(key.replace(/^0x/, ""));
   }
 
+  /**
+   * Returns the content codecs used by Convos messages.
+   * Pass them to `Agent.create(signer, { codecs })` so the agent can decode
+   * invite join errors; codecs cannot be added after the client is created.
+   */
+  static codecs(): ContentCodec[] {
+    return [new InviteJoinErrorCodec()];
+  }
+
   /**
    * Creates the Convos middleware for an XMTP agent.
    * After creating, install with agent.use(convos.middleware())
@@ -241,6 +450,7 @@ export class ConvosMiddleware {
    */
   middleware(): AgentMiddleware {
     return async (ctx: XMTPMessageContext, next: () => Promise<void>) => {
+      this.observeJoinWatches(ctx);
       const handled = await this.handleMessage(ctx);
       if (!handled) {
         // Not a join request, pass to next middleware
@@ -250,25 +460,46 @@ export class ConvosMiddleware {
   }
 
   /**
-   * Registers a handler for invite events.
-   * Called when a valid join request is received.
+   * Registers an event handler. See `ConvosMiddlewareEvents` for the available events.
+   * The `invite` event is called when a valid join request is received; the others
+   * report what happened to each join attempt.
+   */
+  on<E extends ConvosMiddlewareEventName>(
+    event: E,
+    handler: ConvosMiddlewareEventHandler<E>
+  ): void {
+    const handlers = (this.handlers[event] ?? []) as ConvosMiddlewareEventHandler<E>[];
+    handlers.push(handler);
+    this.handlers[event] = handlers as (typeof this.handlers)[E];
+  }
+
+  /**
+   * Removes an event handler.
    */
-  on(event: "invite", handler: InviteHandler): void {
-    if (event === "invite") {
-      this.inviteHandlers.push(handler);
+  off<E extends ConvosMiddlewareEventName>(
+    event: E,
+    handler: ConvosMiddlewareEventHandler<E>
+  ): void {
+    const handlers = this.handlers[event] as ConvosMiddlewareEventHandler<E>[] | undefined;
+    const index = handlers?.indexOf(handler) ?? -1;
+    if (index !== -1) {
+      handlers?.splice(index, 1);
     }
   }
 
   /**
-   * Removes an invite handler.
+   * Unblocks a sender and clears their strikes, e.g. after reviewing a `senderBlocked` event.
+   *
+   * @throws Error if the XMTP client does not support unblocking
    */
-  off(event: "invite", handler: InviteHandler): void {
-    if (event === "invite") {
-      const index = this.inviteHandlers.indexOf(handler);
-      if (index !== -1) {
-        this.inviteHandlers.splice(index, 1);
-      }
+  async unblockSender(inboxId: string): Promise<void> {
+    const contacts = this.agent.client.contacts;
+    if (!contacts.unblock) {
+      throw new Error("XMTP client does not support unblocking contacts");
     }
+    await contacts.refreshConsentList();
+    await contacts.unblock([inboxId]);
+    this.strikeLedger.clear(inboxId);
   }
 
   /**
@@ -295,6 +526,9 @@ export class ConvosMiddleware {
    * Generates an invite for a conversation.
    * Can accept either a conversation object (with id property) or a string conversation ID.
    *
+   * Requires the creator's private key in process; identities backed by a signer
+   * can only create invites through `convos.group(xmtpGroup).createInvite()`.
+   *
    * @deprecated Use `convos.group(xmtpGroup).createInvite()` instead for simpler API.
    */
   createInvite(
@@ -302,7 +536,22 @@ export class ConvosMiddleware {
     options: CreateInviteOptions
   ): InviteResult {
     const conversationId = typeof conversation === "string" ? conversation : conversation.id;
-    return this.createInviteInternal(conversationId, options.inviteTag, options);
+    const creatorInboxId = options.creatorInboxId ?? this.inboxId;
+    const privateKey = this.localKeys.get(creatorInboxId);
+    if (!privateKey) {
+      if (this.signers.has(creatorInboxId)) {
+        throw new Error(
+          `Creator inbox ${creatorInboxId} uses a signer; create invites with convos.group(xmtpGroup).createInvite()`
+        );
+      }
+      throw new Error(`No private key in keyring for creator inbox: ${creatorInboxId}`);
+    }
+
+    const built = buildInviteSlug({
+      ...this.getInviteSlugOptions(conversationId, options.inviteTag, options),
+      privateKey,
+    });
+    return this.toInviteResult(built);
   }
 
   /**
@@ -322,37 +571,62 @@ export class ConvosMiddleware {
   }
 
   /**
-   * Internal method for creating invites, used by both the legacy API and ConvosGroup.
+   * Internal method for creating invites, used by ConvosGroup.
    */
-  createInviteInternal(
+  async createInviteInternal(
     conversationId: string,
     inviteTag: string,
     options?: ConvosGroupInviteOptions
-  ): InviteResult {
-    const slug = createInviteSlug({
+  ): Promise<InviteResult> {
+    const slugOptions = this.getInviteSlugOptions(conversationId, inviteTag, options);
+    const signer = this.signers.get(slugOptions.creatorInboxId);
+    if (!signer) {
+      throw new Error(`No private key in keyring for creator inbox: ${slugOptions.creatorInboxId}`);
+    }
+
+    const built = await buildInviteSlugWithSigner({ ...slugOptions, signer });
+    return this.toInviteResult(built);
+  }
+
+  private getInviteSlugOptions(
+    conversationId: string,
+    inviteTag: string,
+    options?: ConvosGroupInviteOptions
+  ): Omit<CreateSignedInviteOptions, "signer"> {
+    return {
       conversationId,
       inviteTag,
-      creatorInboxId: this.inboxId,
-      privateKey: this.privateKey,
+      creatorInboxId: options?.creatorInboxId ?? this.inboxId,
       name: options?.name,
       description: options?.description,
       imageURL: options?.imageURL,
       conversationExpiresAt: options?.conversationExpiresAt,
       expiresAt: options?.expiresAt,
       expiresAfterUse: options?.expiresAfterUse,
-    });
+      compact: options?.compact,
+      maxSlugLength: options?.maxSlugLength,
+      inviteSecrets: this.inviteSecrets,
+    };
+  }
 
+  private toInviteResult(built: InviteSlugResult): InviteResult {
+    const { slug, length, trimmedFields, droppedFields } = built;
     const url = generateInviteURL(slug, this.inviteBaseURL);
 
     return {
       slug,
       url,
       qrData: url,
+      length,
+      trimmedFields,
+      droppedFields,
     };
   }
 
   /**
    * Rotates the invite tag, invalidating all existing invites.
+   * Only returns the new metadata; `convos.group(xmtpGroup).rotateInvites()`
+   * also writes it to the group.
    */
   rotateInviteTag(currentMetadata: ConversationCustomMetadata): {
     metadata: ConversationCustomMetadata;
@@ -368,6 +642,59 @@ export class ConvosMiddleware {
     return { metadata, encodedMetadata, newTag };
   }
 
+  /**
+   * Revokes a single invite without invalidating other invites for the conversation.
+   * The invite's payload hash is added to the revocation list, and join requests
+   * presenting it are rejected from then on.
+   *
+   * @param inviteUrl The invite URL or slug to revoke
+   * @param conversationId If provided, the invite must belong to this conversation
+   * @returns The revocation record
+   * @throws Error if the invite is invalid or was not created by this inbox or the keyring
+   */
+  async revokeInvite(inviteUrl: string, conversationId?: string): Promise<RevokedInvite> {
+    let parsedInvite: ParsedInvite;
+    try {
+      parsedInvite = parseInviteSlug(inviteUrl);
+    } catch (err) {
+      throw new Error(`Invalid invite URL: ${err instanceof Error ? err.message : "parse error"}`);
+    }
+
+    const signer = this.signers.get(parsedInvite.creatorInboxId);
+    if (!signer || !(await verifyInviteWithSigner(parsedInvite.signedInvite, signer))) {
+      throw new Error("Invite was not created by this inbox");
+    }
+
+    const inviteConversationId = await decryptInviteConversationIdWithSigner(
+      parsedInvite,
+      signer,
+      this.inviteSecrets
+    );
+    if (conversationId !== undefined && inviteConversationId !== conversationId) {
+      throw new Error("Invite does not belong to this conversation");
+    }
+
+    const revokedInvite: RevokedInvite = {
+      inviteHash: hashInvitePayload(parsedInvite.signedInvite),
+      conversationId: inviteConversationId,
+      inviteTag: parsedInvite.payload.tag,
+      revokedAt: new Date(),
+    };
+    await this.revocationStore.revoke(revokedInvite);
+    return revokedInvite;
+  }
+
+  /**
+   * Lists individually revoked invites, optionally filtered to one conversation.
+   */
+  async listRevokedInvites(conversationId?: string): Promise<RevokedInvite[]> {
+    const revoked = await this.revocationStore.list();
+    if (conversationId === undefined) {
+      return revoked;
+    }
+    return revoked.filter((invite) => invite.conversationId === conversationId);
+  }
+
   /**
    * Encodes conversation metadata for storage in XMTP appData.
    */
@@ -401,11 +728,20 @@ export class ConvosMiddleware {
     return this.inboxId;
   }
 
+  /**
+   * Gets the inbox IDs this middleware creates and accepts invites for:
+   * this inbox followed by the keyring identities.
+   */
+  getCreatorInboxIds(): string[] {
+    return [this.inboxId, ...[...this.signers.keys()].filter((id) => id !== this.inboxId)];
+  }
+
   /**
    * Joins a conversation using an invite URL.
    * Parses the invite, validates it, and sends a join request to the creator.
    *
    * @param inviteUrl The invite URL or slug
+   * @param options Pass `{ watch: true }` to get a handle that can wait for the outcome
    * @returns Information about the conversation being joined
    * @throws Error if the invite is invalid, expired, or if no DM method is available
    *
@@ -414,9 +750,16 @@ export class ConvosMiddleware {
    * const result = await convos.join("https://popup.convos.org/v2?i=...");
    * console.log(`Joining conversation ${result.conversationId}`);
    * // The creator will receive the join request and can accept/reject it
+   *
+   * // Or wait for the creator's answer (requires the middleware to be installed)
+   * const handle = await convos.join(url, { watch: true });
+   * const outcome = await handle.waitForOutcome({ timeout: 30_000 });
    * ```
    */
-  async join(inviteUrl: string): Promise<JoinResult> {
+  join(inviteUrl: string): Promise<JoinResult>;
+  join(inviteUrl: string, options: JoinOptions & { watch: true }): Promise<JoinHandle>;
+  join(inviteUrl: string, options?: JoinOptions): Promise<JoinResult | JoinHandle>;
+  async join(inviteUrl: string, options: JoinOptions = {}): Promise<JoinResult | JoinHandle> {
     // Parse the invite URL/slug
     let parsedInvite: ParsedInvite;
     try {
@@ -454,20 +797,94 @@ export class ConvosMiddleware {
     // Extract the slug from the URL for sending
     const slug = parseInviteCode(inviteUrl);
 
+    // Start watching before sending so a fast reply is not missed
+    let watch: JoinWatch | undefined;
+    if (options.watch) {
+      watch = new JoinWatch(
+        {
+          creatorInboxId,
+          dmConversationId: dm.id,
+          inviteTag: parsedInvite.payload.tag,
+          name: parsedInvite.payload.name,
+        },
+        (settled) => this.joinWatches.delete(settled),
+        options.watchTimeout
+      );
+      this.joinWatches.add(watch);
+      this.watchNewGroups();
+    }
+
     // Send the slug as a join request
-    if (dm.sendText) {
-      await dm.sendText(slug);
-    } else {
-      await dm.send(slug);
+    try {
+      if (dm.sendText) {
+        await dm.sendText(slug);
+      } else {
+        await dm.send(slug);
+      }
+    } catch (err) {
+      watch?.cancel();
+      throw err;
     }
 
-    return {
+    const result: JoinResult = {
       conversationId: parsedInvite.payload.conversationToken.toString(),
       creatorInboxId,
       inviteTag: parsedInvite.payload.tag,
       name: parsedInvite.payload.name,
       description: parsedInvite.payload.description,
     };
+    if (!watch) {
+      return result;
+    }
+    const joinWatch = watch;
+    return {
+      ...result,
+      waitForOutcome: (waitOptions?: WaitForOutcomeOptions) => joinWatch.wait(waitOptions),
+    };
+  }
+
+  /**
+   * Feeds a message to pending join watches: errors from the creator mean
+   * rejection, and a message in the invite's group means the joiner was added.
+   */
+  private observeJoinWatches(ctx: XMTPMessageContext): void {
+    if (this.joinWatches.size === 0) {
+      return;
+    }
+    for (const watch of [...this.joinWatches]) {
+      watch.observeMessage(ctx.conversation.id, ctx.message);
+    }
+    this.observeJoinConversation(ctx.conversation, false);
+  }
+
+  private observeJoinConversation(conversation: XMTPConversation, isNew: boolean): void {
+    const candidate: JoinCandidate = {
+      conversationId: conversation.id,
+      inviteTag: this.getCurrentInviteTag(conversation),
+      name: conversation.name,
+      addedByInboxId: conversation.addedByInboxId,
+      isNew,
+    };
+    for (const watch of [...this.joinWatches]) {
+      watch.observeConversation(candidate);
+    }
+  }
+
+  /**
+   * Subscribes to the agent's `group` event once, so being added to a group is
+   * noticed even before anyone sends a message in it.
+   */
+  private watchNewGroups(): void {
+    if (this.watchingNewGroups || !this.agent.on) {
+      return;
+    }
+    this.watchingNewGroups = true;
+    this.agent.on("group", (ctx) => {
+      const conversation = (ctx as { conversation?: XMTPConversation }).conversation;
+      if (conversation && this.joinWatches.size > 0) {
+        this.observeJoinConversation(conversation, true);
+      }
+    });
   }
 
   /**
@@ -482,8 +899,8 @@ export class ConvosMiddleware {
 
     const senderInboxId = ctx.message.senderInboxId;
 
-    // Ignore messages from self
-    if (senderInboxId === this.inboxId) {
+    // Ignore messages from self and the other identities we serve
+    if (this.signers.has(senderInboxId)) {
       return false;
     }
 
@@ -494,76 +911,164 @@ export class ConvosMiddleware {
     } catch {
       // Not a valid invite format
       if (this.looksLikeInviteSlug(messageText)) {
-        // Looks like a malformed invite attempt - block sender
-        await this.blockSender(senderInboxId);
-        return true; // Handled (blocked)
+        // Looks like a malformed invite attempt
+        return this.handleOffense(ctx, senderInboxId, BlockReason.MalformedInvite);
       }
       return false; // Pass through to other handlers
     }
 
-    // Verify the creator inbox ID matches ours
-    if (parsedInvite.creatorInboxId !== this.inboxId) {
-      await this.blockSender(senderInboxId);
-      return true; // Handled (blocked)
+    // Find the signer for the creator: ours, or one from the keyring
+    const inviteTag = parsedInvite.payload.tag;
+    const creatorInboxId = parsedInvite.creatorInboxId;
+    const signer = this.signers.get(creatorInboxId);
+    if (!signer) {
+      return this.handleOffense(ctx, senderInboxId, BlockReason.WrongCreator, parsedInvite);
     }
 
-    // Verify the signature
-    if (!verifyInviteWithPrivateKey(parsedInvite.signedInvite, this.privateKey)) {
-      await this.blockSender(senderInboxId);
-      return true; // Handled (blocked)
+    // Throttle before doing signature verification and decryption
+    const rejection: JoinRejectionDetails = {
+      joinerInboxId: senderInboxId,
+      inviteTag,
+      invite: parsedInvite,
+    };
+    const senderLimit = this.rateLimiter?.checkSender(senderInboxId);
+    if (senderLimit) {
+      return this.handleRateLimited(ctx, rejection, senderLimit);
     }
 
-    const inviteTag = parsedInvite.payload.tag;
+    // Verify the signature
+    if (!(await verifyInviteWithSigner(parsedInvite.signedInvite, signer))) {
+      return this.handleOffense(ctx, senderInboxId, BlockReason.InvalidSignature, parsedInvite);
+    }
 
     // Check if invite is expired
     if (parsedInvite.isExpired || parsedInvite.isConversationExpired) {
-      const error = createConversationExpiredError(inviteTag);
-      await this.sendError(ctx, error);
+      return this.handleExpired(ctx, rejection);
+    }
+
+    // Check if this specific invite was revoked
+    if (await this.revocationStore.isRevoked(hashInvitePayload(parsedInvite.signedInvite))) {
+      await this.rejectJoin(ctx, rejection, createInviteRevokedError(inviteTag));
       return true; // Handled
     }
 
-    // Decrypt the conversation ID
+    // The signature is ours, so a token under a removed invite secret is an
+    // invite we retired rather than a forgery
+    const token = parsedInvite.payload.conversationToken;
+    let keyId: number | undefined;
+    try {
+      keyId = getConversationTokenKeyId(token);
+    } catch {
+      return this.handleOffense(ctx, senderInboxId, BlockReason.DecryptionFailed, parsedInvite);
+    }
+    if (keyId !== undefined && !this.inviteSecrets?.has(keyId)) {
+      await this.rejectJoin(ctx, rejection, createInviteRevokedError(inviteTag));
+      return true; // Handled
+    }
+
+    // Decrypt the conversation ID. Signer failures propagate rather than
+    // counting against the sender
+    const inviteKey = keyId === undefined ? await signer.deriveInviteKey(creatorInboxId) : undefined;
     let conversationId: string;
     try {
-      conversationId = decryptInviteConversationId(parsedInvite, this.privateKey);
+      conversationId = inviteKey
+        ? decryptConversationTokenWithKey(token, creatorInboxId, inviteKey)
+        : decryptConversationTokenWithKeyring(token, creatorInboxId, this.inviteSecrets!);
     } catch {
-      await this.blockSender(senderInboxId);
-      return true; // Handled (blocked)
+      return this.handleOffense(ctx, senderInboxId, BlockReason.DecryptionFailed, parsedInvite);
+    }
+    rejection.conversationId = conversationId;
+
+    const conversationLimit = this.rateLimiter?.checkConversation(conversationId);
+    if (conversationLimit) {
+      return this.handleRateLimited(ctx, rejection, conversationLimit);
     }
+    this.rateLimiter?.resetViolations(senderInboxId);
 
     // Check if conversation exists
     const conversation = await this.agent.client.conversations.getConversationById(conversationId);
     if (!conversation) {
-      const error = createConversationExpiredError(inviteTag);
-      await this.sendError(ctx, error);
+      return this.handleExpired(ctx, rejection);
+    }
+
+    // Check the invite tag is still current (rotating the tag invalidates old invites)
+    const currentTag = this.getCurrentInviteTag(conversation);
+    if (currentTag !== undefined && currentTag !== inviteTag) {
+      await this.rejectJoin(ctx, rejection, createInviteRevokedError(inviteTag));
       return true; // Handled
     }
 
+    // Single-use invites can only be redeemed by one joiner. The redemption is
+    // recorded on accept, so a rejected or deferred request does not use it up
+    const singleUse = parsedInvite.payload.expiresAfterUse;
+    const inviteHash = hashInvitePayload(parsedInvite.signedInvite);
+    let redemption: InviteRedemption | undefined;
+    if (singleUse) {
+      redemption = (await this.redemptionStore.get(inviteHash)) ?? undefined;
+      if (redemption && redemption.joinerInboxId !== senderInboxId) {
+        await this.rejectJoin(ctx, rejection, createInviteAlreadyUsedError(inviteTag));
+        return true; // Handled
+      }
+    }
+
     // Create invite context
     const inviteContext: InviteContext = {
       joinerInboxId: senderInboxId,
       conversationId,
       inviteTag,
+      creatorInboxId,
       invite: parsedInvite,
+      redemption,
       dmContext: ctx,
       accept: async () => {
+        if (singleUse) {
+          const redeemed = await this.redeemInvite(
+            inviteHash,
+            senderInboxId,
+            conversationId,
+            inviteTag
+          );
+          if (redeemed.joinerInboxId !== senderInboxId) {
+            await this.rejectJoin(ctx, rejection, createInviteAlreadyUsedError(inviteTag));
+            return;
+          }
+          inviteContext.redemption = redeemed;
+        }
         await conversation.addMembers([senderInboxId]);
+        await this.emit("joinAccepted", {
+          joinerInboxId: senderInboxId,
+          conversationId,
+          inviteTag,
+          invite: parsedInvite,
+          deferred: false,
+        });
       },
       reject: async (error?: InviteJoinError) => {
         const errorToSend = error ?? createGenericFailureError(inviteTag);
-        await this.sendError(ctx, errorToSend);
+        await this.rejectJoin(ctx, rejection, errorToSend);
+      },
+      defer: async () => {
+        return this.pendingJoins.enqueue({
+          joinerInboxId: senderInboxId,
+          conversationId,
+          inviteTag,
+          inviteSlug: parseInviteCode(messageText),
+          inviteHash,
+          dmConversationId: ctx.conversation.id,
+          expiresAt: this.getInviteExpiry(parsedInvite),
+        });
       },
     };
 
     // Emit to all handlers
-    for (const handler of this.inviteHandlers) {
+    for (const handler of [...(this.handlers.invite ?? [])]) {
       try {
         await handler(inviteContext);
       } catch (err) {
         console.error("Error in invite handler:", err);
+        await this.emit("handlerError", { error: err, context: inviteContext });
         // Send error back to joiner
-        const error = createGenericFailureError(inviteTag);
-        await this.sendError(ctx, error);
+        await this.rejectJoin(ctx, rejection, createGenericFailureError(inviteTag));
       }
     }
 
@@ -571,15 +1076,205 @@ export class ConvosMiddleware {
   }
 
   /**
-   * Blocks a DM sender using the agent's contacts API
+   * Checks a deferred join request just before it is accepted, since the
+   * invite may have been revoked or its tag rotated while it waited.
+   * Single-use invites are redeemed here, so returns an error if someone
+   * else already used the invite.
+   */
+  private async checkPendingJoin(
+    request: PendingJoinRequest
+  ): Promise<InviteJoinError | undefined> {
+    if (await this.revocationStore.isRevoked(request.inviteHash)) {
+      return createInviteRevokedError(request.inviteTag);
+    }
+    const conversation = await this.agent.client.conversations.getConversationById(
+      request.conversationId
+    );
+    const currentTag = conversation ? this.getCurrentInviteTag(conversation) : undefined;
+    if (currentTag !== undefined && currentTag !== request.inviteTag) {
+      return createInviteRevokedError(request.inviteTag);
+    }
+
+    const invite = parseInviteSlug(request.inviteSlug);
+    if (!invite.payload.expiresAfterUse) {
+      return undefined;
+    }
+    const redemption = await this.redeemInvite(
+      request.inviteHash,
+      request.joinerInboxId,
+      request.conversationId,
+      request.inviteTag
+    );
+    if (redemption.joinerInboxId !== request.joinerInboxId) {
+      return createInviteAlreadyUsedError(request.inviteTag);
+    }
+    return undefined;
+  }
+
+  /**
+   * Records a single-use invite as redeemed by a joiner. Returns the stored
+   * redemption, which belongs to someone else if they redeemed it first.
+   */
+  private redeemInvite(
+    inviteHash: string,
+    joinerInboxId: string,
+    conversationId: string,
+    inviteTag: string
+  ): Promise<InviteRedemption> {
+    return this.redemptionStore.redeem({
+      inviteHash,
+      conversationId,
+      inviteTag,
+      joinerInboxId,
+      redeemedAt: new Date(),
+    });
+  }
+
+  /**
+   * Answers an over-limit join request, blocking the sender once they
+   * reach the configured violation threshold on their own limit.
+   */
+  private async handleRateLimited(
+    ctx: XMTPMessageContext,
+    rejection: JoinRejectionDetails,
+    scope: RateLimitScope
+  ): Promise<boolean> {
+    await this.rejectJoin(ctx, rejection, createRateLimitedError(rejection.inviteTag));
+    if (this.rateLimiter?.recordViolation(rejection.joinerInboxId, scope)) {
+      await this.blockSender(
+        rejection.joinerInboxId,
+        BlockReason.RateLimited,
+        undefined,
+        rejection.invite
+      );
+    }
+    return true; // Handled
+  }
+
+  /**
+   * Tells the joiner the invite or conversation expired and emits `inviteExpired`.
    */
-  private async blockSender(inboxId: string): Promise<void> {
+  private async handleExpired(
+    ctx: XMTPMessageContext,
+    details: InviteExpiredEvent
+  ): Promise<boolean> {
+    await this.sendError(ctx, createConversationExpiredError(details.inviteTag));
+    await this.emit("inviteExpired", { ...details });
+    return true; // Handled
+  }
+
+  /**
+   * Sends a join error to the joiner and emits `joinRejected`.
+   */
+  private async rejectJoin(
+    ctx: XMTPMessageContext,
+    details: JoinRejectionDetails,
+    error: InviteJoinError
+  ): Promise<void> {
+    await this.sendError(ctx, error);
+    await this.emit("joinRejected", { ...details, error, deferred: false });
+  }
+
+  /**
+   * Applies the block policy to an invalid or forged join attempt.
+   */
+  private async handleOffense(
+    ctx: XMTPMessageContext,
+    senderInboxId: string,
+    reason: BlockReason,
+    invite?: ParsedInvite
+  ): Promise<boolean> {
+    await this.emit("invalidInvite", { senderInboxId, reason, invite });
+
+    const inviteTag = invite?.payload.tag;
+    switch (this.blockPolicy.mode) {
+      case "ignore":
+        return true; // Handled (dropped)
+      case "warn":
+        await this.sendError(ctx, createInvalidInviteError(inviteTag));
+        return true; // Handled (warned)
+      case "strikes": {
+        const strikes = this.strikeLedger.addStrike(senderInboxId);
+        if (strikes < this.blockPolicy.maxStrikes) {
+          await this.sendError(ctx, createInvalidInviteError(inviteTag));
+          return true; // Handled (warned)
+        }
+        await this.blockSender(senderInboxId, reason, strikes, invite);
+        return true; // Handled (blocked)
+      }
+      case "block":
+      default:
+        await this.blockSender(senderInboxId, reason, undefined, invite);
+        return true; // Handled (blocked)
+    }
+  }
+
+  /**
+   * Blocks a DM sender using the agent's contacts API and emits `senderBlocked`
+   */
+  private async blockSender(
+    inboxId: string,
+    reason: BlockReason,
+    strikes?: number,
+    invite?: ParsedInvite
+  ): Promise<void> {
     try {
       await this.agent.client.contacts.refreshConsentList();
       await this.agent.client.contacts.block([inboxId]);
     } catch {
       // Fire and forget - don't fail if blocking fails
     }
+    this.strikeLedger.clear(inboxId);
+
+    const event: BlockEvent = { senderInboxId: inboxId, reason, strikes, invite };
+    await this.emit("senderBlocked", event);
+  }
+
+  /**
+   * Calls every handler registered for an event. Handler errors are logged, not rethrown.
+   */
+  private async emit<E extends ConvosMiddlewareEventName>(
+    event: E,
+    payload: ConvosMiddlewareEvents[E]
+  ): Promise<void> {
+    for (const handler of [...(this.handlers[event] ?? [])]) {
+      try {
+        await handler(payload);
+      } catch (err) {
+        console.error(`Error in ${event} handler:`, err);
+      }
+    }
+  }
+
+  /**
+   * Returns the earliest of the invite and conversation expiry, if either is set.
+   */
+  private getInviteExpiry(parsedInvite: ParsedInvite): Date | undefined {
+    const expiries = [
+      parsedInvite.payload.expiresAtUnix,
+      parsedInvite.payload.conversationExpiresAtUnix,
+    ].filter((unix): unix is bigint => unix !== undefined);
+    if (expiries.length === 0) {
+      return undefined;
+    }
+    const earliest = expiries.reduce((a, b) => (a < b ? a : b));
+    return new Date(Number(earliest) * 1000);
+  }
+
+  /**
+   * Reads the current invite tag from a conversation's appData metadata.
+   * Returns undefined if the conversation has no readable metadata, in which
+   * case the tag cannot be validated.
+   */
+  private getCurrentInviteTag(conversation: XMTPConversation): string | undefined {
+    if (!conversation.appData) {
+      return undefined;
+    }
+    try {
+      return this.decodeMetadata(conversation.appData).tag || undefined;
+    } catch {
+      return undefined;
+    }
   }
 
   /**
@@ -600,8 +1295,7 @@ export class ConvosMiddleware {
    */
   private async sendError(ctx: XMTPMessageContext, error: InviteJoinError): Promise<void> {
     try {
-      const encoded = encodeInviteJoinError(error);
-      await ctx.conversation.send(encoded);
+      await ctx.conversation.send(inviteJoinErrorCodec.encode(error));
     } catch {
       // Fire and forget - don't fail if error sending fails
     }
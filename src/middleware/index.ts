@@ -5,12 +5,73 @@ export {
   type InviteResult,
   type InviteContext,
   type JoinResult,
+  type JoinOptions,
+  type JoinHandle,
   type XMTPAgent,
   type XMTPConversation,
   type XMTPMessageContext,
   type AgentMiddleware,
 } from "./convos-middleware.js";
 
+export {
+  type ConvosMiddlewareEvents,
+  type ConvosMiddlewareEventName,
+  type ConvosMiddlewareEventHandler,
+  type JoinAcceptedEvent,
+  type JoinRejectedEvent,
+  type InviteExpiredEvent,
+  type InvalidInviteEvent,
+  type HandlerErrorEvent,
+} from "./convos-events.js";
+
+export {
+  JoinWatch,
+  type JoinOutcome,
+  type JoinWatchTarget,
+  type JoinCandidate,
+  type WaitForOutcomeOptions,
+} from "./join-watcher.js";
+
+export {
+  InMemoryInviteRedemptionStore,
+  FileInviteRedemptionStore,
+  type InviteRedemption,
+  type InviteRedemptionStore,
+} from "./invite-redemption-store.js";
+
+export {
+  InMemoryInviteRevocationStore,
+  FileInviteRevocationStore,
+  type InviteRevocationStore,
+  type RevokedInvite,
+} from "./invite-revocation-store.js";
+
+export {
+  PendingJoinQueue,
+  InMemoryPendingJoinStore,
+  FilePendingJoinStore,
+  type PendingJoinRequest,
+  type PendingJoinInput,
+  type PendingJoinStore,
+  type PendingJoinQueueOptions,
+  type PendingJoinListener,
+} from "./pending-join-queue.js";
+
+export {
+  JoinRateLimiter,
+  TokenBucket,
+  type JoinRateLimitOptions,
+  type TokenBucketOptions,
+  type RateLimitScope,
+} from "./rate-limiter.js";
+
+export {
+  BlockReason,
+  StrikeLedger,
+  type BlockPolicy,
+  type BlockEvent,
+} from "./block-policy.js";
+
 // Legacy exports (deprecated - use ConvosMiddleware instead)
 export {
   ConvosConversationManager,
@@ -0,0 +1,106 @@
+import { readJsonFile, writeJsonFile } from "../utils/json-file.js";
+
+/**
+ * Record of a single-use invite being redeemed
+ */
+export interface InviteRedemption {
+  /** SHA-256 hash of the signed invite payload (hex) */
+  inviteHash: string;
+  /** The conversation the invite grants access to */
+  conversationId: string;
+  /** The invite tag from the invite */
+  inviteTag: string;
+  /** The inbox ID that redeemed the invite */
+  joinerInboxId: string;
+  /** When the invite was redeemed */
+  redeemedAt: Date;
+}
+
+/**
+ * Storage for single-use invite redemptions.
+ * Implement this interface to persist redemptions in your own database.
+ */
+export interface InviteRedemptionStore {
+  /** Gets the redemption for an invite hash, or null if it has not been redeemed */
+  get(inviteHash: string): Promise<InviteRedemption | null>;
+  /**
+   * Records a redemption unless the invite was already redeemed.
+   * Returns the stored record, which is the existing one if the invite was already redeemed.
+   */
+  redeem(redemption: InviteRedemption): Promise<InviteRedemption>;
+}
+
+/**
+ * In-memory redemption store. Redemptions are lost when the process exits.
+ */
+export class InMemoryInviteRedemptionStore implements InviteRedemptionStore {
+  private readonly redemptions = new Map<string, InviteRedemption>();
+
+  async get(inviteHash: string): Promise<InviteRedemption | null> {
+    return this.redemptions.get(inviteHash) ?? null;
+  }
+
+  async redeem(redemption: InviteRedemption): Promise<InviteRedemption> {
+    const existing = this.redemptions.get(redemption.inviteHash);
+    if (existing) {
+      return existing;
+    }
+    this.redemptions.set(redemption.inviteHash, redemption);
+    return redemption;
+  }
+}
+
+interface StoredRedemption {
+  conversationId: string;
+  inviteTag: string;
+  joinerInboxId: string;
+  redeemedAt: string;
+}
+
+/**
+ * File-backed redemption store. Persists redemptions as JSON so single-use
+ * invites stay used across restarts.
+ */
+export class FileInviteRedemptionStore implements InviteRedemptionStore {
+  private readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async get(inviteHash: string): Promise<InviteRedemption | null> {
+    const stored = this.load()[inviteHash];
+    return stored ? fromStored(inviteHash, stored) : null;
+  }
+
+  async redeem(redemption: InviteRedemption): Promise<InviteRedemption> {
+    const redemptions = this.load();
+    const existing = redemptions[redemption.inviteHash];
+    if (existing) {
+      return fromStored(redemption.inviteHash, existing);
+    }
+
+    redemptions[redemption.inviteHash] = {
+      conversationId: redemption.conversationId,
+      inviteTag: redemption.inviteTag,
+      joinerInboxId: redemption.joinerInboxId,
+      redeemedAt: redemption.redeemedAt.toISOString(),
+    };
+    writeJsonFile(this.filePath, redemptions);
+    return redemption;
+  }
+
+  private load(): Record<string, StoredRedemption> {
+    return readJsonFile<Record<string, StoredRedemption>>(this.filePath, {});
+  }
+}
+
+function fromStored(inviteHash: string, stored: StoredRedemption): InviteRedemption {
+  return {
+    inviteHash,
+    conversationId: stored.conversationId,
+    inviteTag: stored.inviteTag,
+    joinerInboxId: stored.joinerInboxId,
+    redeemedAt: new Date(stored.redeemedAt),
+  };
+}
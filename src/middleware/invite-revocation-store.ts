@@ -0,0 +1,98 @@
+import { readJsonFile, writeJsonFile } from "../utils/json-file.js";
+
+/**
+ * Record of an individual invite that was revoked
+ */
+export interface RevokedInvite {
+  /** SHA-256 hash of the signed invite payload (hex) */
+  inviteHash: string;
+  /** The conversation the invite granted access to */
+  conversationId: string;
+  /** The invite tag from the invite */
+  inviteTag: string;
+  /** When the invite was revoked */
+  revokedAt: Date;
+}
+
+/**
+ * Storage for revoked invites.
+ * Implement this interface to persist revocations in your own database.
+ */
+export interface InviteRevocationStore {
+  /** Returns true if the invite hash has been revoked */
+  isRevoked(inviteHash: string): Promise<boolean>;
+  /** Adds an invite to the revocation list. Revoking twice keeps the original record */
+  revoke(revokedInvite: RevokedInvite): Promise<void>;
+  /** Lists all revoked invites */
+  list(): Promise<RevokedInvite[]>;
+}
+
+/**
+ * In-memory revocation store. Revocations are lost when the process exits.
+ */
+export class InMemoryInviteRevocationStore implements InviteRevocationStore {
+  private readonly revoked = new Map<string, RevokedInvite>();
+
+  async isRevoked(inviteHash: string): Promise<boolean> {
+    return this.revoked.has(inviteHash);
+  }
+
+  async revoke(revokedInvite: RevokedInvite): Promise<void> {
+    if (!this.revoked.has(revokedInvite.inviteHash)) {
+      this.revoked.set(revokedInvite.inviteHash, revokedInvite);
+    }
+  }
+
+  async list(): Promise<RevokedInvite[]> {
+    return Array.from(this.revoked.values());
+  }
+}
+
+interface StoredRevocation {
+  conversationId: string;
+  inviteTag: string;
+  revokedAt: string;
+}
+
+/**
+ * File-backed revocation store. Persists the revocation list as JSON so
+ * revoked invites stay revoked across restarts.
+ */
+export class FileInviteRevocationStore implements InviteRevocationStore {
+  private readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async isRevoked(inviteHash: string): Promise<boolean> {
+    return inviteHash in this.load();
+  }
+
+  async revoke(revokedInvite: RevokedInvite): Promise<void> {
+    const revocations = this.load();
+    if (revokedInvite.inviteHash in revocations) {
+      return;
+    }
+
+    revocations[revokedInvite.inviteHash] = {
+      conversationId: revokedInvite.conversationId,
+      inviteTag: revokedInvite.inviteTag,
+      revokedAt: revokedInvite.revokedAt.toISOString(),
+    };
+    writeJsonFile(this.filePath, revocations);
+  }
+
+  async list(): Promise<RevokedInvite[]> {
+    return Object.entries(this.load()).map(([inviteHash, stored]) => ({
+      inviteHash,
+      conversationId: stored.conversationId,
+      inviteTag: stored.inviteTag,
+      revokedAt: new Date(stored.revokedAt),
+    }));
+  }
+
+  private load(): Record<string, StoredRevocation> {
+    return readJsonFile<Record<string, StoredRevocation>>(this.filePath, {});
+  }
+}
@@ -1,16 +1,30 @@
 import { hexToBytes } from "../utils/hex.js";
 import {
   parseInviteSlug,
-  verifyInviteWithPrivateKey,
-  decryptInviteConversationId,
+  verifyInviteWithSigner,
+  hashInvitePayload,
   type ParsedInvite,
 } from "../invite/signed-invite.js";
+import {
+  decryptConversationTokenWithKey,
+  decryptConversationTokenWithKeyring,
+  getConversationTokenKeyId,
+} from "../invite/conversation-token.js";
+import type { InviteSecretKeyring } from "../invite/invite-secrets.js";
+import { LocalInviteSigner, type InviteSigner } from "../signer/invite-signer.js";
 import {
   createConversationExpiredError,
   createGenericFailureError,
+  createInviteAlreadyUsedError,
+  createInviteRevokedError,
   encodeInviteJoinError,
   type InviteJoinError,
 } from "../content-types/invite-join-error.js";
+import {
+  InMemoryInviteRedemptionStore,
+  type InviteRedemption,
+  type InviteRedemptionStore,
+} from "./invite-redemption-store.js";
 
 export enum JoinRequestResult {
   /** Successfully processed as a join request */
@@ -29,6 +43,10 @@ export interface JoinRequestOutcome {
   inviteTag?: string;
   error?: InviteJoinError;
   errorMessage?: string;
+  /** The conversation's current invite tag, set when it no longer matches the invite's tag */
+  currentInviteTag?: string;
+  /** Redemption record for single-use invites */
+  redemption?: InviteRedemption;
 }
 
 export interface JoinRequestHandlerOptions {
@@ -36,12 +54,20 @@ export interface JoinRequestHandlerOptions {
   inboxId?: string;
   /** The handler's secp256k1 private key (32 bytes). If not provided, reads from XMTP_WALLET_KEY env var */
   privateKey?: Uint8Array;
+  /** Performs the handler's key operations instead of an in-process private key. Takes precedence over `privateKey` */
+  signer?: InviteSigner;
   /** Callback when a join request is successfully validated */
   onJoinRequest?: (joinerInboxId: string, conversationId: string, inviteTag: string) => Promise<boolean>;
   /** Callback when a join request fails */
   onJoinError?: (joinerInboxId: string, error: InviteJoinError) => void;
   /** Function to check if a conversation exists */
   conversationExists?: (conversationId: string) => Promise<boolean>;
+  /** Function returning the conversation's current invite tag from its appData metadata, if known */
+  getInviteTag?: (conversationId: string) => Promise<string | undefined>;
+  /** Where single-use invite redemptions are recorded. Defaults to an in-memory store */
+  redemptionStore?: InviteRedemptionStore;
+  /** Invite secrets for tokens that were not encrypted with the wallet-derived key */
+  inviteSecrets?: InviteSecretKeyring;
 }
 
 /**
@@ -60,10 +86,13 @@ export interface XMTPAgent {
  */
 export class JoinRequestHandler {
   private readonly inboxId: string;
-  private readonly privateKey: Uint8Array;
+  private readonly signer: InviteSigner;
   private readonly onJoinRequest?: (joinerInboxId: string, conversationId: string, inviteTag: string) => Promise<boolean>;
   private readonly onJoinError?: (joinerInboxId: string, error: InviteJoinError) => void;
   private readonly conversationExists?: (conversationId: string) => Promise<boolean>;
+  private readonly getInviteTag?: (conversationId: string) => Promise<string | undefined>;
+  private readonly redemptionStore: InviteRedemptionStore;
+  private readonly inviteSecrets?: InviteSecretKeyring;
 
   /**
    * Creates a JoinRequestHandler.
@@ -83,9 +112,11 @@ export class JoinRequestHandler {
       );
     }
 
-    // Get privateKey from options or environment
-    if (options.privateKey) {
-      this.privateKey = options.privateKey;
+    // Get the signer or privateKey from options or environment
+    if (options.signer) {
+      this.signer = options.signer;
+    } else if (options.privateKey) {
+      this.signer = new LocalInviteSigner(options.privateKey);
     } else {
       const envKey = process.env.XMTP_WALLET_KEY || process.env.WALLET_KEY;
       if (!envKey) {
@@ -93,12 +124,15 @@ export class JoinRequestHandler {
           "privateKey is required. Provide it in options or set XMTP_WALLET_KEY environment variable."
         );
       }
-      this.privateKey = hexToBytes(envKey.replace(/^0x/, ""));
+      this.signer = new LocalInviteSigner(hexToBytes(envKey.replace(/^0x/, "")));
     }
 
     this.onJoinRequest = options.onJoinRequest;
     this.onJoinError = options.onJoinError;
     this.conversationExists = options.conversationExists;
+    this.getInviteTag = options.getInviteTag;
+    this.redemptionStore = options.redemptionStore ?? new InMemoryInviteRedemptionStore();
+    this.inviteSecrets = options.inviteSecrets;
   }
 
   /**
@@ -107,7 +141,7 @@ export class JoinRequestHandler {
    */
   static fromAgent(
     agent: XMTPAgent,
-    options?: Omit<JoinRequestHandlerOptions, "inboxId" | "privateKey">
+    options?: Omit<JoinRequestHandlerOptions, "inboxId" | "privateKey" | "signer">
   ): JoinRequestHandler {
     return new JoinRequestHandler(options ?? {}, agent);
   }
@@ -156,7 +190,7 @@ export class JoinRequestHandler {
     }
 
     // Verify the signature
-    if (!verifyInviteWithPrivateKey(parsedInvite.signedInvite, this.privateKey)) {
+    if (!(await verifyInviteWithSigner(parsedInvite.signedInvite, this.signer))) {
       return {
         result: JoinRequestResult.BlockSender,
         inviteTag,
@@ -188,10 +222,37 @@ export class JoinRequestHandler {
       };
     }
 
+    // Invites encrypted with a removed invite secret are no longer valid
+    const token = parsedInvite.payload.conversationToken;
+    let keyId: number | undefined;
+    try {
+      keyId = getConversationTokenKeyId(token);
+    } catch {
+      return {
+        result: JoinRequestResult.BlockSender,
+        inviteTag,
+        errorMessage: "Failed to decrypt conversation ID",
+      };
+    }
+    if (keyId !== undefined && !this.inviteSecrets?.has(keyId)) {
+      const error = createInviteRevokedError(inviteTag);
+      this.onJoinError?.(senderInboxId, error);
+      return {
+        result: JoinRequestResult.SendError,
+        inviteTag,
+        error,
+        errorMessage: "Invite secret no longer in keyring",
+      };
+    }
+
     // Decrypt the conversation ID
+    const inviteKey =
+      keyId === undefined ? await this.signer.deriveInviteKey(this.inboxId) : undefined;
     let conversationId: string;
     try {
-      conversationId = decryptInviteConversationId(parsedInvite, this.privateKey);
+      conversationId = inviteKey
+        ? decryptConversationTokenWithKey(token, this.inboxId, inviteKey)
+        : decryptConversationTokenWithKeyring(token, this.inboxId, this.inviteSecrets!);
     } catch {
       return {
         result: JoinRequestResult.BlockSender,
@@ -216,6 +277,34 @@ export class JoinRequestHandler {
       }
     }
 
+    // Check the invite tag is still current (rotating the tag invalidates old invites)
+    if (this.getInviteTag) {
+      const currentInviteTag = await this.getInviteTag(conversationId);
+      if (currentInviteTag !== undefined && currentInviteTag !== inviteTag) {
+        const error = createInviteRevokedError(inviteTag);
+        this.onJoinError?.(senderInboxId, error);
+        return {
+          result: JoinRequestResult.SendError,
+          inviteTag,
+          conversationId,
+          error,
+          errorMessage: "Invite tag no longer matches conversation",
+          currentInviteTag,
+        };
+      }
+    }
+
+    // Single-use invites can only be redeemed by one joiner. The redemption is
+    // recorded once the join succeeds, so a refused request does not use it up
+    const singleUse = parsedInvite.payload.expiresAfterUse;
+    const inviteHash = hashInvitePayload(parsedInvite.signedInvite);
+    if (singleUse) {
+      const existing = await this.redemptionStore.get(inviteHash);
+      if (existing && existing.joinerInboxId !== senderInboxId) {
+        return this.alreadyUsed(senderInboxId, conversationId, existing);
+      }
+    }
+
     // Call the join request handler
     if (this.onJoinRequest) {
       try {
@@ -244,10 +333,46 @@ export class JoinRequestHandler {
       }
     }
 
+    let redemption: InviteRedemption | undefined;
+    if (singleUse) {
+      redemption = await this.redemptionStore.redeem({
+        inviteHash,
+        conversationId,
+        inviteTag,
+        joinerInboxId: senderInboxId,
+        redeemedAt: new Date(),
+      });
+      if (redemption.joinerInboxId !== senderInboxId) {
+        // Another joiner's request succeeded while this one was being handled
+        return this.alreadyUsed(senderInboxId, conversationId, redemption);
+      }
+    }
+
     return {
       result: JoinRequestResult.Success,
       conversationId,
       inviteTag,
+      redemption,
+    };
+  }
+
+  /**
+   * Refuses a join request for a single-use invite someone else redeemed.
+   */
+  private alreadyUsed(
+    senderInboxId: string,
+    conversationId: string,
+    redemption: InviteRedemption
+  ): JoinRequestOutcome {
+    const error = createInviteAlreadyUsedError(redemption.inviteTag);
+    this.onJoinError?.(senderInboxId, error);
+    return {
+      result: JoinRequestResult.SendError,
+      inviteTag: redemption.inviteTag,
+      conversationId,
+      error,
+      errorMessage: "Invite already used",
+      redemption,
     };
   }
 
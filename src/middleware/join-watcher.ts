@@ -0,0 +1,198 @@
+import {
+  decodeInviteJoinError,
+  type InviteJoinError,
+  type InviteJoinErrorType,
+} from "../content-types/invite-join-error.js";
+import {
+  isInviteJoinErrorContentType,
+  type ContentTypeId,
+} from "../content-types/invite-join-error-codec.js";
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+/**
+ * How a join request ended, as seen by the joiner
+ */
+export type JoinOutcome =
+  | {
+      status: "accepted";
+      /** The conversation the joiner was added to */
+      conversationId: string;
+    }
+  | {
+      status: "rejected";
+      errorType: InviteJoinErrorType;
+      /** The error sent by the creator */
+      error: InviteJoinError;
+    }
+  | { status: "timeout" };
+
+export interface WaitForOutcomeOptions {
+  /** How long to wait in milliseconds (default: 60 seconds) */
+  timeout?: number;
+}
+
+/**
+ * What a join watch listens for
+ */
+export interface JoinWatchTarget {
+  /** The invite creator, who sends errors */
+  creatorInboxId: string;
+  /** The DM the join request was sent in */
+  dmConversationId: string;
+  /** The invite tag, matched against errors and the new group's metadata */
+  inviteTag: string;
+  /** The conversation name from the invite, used when a new group has no metadata */
+  name?: string;
+}
+
+/**
+ * A conversation that may be the group the joiner was added to
+ */
+export interface JoinCandidate {
+  conversationId: string;
+  /** Invite tag from the conversation's appData metadata, if readable */
+  inviteTag?: string;
+  /** Conversation name */
+  name?: string;
+  /** Who added this inbox to the conversation */
+  addedByInboxId?: string;
+  /** True if the conversation was just received as a new-group welcome */
+  isNew: boolean;
+}
+
+/**
+ * Tracks the outcome of one join request until it is accepted, rejected or times out.
+ * The outcome is recorded as soon as it is observed, so it is not lost if it
+ * arrives before `wait()` is called. The watch times out on its own, so one
+ * that is never waited on does not stay registered forever.
+ */
+export class JoinWatch {
+  readonly target: JoinWatchTarget;
+  private outcome?: JoinOutcome;
+  private readonly waiters: Array<(outcome: JoinOutcome) => void> = [];
+  private readonly onSettled: (watch: JoinWatch) => void;
+  private expiry?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    target: JoinWatchTarget,
+    onSettled: (watch: JoinWatch) => void,
+    timeoutMs: number = DEFAULT_TIMEOUT_MS
+  ) {
+    this.target = target;
+    this.onSettled = onSettled;
+    this.expireAfter(timeoutMs);
+  }
+
+  /**
+   * True once an outcome has been recorded.
+   */
+  get settled(): boolean {
+    return this.outcome !== undefined;
+  }
+
+  /**
+   * Records the outcome and wakes up waiters. Later outcomes are ignored.
+   */
+  settle(outcome: JoinOutcome): void {
+    if (this.outcome) {
+      return;
+    }
+    this.outcome = outcome;
+    clearTimeout(this.expiry);
+    this.onSettled(this);
+    for (const waiter of this.waiters.splice(0)) {
+      waiter(outcome);
+    }
+  }
+
+  /**
+   * Waits for the outcome, restarting the watch's timeout from now. A timeout
+   * is final: the watch stops listening.
+   */
+  wait(options: WaitForOutcomeOptions = {}): Promise<JoinOutcome> {
+    if (this.outcome) {
+      return Promise.resolve(this.outcome);
+    }
+    this.expireAfter(options.timeout ?? DEFAULT_TIMEOUT_MS);
+    return new Promise((resolve) => this.waiters.push(resolve));
+  }
+
+  /**
+   * Stops watching before anyone waits, e.g. because the join request could
+   * not be sent.
+   */
+  cancel(): void {
+    clearTimeout(this.expiry);
+    this.onSettled(this);
+  }
+
+  private expireAfter(timeoutMs: number): void {
+    clearTimeout(this.expiry);
+    this.expiry = setTimeout(() => this.settle({ status: "timeout" }), timeoutMs);
+  }
+
+  /**
+   * Checks a DM message for an InviteJoinError answering this join request.
+   */
+  observeMessage(
+    conversationId: string,
+    message: { senderInboxId: string; content: unknown; contentType?: ContentTypeId }
+  ): void {
+    if (
+      conversationId !== this.target.dmConversationId ||
+      message.senderInboxId !== this.target.creatorInboxId
+    ) {
+      return;
+    }
+    const error = toInviteJoinError(message.content, message.contentType);
+    if (!error || (error.inviteTag && error.inviteTag !== this.target.inviteTag)) {
+      return;
+    }
+    this.settle({ status: "rejected", errorType: error.errorType, error });
+  }
+
+  /**
+   * Checks whether a conversation is the group the invite was for.
+   * Groups are matched by invite tag. A new group without metadata matches if
+   * the invite creator added us and its name matches the invite.
+   */
+  observeConversation(candidate: JoinCandidate): void {
+    if (candidate.conversationId === this.target.dmConversationId) {
+      return;
+    }
+    const matches =
+      candidate.inviteTag !== undefined
+        ? candidate.inviteTag === this.target.inviteTag
+        : candidate.isNew &&
+          candidate.addedByInboxId === this.target.creatorInboxId &&
+          (this.target.name === undefined || candidate.name === this.target.name);
+    if (matches) {
+      this.settle({ status: "accepted", conversationId: candidate.conversationId });
+    }
+  }
+}
+
+/**
+ * Reads an InviteJoinError from message content, whether or not the agent
+ * has the codec registered.
+ */
+function toInviteJoinError(
+  content: unknown,
+  contentType: ContentTypeId | undefined
+): InviteJoinError | null {
+  if (!isInviteJoinErrorContentType(contentType)) {
+    return null;
+  }
+  if (content instanceof Uint8Array) {
+    try {
+      return decodeInviteJoinError(content);
+    } catch {
+      return null;
+    }
+  }
+  if (content && typeof content === "object" && "errorType" in content) {
+    return content as InviteJoinError;
+  }
+  return null;
+}
@@ -0,0 +1,370 @@
+import { readJsonFile, writeJsonFile } from "../utils/json-file.js";
+import { generateSecureRandomString } from "../utils/random.js";
+import {
+  createConversationExpiredError,
+  createGenericFailureError,
+  getErrorMessage,
+  type InviteJoinError,
+} from "../content-types/invite-join-error.js";
+import { InviteJoinErrorCodec } from "../content-types/invite-join-error-codec.js";
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const REQUEST_ID_LENGTH = 10;
+
+const inviteJoinErrorCodec = new InviteJoinErrorCodec();
+
+/**
+ * A join request waiting for a decision
+ */
+export interface PendingJoinRequest {
+  /** Unique ID used to accept or reject the request */
+  id: string;
+  /** The inbox ID of the user requesting to join */
+  joinerInboxId: string;
+  /** The conversation ID they want to join */
+  conversationId: string;
+  /** The invite tag from the invite */
+  inviteTag: string;
+  /** The invite slug the joiner presented (the signed invite payload) */
+  inviteSlug: string;
+  /** Hash of the signed invite, for revocation and redemption checks */
+  inviteHash: string;
+  /** The DM conversation the request arrived in, used to send rejections */
+  dmConversationId: string;
+  /** When the request was received */
+  requestedAt: Date;
+  /** When the request stops being actionable */
+  expiresAt: Date;
+}
+
+/**
+ * Data needed to queue a join request
+ */
+export interface PendingJoinInput {
+  joinerInboxId: string;
+  conversationId: string;
+  inviteTag: string;
+  inviteSlug: string;
+  inviteHash: string;
+  dmConversationId: string;
+  /** Expiry of the invite or conversation, if earlier than the queue TTL */
+  expiresAt?: Date;
+}
+
+/**
+ * Storage for pending join requests.
+ * Implement this interface to persist the queue in your own database.
+ */
+export interface PendingJoinStore {
+  list(): Promise<PendingJoinRequest[]>;
+  get(id: string): Promise<PendingJoinRequest | null>;
+  put(request: PendingJoinRequest): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * In-memory pending join store. Requests are lost when the process exits.
+ */
+export class InMemoryPendingJoinStore implements PendingJoinStore {
+  private readonly requests = new Map<string, PendingJoinRequest>();
+
+  async list(): Promise<PendingJoinRequest[]> {
+    return Array.from(this.requests.values());
+  }
+
+  async get(id: string): Promise<PendingJoinRequest | null> {
+    return this.requests.get(id) ?? null;
+  }
+
+  async put(request: PendingJoinRequest): Promise<void> {
+    this.requests.set(request.id, request);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.requests.delete(id);
+  }
+}
+
+interface StoredPendingJoin {
+  joinerInboxId: string;
+  conversationId: string;
+  inviteTag: string;
+  inviteSlug: string;
+  inviteHash: string;
+  dmConversationId: string;
+  requestedAt: string;
+  expiresAt: string;
+}
+
+/**
+ * File-backed pending join store. Persists the queue as JSON so requests
+ * can be decided after a restart or from another process.
+ */
+export class FilePendingJoinStore implements PendingJoinStore {
+  private readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async list(): Promise<PendingJoinRequest[]> {
+    return Object.entries(this.load()).map(([id, stored]) => fromStored(id, stored));
+  }
+
+  async get(id: string): Promise<PendingJoinRequest | null> {
+    const stored = this.load()[id];
+    return stored ? fromStored(id, stored) : null;
+  }
+
+  async put(request: PendingJoinRequest): Promise<void> {
+    const requests = this.load();
+    requests[request.id] = {
+      joinerInboxId: request.joinerInboxId,
+      conversationId: request.conversationId,
+      inviteTag: request.inviteTag,
+      inviteSlug: request.inviteSlug,
+      inviteHash: request.inviteHash,
+      dmConversationId: request.dmConversationId,
+      requestedAt: request.requestedAt.toISOString(),
+      expiresAt: request.expiresAt.toISOString(),
+    };
+    writeJsonFile(this.filePath, requests);
+  }
+
+  async delete(id: string): Promise<void> {
+    const requests = this.load();
+    if (id in requests) {
+      delete requests[id];
+      writeJsonFile(this.filePath, requests);
+    }
+  }
+
+  private load(): Record<string, StoredPendingJoin> {
+    return readJsonFile<Record<string, StoredPendingJoin>>(this.filePath, {});
+  }
+}
+
+function fromStored(id: string, stored: StoredPendingJoin): PendingJoinRequest {
+  return {
+    id,
+    joinerInboxId: stored.joinerInboxId,
+    conversationId: stored.conversationId,
+    inviteTag: stored.inviteTag,
+    inviteSlug: stored.inviteSlug,
+    inviteHash: stored.inviteHash,
+    dmConversationId: stored.dmConversationId,
+    requestedAt: new Date(stored.requestedAt),
+    expiresAt: new Date(stored.expiresAt),
+  };
+}
+
+export interface PendingJoinQueueOptions {
+  /** Where pending requests are stored. Defaults to an in-memory store */
+  store?: PendingJoinStore;
+  /** How long a request stays pending before it expires, in milliseconds (default: 24 hours) */
+  ttlMs?: number;
+}
+
+/**
+ * Minimal agent interface the queue needs to act on requests
+ */
+export interface PendingJoinAgent {
+  client: {
+    conversations: {
+      getConversationById(id: string): Promise<{
+        send(content: unknown): Promise<unknown>;
+        addMembers(inboxIds: string[]): Promise<unknown>;
+      } | null>;
+    };
+  };
+}
+
+/**
+ * Callbacks notified when a queued request is decided
+ */
+export interface PendingJoinListener {
+  /**
+   * Called before the joiner is added. Returning an error rejects the request
+   * with it instead.
+   */
+  onAccepting?(request: PendingJoinRequest): Promise<InviteJoinError | undefined>;
+  onAccepted?(request: PendingJoinRequest): void | Promise<void>;
+  onRejected?(request: PendingJoinRequest, error: InviteJoinError): void | Promise<void>;
+}
+
+/**
+ * Queue of join requests awaiting approval.
+ * Requests can be accepted or rejected long after the original DM was received,
+ * including after a restart when backed by a persistent store.
+ */
+export class PendingJoinQueue {
+  private readonly agent: PendingJoinAgent;
+  private readonly store: PendingJoinStore;
+  private readonly ttlMs: number;
+  private readonly listener?: PendingJoinListener;
+
+  constructor(
+    agent: PendingJoinAgent,
+    options: PendingJoinQueueOptions = {},
+    listener?: PendingJoinListener
+  ) {
+    this.agent = agent;
+    this.store = options.store ?? new InMemoryPendingJoinStore();
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    this.listener = listener;
+  }
+
+  /**
+   * Adds a join request to the queue. If the joiner already has a pending
+   * request for the same invite, that request is returned instead.
+   */
+  async enqueue(input: PendingJoinInput): Promise<PendingJoinRequest> {
+    const existing = (await this.list()).find(
+      (request) =>
+        request.joinerInboxId === input.joinerInboxId && request.inviteHash === input.inviteHash
+    );
+    if (existing) {
+      return existing;
+    }
+
+    const requestedAt = new Date();
+    const ttlExpiry = new Date(requestedAt.getTime() + this.ttlMs);
+    const expiresAt =
+      input.expiresAt && input.expiresAt < ttlExpiry ? input.expiresAt : ttlExpiry;
+
+    const request: PendingJoinRequest = {
+      id: generateSecureRandomString(REQUEST_ID_LENGTH),
+      joinerInboxId: input.joinerInboxId,
+      conversationId: input.conversationId,
+      inviteTag: input.inviteTag,
+      inviteSlug: input.inviteSlug,
+      inviteHash: input.inviteHash,
+      dmConversationId: input.dmConversationId,
+      requestedAt,
+      expiresAt,
+    };
+    await this.store.put(request);
+    return request;
+  }
+
+  /**
+   * Lists pending requests, oldest first. Expired requests are removed.
+   */
+  async list(): Promise<PendingJoinRequest[]> {
+    await this.pruneExpired();
+    const requests = await this.store.list();
+    return requests.sort((a, b) => a.requestedAt.getTime() - b.requestedAt.getTime());
+  }
+
+  /**
+   * Gets a pending request by ID, or null if it does not exist or has expired.
+   */
+  async get(requestId: string): Promise<PendingJoinRequest | null> {
+    const request = await this.store.get(requestId);
+    if (!request) {
+      return null;
+    }
+    if (this.isExpired(request)) {
+      await this.store.delete(requestId);
+      return null;
+    }
+    return request;
+  }
+
+  /**
+   * Accepts a pending request, adding the joiner to the conversation.
+   * If the conversation no longer exists, the joiner is told it expired; if
+   * the listener's `onAccepting` returns an error, the joiner is sent that.
+   *
+   * @throws Error if the request does not exist, has expired, the conversation is gone
+   * or `onAccepting` refused it
+   */
+  async accept(requestId: string): Promise<PendingJoinRequest> {
+    const request = await this.require(requestId);
+    const conversations = this.agent.client.conversations;
+
+    const conversation = await conversations.getConversationById(request.conversationId);
+    if (!conversation) {
+      await this.store.delete(requestId);
+      await this.rejectRequest(request, createConversationExpiredError(request.inviteTag));
+      throw new Error(`Conversation not found: ${request.conversationId}`);
+    }
+
+    const error = await this.listener?.onAccepting?.(request);
+    if (error) {
+      await this.store.delete(requestId);
+      await this.rejectRequest(request, error);
+      throw new Error(`Join request can no longer be accepted: ${getErrorMessage(error)}`);
+    }
+
+    await conversation.addMembers([request.joinerInboxId]);
+    await this.store.delete(requestId);
+    await this.notify(() => this.listener?.onAccepted?.(request));
+    return request;
+  }
+
+  /**
+   * Rejects a pending request, sending an error to the joiner.
+   *
+   * @throws Error if the request does not exist or has expired
+   */
+  async reject(requestId: string, error?: InviteJoinError): Promise<PendingJoinRequest> {
+    const request = await this.require(requestId);
+    await this.store.delete(requestId);
+    await this.rejectRequest(request, error ?? createGenericFailureError(request.inviteTag));
+    return request;
+  }
+
+  /**
+   * Removes expired requests from the queue.
+   * Returns the requests that were removed.
+   */
+  async pruneExpired(): Promise<PendingJoinRequest[]> {
+    const requests = await this.store.list();
+    const expired = requests.filter((request) => this.isExpired(request));
+    for (const request of expired) {
+      await this.store.delete(request.id);
+    }
+    return expired;
+  }
+
+  private async require(requestId: string): Promise<PendingJoinRequest> {
+    const request = await this.store.get(requestId);
+    if (!request) {
+      throw new Error(`Pending join request not found: ${requestId}`);
+    }
+    if (this.isExpired(request)) {
+      await this.store.delete(requestId);
+      throw new Error(`Pending join request has expired: ${requestId}`);
+    }
+    return request;
+  }
+
+  private isExpired(request: PendingJoinRequest): boolean {
+    return request.expiresAt.getTime() <= Date.now();
+  }
+
+  private async rejectRequest(request: PendingJoinRequest, error: InviteJoinError): Promise<void> {
+    await this.sendError(request, error);
+    await this.notify(() => this.listener?.onRejected?.(request, error));
+  }
+
+  private async notify(callback: () => void | Promise<void>): Promise<void> {
+    try {
+      await callback();
+    } catch (err) {
+      console.error("Error in pending join listener:", err);
+    }
+  }
+
+  private async sendError(request: PendingJoinRequest, error: InviteJoinError): Promise<void> {
+    try {
+      const dm = await this.agent.client.conversations.getConversationById(
+        request.dmConversationId
+      );
+      await dm?.send(inviteJoinErrorCodec.encode(error));
+    } catch {
+      // Fire and forget - don't fail if error sending fails
+    }
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * Token bucket settings: up to `capacity` requests in a burst,
+ * refilled at `refillPerSecond` tokens per second.
+ */
+export interface TokenBucketOptions {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+/**
+ * Rate limits for join requests
+ */
+export interface JoinRateLimitOptions {
+  /** Limit per joiner inbox ID */
+  perSender?: TokenBucketOptions;
+  /** Limit per target conversation */
+  perConversation?: TokenBucketOptions;
+  /** Limit across all join requests */
+  global?: TokenBucketOptions;
+  /**
+   * Block a sender after this many consecutive requests over their own limit.
+   * Conversation and global limits never count toward it. Disabled if not set
+   */
+  blockAfterViolations?: number;
+}
+
+/**
+ * Which limit a request exceeded
+ */
+export type RateLimitScope = "sender" | "conversation" | "global";
+
+// Idle buckets are swept once this many keys are tracked
+const MAX_TRACKED_KEYS = 10_000;
+
+/**
+ * Classic token bucket. Each request takes one token; tokens refill continuously.
+ */
+export class TokenBucket {
+  private readonly capacity: number;
+  private readonly refillPerMs: number;
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(options: TokenBucketOptions, now: number = Date.now()) {
+    this.capacity = options.capacity;
+    this.refillPerMs = options.refillPerSecond / 1000;
+    this.tokens = options.capacity;
+    this.updatedAt = now;
+  }
+
+  /**
+   * Takes a token if one is available.
+   * Returns false if the bucket is empty.
+   */
+  tryTake(now: number = Date.now()): boolean {
+    this.refill(now);
+    if (this.tokens < 1) {
+      return false;
+    }
+    this.tokens -= 1;
+    return true;
+  }
+
+  /**
+   * Puts a token back, e.g. when a later check rejected the request.
+   */
+  giveBack(): void {
+    this.tokens = Math.min(this.capacity, this.tokens + 1);
+  }
+
+  /**
+   * Returns true if the bucket has refilled completely.
+   */
+  isFull(now: number = Date.now()): boolean {
+    this.refill(now);
+    return this.tokens >= this.capacity;
+  }
+
+  private refill(now: number): void {
+    const elapsed = Math.max(0, now - this.updatedAt);
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.refillPerMs);
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * Keyed collection of token buckets sharing the same settings.
+ */
+class KeyedTokenBuckets {
+  private readonly options: TokenBucketOptions;
+  private readonly buckets = new Map<string, TokenBucket>();
+
+  constructor(options: TokenBucketOptions) {
+    this.options = options;
+  }
+
+  get(key: string): TokenBucket {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      if (this.buckets.size >= MAX_TRACKED_KEYS) {
+        this.sweep();
+      }
+      bucket = new TokenBucket(this.options);
+      this.buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * Returns true if the key has no bucket or its bucket has refilled completely.
+   */
+  isIdle(key: string, now: number = Date.now()): boolean {
+    return this.buckets.get(key)?.isFull(now) ?? true;
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.isFull(now)) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Applies per-sender, per-conversation and global limits to join requests,
+ * and tracks consecutive violations per sender for escalation.
+ */
+export class JoinRateLimiter {
+  private readonly perSender?: KeyedTokenBuckets;
+  private readonly perConversation?: KeyedTokenBuckets;
+  private readonly global?: TokenBucket;
+  private readonly blockAfterViolations?: number;
+  private readonly violations = new Map<string, number>();
+
+  constructor(options: JoinRateLimitOptions) {
+    this.perSender = options.perSender ? new KeyedTokenBuckets(options.perSender) : undefined;
+    this.perConversation = options.perConversation
+      ? new KeyedTokenBuckets(options.perConversation)
+      : undefined;
+    this.global = options.global ? new TokenBucket(options.global) : undefined;
+    this.blockAfterViolations = options.blockAfterViolations;
+  }
+
+  /**
+   * Checks the sender and global limits, consuming a token from each.
+   * Call before doing expensive verification work.
+   * Returns the exceeded scope, or null if the request is allowed.
+   */
+  checkSender(senderInboxId: string): RateLimitScope | null {
+    const senderBucket = this.perSender?.get(senderInboxId);
+    if (senderBucket && !senderBucket.tryTake()) {
+      return "sender";
+    }
+    if (this.global && !this.global.tryTake()) {
+      senderBucket?.giveBack();
+      return "global";
+    }
+    return null;
+  }
+
+  /**
+   * Checks the per-conversation limit, consuming a token.
+   * Returns the exceeded scope, or null if the request is allowed.
+   */
+  checkConversation(conversationId: string): RateLimitScope | null {
+    const bucket = this.perConversation?.get(conversationId);
+    if (bucket && !bucket.tryTake()) {
+      return "conversation";
+    }
+    return null;
+  }
+
+  /**
+   * Records an over-limit request from a sender. Only requests over the
+   * sender's own limit count: conversation and global limits can be exhausted
+   * by someone else.
+   * Returns true if the sender has now reached the block threshold.
+   */
+  recordViolation(senderInboxId: string, scope: RateLimitScope): boolean {
+    if (scope !== "sender") {
+      return false;
+    }
+    if (!this.violations.has(senderInboxId) && this.violations.size >= MAX_TRACKED_KEYS) {
+      this.sweepViolations();
+    }
+    const count = (this.violations.get(senderInboxId) ?? 0) + 1;
+    this.violations.set(senderInboxId, count);
+    return this.blockAfterViolations !== undefined && count >= this.blockAfterViolations;
+  }
+
+  /**
+   * Clears the violation count for a sender after an allowed request.
+   */
+  resetViolations(senderInboxId: string): void {
+    this.violations.delete(senderInboxId);
+  }
+
+  /**
+   * Forgets the violations of senders whose bucket has refilled completely.
+   */
+  private sweepViolations(): void {
+    const now = Date.now();
+    for (const senderInboxId of this.violations.keys()) {
+      if (this.perSender?.isIdle(senderInboxId, now) ?? true) {
+        this.violations.delete(senderInboxId);
+      }
+    }
+  }
+}
@@ -0,0 +1,524 @@
+import { reedSolomonGenerator, reedSolomonRemainder } from "./reed-solomon.js";
+
+/**
+ * QR error correction level: roughly 7%, 15%, 25% or 30% of the code can be
+ * damaged and still decode
+ */
+export type QRErrorCorrectionLevel = "L" | "M" | "Q" | "H";
+
+export interface QREncodeOptions {
+  /** Error correction level (default: M) */
+  errorCorrection?: QRErrorCorrectionLevel;
+  /** Smallest version to use, 1-40 (default: 1) */
+  minVersion?: number;
+  /** Largest version to use, 1-40 (default: 40) */
+  maxVersion?: number;
+  /** Mask pattern 0-7 (default: the one with the lowest penalty) */
+  mask?: number;
+}
+
+/**
+ * An encoded QR code
+ */
+export interface QRCode {
+  /** Version 1-40; the code is 17 + 4 * version modules wide */
+  version: number;
+  errorCorrection: QRErrorCorrectionLevel;
+  mask: number;
+  /** Width and height in modules, without a quiet zone */
+  size: number;
+  /** Modules by row, then column. True is dark */
+  modules: boolean[][];
+}
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+const BYTE_MODE = 0b0100;
+
+const LEVEL_INDEX: Record<QRErrorCorrectionLevel, number> = { L: 0, M: 1, Q: 2, H: 3 };
+const LEVEL_FORMAT_BITS: Record<QRErrorCorrectionLevel, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Error correction codewords per block and number of blocks, by level then
+// version (ISO/IEC 18004 table 9). Index 0 is unused
+const ECC_CODEWORDS_PER_BLOCK: number[][] = [
+  [
+    -1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28,
+    28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+  ],
+  [
+    -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26,
+    26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+  ],
+  [
+    -1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30,
+    28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+  ],
+  [
+    -1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28,
+    30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+  ],
+];
+const ERROR_CORRECTION_BLOCKS: number[][] = [
+  [
+    -1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8,
+    8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25,
+  ],
+  [
+    -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16,
+    17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+  ],
+  [
+    -1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20,
+    23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68,
+  ],
+  [
+    -1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25,
+    25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81,
+  ],
+];
+
+/**
+ * Encodes text (as UTF-8) or bytes into a QR code in byte mode, using the
+ * smallest version that fits.
+ *
+ * @throws Error if the data does not fit in the allowed versions
+ */
+export function encodeQR(data: string | Uint8Array, options: QREncodeOptions = {}): QRCode {
+  const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data;
+  const level = options.errorCorrection ?? "M";
+  const minVersion = options.minVersion ?? MIN_VERSION;
+  const maxVersion = options.maxVersion ?? MAX_VERSION;
+  if (
+    !Number.isInteger(minVersion) ||
+    !Number.isInteger(maxVersion) ||
+    minVersion < MIN_VERSION ||
+    maxVersion > MAX_VERSION ||
+    minVersion > maxVersion
+  ) {
+    throw new Error(`QR versions must be between ${MIN_VERSION} and ${MAX_VERSION}`);
+  }
+  const { mask: requestedMask } = options;
+  if (
+    requestedMask !== undefined &&
+    !(Number.isInteger(requestedMask) && requestedMask >= 0 && requestedMask <= 7)
+  ) {
+    throw new Error("QR mask must be between 0 and 7");
+  }
+
+  let version = minVersion;
+  while (getQRByteCapacity(version, level) < bytes.length) {
+    if (version >= maxVersion) {
+      const capacity = getQRByteCapacity(maxVersion, level);
+      throw new Error(
+        `Data too long for a QR code: ${bytes.length} bytes, ` +
+          `at most ${capacity} fit at level ${level}`
+      );
+    }
+    version++;
+  }
+
+  const codewords = addErrorCorrection(encodeDataCodewords(bytes, version, level), version, level);
+  const matrix = new QRMatrix(version);
+  matrix.drawFunctionPatterns();
+  matrix.drawCodewords(codewords);
+
+  let mask = requestedMask;
+  if (mask === undefined) {
+    let lowestPenalty = Infinity;
+    for (let candidate = 0; candidate < 8; candidate++) {
+      matrix.applyMask(candidate);
+      matrix.drawFormatBits(level, candidate);
+      const penalty = matrix.getPenaltyScore();
+      if (penalty < lowestPenalty) {
+        mask = candidate;
+        lowestPenalty = penalty;
+      }
+      // Masking is an XOR, so applying it again undoes it
+      matrix.applyMask(candidate);
+    }
+  }
+  matrix.applyMask(mask!);
+  matrix.drawFormatBits(level, mask!);
+
+  return {
+    version,
+    errorCorrection: level,
+    mask: mask!,
+    size: matrix.size,
+    modules: matrix.modules,
+  };
+}
+
+/**
+ * Returns how many bytes fit in a QR code of the given version and level.
+ */
+export function getQRByteCapacity(version: number, level: QRErrorCorrectionLevel): number {
+  const headerBits = 4 + getCharCountBits(version);
+  return Math.floor((getDataCodewordCount(version, level) * 8 - headerBits) / 8);
+}
+
+function getCharCountBits(version: number): number {
+  return version <= 9 ? 8 : 16;
+}
+
+/**
+ * Number of modules available for data and error correction codewords.
+ */
+function getRawDataModuleCount(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignmentCount = Math.floor(version / 7) + 2;
+    result -= (25 * alignmentCount - 10) * alignmentCount - 55;
+    if (version >= 7) {
+      result -= 36;
+    }
+  }
+  return result;
+}
+
+function getDataCodewordCount(version: number, level: QRErrorCorrectionLevel): number {
+  const index = LEVEL_INDEX[level];
+  return (
+    Math.floor(getRawDataModuleCount(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[index][version] * ERROR_CORRECTION_BLOCKS[index][version]
+  );
+}
+
+/**
+ * Builds the data codewords: mode, length, data, terminator and padding.
+ */
+function encodeDataCodewords(
+  bytes: Uint8Array,
+  version: number,
+  level: QRErrorCorrectionLevel
+): Uint8Array {
+  const capacityBits = getDataCodewordCount(version, level) * 8;
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) {
+      bits.push((value >>> i) & 1);
+    }
+  };
+
+  append(BYTE_MODE, 4);
+  append(bytes.length, getCharCountBits(version));
+  for (const byte of bytes) {
+    append(byte, 8);
+  }
+  append(0, Math.min(4, capacityBits - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+
+  const result = new Uint8Array(capacityBits / 8);
+  for (let i = 0; i < bits.length; i++) {
+    result[i >>> 3] |= bits[i] << (7 - (i & 7));
+  }
+  // Alternating pad bytes fill the remaining capacity
+  for (let i = bits.length / 8, pad = 0xec; i < result.length; i++, pad ^= 0xec ^ 0x11) {
+    result[i] = pad;
+  }
+  return result;
+}
+
+/**
+ * Splits data codewords into blocks, appends error correction to each and
+ * interleaves the result.
+ */
+function addErrorCorrection(
+  data: Uint8Array,
+  version: number,
+  level: QRErrorCorrectionLevel
+): Uint8Array {
+  const index = LEVEL_INDEX[level];
+  const blockCount = ERROR_CORRECTION_BLOCKS[index][version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[index][version];
+  const rawCodewords = Math.floor(getRawDataModuleCount(version) / 8);
+  const shortBlockCount = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const generator = reedSolomonGenerator(eccLength);
+
+  const blocks: Array<{ data: Uint8Array; ecc: Uint8Array }> = [];
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const dataLength = shortBlockLength - eccLength + (i < shortBlockCount ? 0 : 1);
+    const blockData = data.subarray(offset, offset + dataLength);
+    offset += dataLength;
+    blocks.push({ data: blockData, ecc: reedSolomonRemainder(blockData, generator) });
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i <= shortBlockLength - eccLength; i++) {
+    for (const block of blocks) {
+      // Short blocks have one data codeword fewer
+      if (i < block.data.length) {
+        result.push(block.data[i]);
+      }
+    }
+  }
+  for (let i = 0; i < eccLength; i++) {
+    for (const block of blocks) {
+      result.push(block.ecc[i]);
+    }
+  }
+  return Uint8Array.from(result);
+}
+
+/**
+ * Module grid being drawn, tracking which modules belong to function patterns.
+ */
+class QRMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  private readonly version: number;
+  private readonly isFunction: boolean[][];
+
+  constructor(version: number) {
+    this.version = version;
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () =>
+      new Array<boolean>(this.size).fill(false)
+    );
+    this.isFunction = Array.from({ length: this.size }, () =>
+      new Array<boolean>(this.size).fill(false)
+    );
+  }
+
+  drawFunctionPatterns(): void {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunctionModule(6, i, i % 2 === 0);
+      this.setFunctionModule(i, 6, i % 2 === 0);
+    }
+
+    this.drawFinderPattern(3, 3);
+    this.drawFinderPattern(this.size - 4, 3);
+    this.drawFinderPattern(3, this.size - 4);
+
+    const positions = this.getAlignmentPatternPositions();
+    const last = positions.length - 1;
+    for (let i = 0; i <= last; i++) {
+      for (let j = 0; j <= last; j++) {
+        // Skip the three corners taken by finder patterns
+        if (!((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0))) {
+          this.drawAlignmentPattern(positions[i], positions[j]);
+        }
+      }
+    }
+
+    // Reserve the format areas; the real bits are drawn once the mask is chosen
+    this.drawFormatBits("M", 0);
+    this.drawVersionBits();
+  }
+
+  drawCodewords(codewords: Uint8Array): void {
+    let bit = 0;
+    // Two-module columns zigzag from the bottom right, skipping the vertical timing pattern
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) {
+        right = 5;
+      }
+      const upward = ((right + 1) & 2) === 0;
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        const y = upward ? this.size - 1 - vertical : vertical;
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          if (!this.isFunction[y][x] && bit < codewords.length * 8) {
+            this.modules[y][x] = ((codewords[bit >>> 3] >>> (7 - (bit & 7))) & 1) === 1;
+            bit++;
+          }
+          // Remainder bits are left light
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number): void {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && isMasked(mask, x, y)) {
+          this.modules[y][x] = !this.modules[y][x];
+        }
+      }
+    }
+  }
+
+  drawFormatBits(level: QRErrorCorrectionLevel, mask: number): void {
+    const data = (LEVEL_FORMAT_BITS[level] << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+    const bitAt = (i: number) => ((bits >>> i) & 1) === 1;
+
+    // Around the top left finder
+    for (let i = 0; i <= 5; i++) {
+      this.setFunctionModule(8, i, bitAt(i));
+    }
+    this.setFunctionModule(8, 7, bitAt(6));
+    this.setFunctionModule(8, 8, bitAt(7));
+    this.setFunctionModule(7, 8, bitAt(8));
+    for (let i = 9; i < 15; i++) {
+      this.setFunctionModule(14 - i, 8, bitAt(i));
+    }
+
+    // Split between the top right and bottom left finders
+    for (let i = 0; i < 8; i++) {
+      this.setFunctionModule(this.size - 1 - i, 8, bitAt(i));
+    }
+    for (let i = 8; i < 15; i++) {
+      this.setFunctionModule(8, this.size - 15 + i, bitAt(i));
+    }
+    this.setFunctionModule(8, this.size - 8, true);
+  }
+
+  /**
+   * Scores how hard the current pattern is to scan, per ISO/IEC 18004 section 7.8.3.
+   */
+  getPenaltyScore(): number {
+    let penalty = 0;
+    const lines: boolean[][] = [...this.modules];
+    for (let x = 0; x < this.size; x++) {
+      lines.push(this.modules.map((row) => row[x]));
+    }
+
+    for (const line of lines) {
+      // Runs of five or more modules of the same color
+      let runLength = 1;
+      for (let i = 1; i <= line.length; i++) {
+        if (i < line.length && line[i] === line[i - 1]) {
+          runLength++;
+          continue;
+        }
+        if (runLength >= 5) {
+          penalty += runLength - 2;
+        }
+        runLength = 1;
+      }
+      // Patterns that look like a finder
+      for (let i = 0; i + 11 <= line.length; i++) {
+        if (matchesFinderLike(line, i)) {
+          penalty += 40;
+        }
+      }
+    }
+
+    // 2x2 blocks of the same color
+    let dark = 0;
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        const color = this.modules[y][x];
+        if (color) {
+          dark++;
+        }
+        if (
+          x + 1 < this.size &&
+          y + 1 < this.size &&
+          color === this.modules[y][x + 1] &&
+          color === this.modules[y + 1][x] &&
+          color === this.modules[y + 1][x + 1]
+        ) {
+          penalty += 3;
+        }
+      }
+    }
+
+    // Imbalance between dark and light modules
+    const total = this.size * this.size;
+    penalty += Math.max(0, Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+    return penalty;
+  }
+
+  private drawVersionBits(): void {
+    if (this.version < 7) {
+      return;
+    }
+    let remainder = this.version;
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    }
+    const bits = (this.version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const bit = ((bits >>> i) & 1) === 1;
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunctionModule(a, b, bit);
+      this.setFunctionModule(b, a, bit);
+    }
+  }
+
+  private drawFinderPattern(centerX: number, centerY: number): void {
+    // Includes the light separator around the pattern
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = centerX + dx;
+        const y = centerY + dy;
+        if (x >= 0 && x < this.size && y >= 0 && y < this.size) {
+          const distance = Math.max(Math.abs(dx), Math.abs(dy));
+          this.setFunctionModule(x, y, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  }
+
+  private drawAlignmentPattern(centerX: number, centerY: number): void {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        this.setFunctionModule(centerX + dx, centerY + dy, distance !== 1);
+      }
+    }
+  }
+
+  private getAlignmentPatternPositions(): number[] {
+    if (this.version === 1) {
+      return [];
+    }
+    const count = Math.floor(this.version / 7) + 2;
+    const step = Math.floor((this.version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+    const positions = [6];
+    for (let position = this.size - 7; positions.length < count; position -= step) {
+      positions.splice(1, 0, position);
+    }
+    return positions;
+  }
+
+  private setFunctionModule(x: number, y: number, dark: boolean): void {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+}
+
+function isMasked(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0:
+      return (x + y) % 2 === 0;
+    case 1:
+      return y % 2 === 0;
+    case 2:
+      return x % 3 === 0;
+    case 3:
+      return (x + y) % 3 === 0;
+    case 4:
+      return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5:
+      return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6:
+      return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default:
+      return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+  }
+}
+
+const FINDER_LIKE = [true, false, true, true, true, false, true, false, false, false, false];
+
+/**
+ * True if 11 modules from `start` read dark-light-dark-dark-dark-light-dark
+ * next to four light modules, in either direction.
+ */
+function matchesFinderLike(line: boolean[], start: number): boolean {
+  let forward = true;
+  let backward = true;
+  for (let i = 0; i < FINDER_LIKE.length; i++) {
+    forward &&= line[start + i] === FINDER_LIKE[i];
+    backward &&= line[start + i] === FINDER_LIKE[FINDER_LIKE.length - 1 - i];
+  }
+  return forward || backward;
+}
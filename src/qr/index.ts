@@ -0,0 +1,15 @@
+export {
+  encodeQR,
+  getQRByteCapacity,
+  type QRCode,
+  type QREncodeOptions,
+  type QRErrorCorrectionLevel,
+} from "./encoder.js";
+export {
+  renderQRTerminal,
+  renderQRSvg,
+  renderQRPng,
+  type QRTerminalOptions,
+  type QRImageOptions,
+  type QRSvgOptions,
+} from "./render.js";
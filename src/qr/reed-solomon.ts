@@ -0,0 +1,50 @@
+/** QR codes use GF(2^8) with the primitive polynomial x^8 + x^4 + x^3 + x^2 + 1 */
+const GF_POLYNOMIAL = 0x11d;
+
+/**
+ * Multiplies two elements of GF(2^8).
+ */
+function gfMultiply(a: number, b: number): number {
+  let result = 0;
+  for (let i = 7; i >= 0; i--) {
+    result = (result << 1) ^ ((result >>> 7) * GF_POLYNOMIAL);
+    result ^= ((b >>> i) & 1) * a;
+  }
+  return result;
+}
+
+/**
+ * Returns the generator polynomial for the given number of error correction
+ * codewords, highest power first with the leading 1 omitted.
+ */
+export function reedSolomonGenerator(degree: number): Uint8Array {
+  const result = new Uint8Array(degree);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < degree) {
+        result[j] ^= result[j + 1];
+      }
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+/**
+ * Computes the error correction codewords for a block of data codewords.
+ */
+export function reedSolomonRemainder(data: Uint8Array, generator: Uint8Array): Uint8Array {
+  const result = new Uint8Array(generator.length);
+  for (const byte of data) {
+    const factor = byte ^ result[0];
+    result.copyWithin(0, 1);
+    result[result.length - 1] = 0;
+    for (let i = 0; i < result.length; i++) {
+      result[i] ^= gfMultiply(generator[i], factor);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,163 @@
+import pako from "pako";
+import type { QRCode } from "./encoder.js";
+
+/** Scanners need a light border of four modules around the code */
+const DEFAULT_MARGIN = 4;
+const DEFAULT_SCALE = 8;
+
+export interface QRTerminalOptions {
+  /**
+   * `unicode` draws light modules with half-block characters in the terminal's
+   * foreground color, for dark terminal themes. `ansi` sets black and white
+   * explicitly, so it scans on any theme (default: unicode)
+   */
+  style?: "unicode" | "ansi";
+  /** Swap dark and light in `unicode` style, for light terminal themes */
+  invert?: boolean;
+  /** Quiet zone in modules (default: 4) */
+  margin?: number;
+}
+
+export interface QRImageOptions {
+  /** Pixels per module (default: 8) */
+  scale?: number;
+  /** Quiet zone in modules (default: 4) */
+  margin?: number;
+}
+
+export interface QRSvgOptions extends QRImageOptions {
+  /** Color of dark modules (default: #000) */
+  dark?: string;
+  /** Background color (default: #fff) */
+  light?: string;
+}
+
+/**
+ * Renders a QR code for a terminal, two module rows per line of text.
+ */
+export function renderQRTerminal(qr: QRCode, options: QRTerminalOptions = {}): string {
+  const margin = options.margin ?? DEFAULT_MARGIN;
+  const width = qr.size + margin * 2;
+  const isDark = (x: number, y: number) => qr.modules[y - margin]?.[x - margin] ?? false;
+
+  const lines: string[] = [];
+  for (let y = 0; y < width; y += 2) {
+    let line = "";
+    for (let x = 0; x < width; x++) {
+      // Past the bottom edge counts as quiet zone
+      const top = isDark(x, y);
+      const bottom = y + 1 < width ? isDark(x, y + 1) : false;
+      if (options.style === "ansi") {
+        line += `\x1b[${top ? 30 : 37}m\x1b[${bottom ? 40 : 47}m▀`;
+      } else {
+        const topLit = top === !!options.invert;
+        const bottomLit = bottom === !!options.invert;
+        line += topLit ? (bottomLit ? "█" : "▀") : bottomLit ? "▄" : " ";
+      }
+    }
+    lines.push(options.style === "ansi" ? `${line}\x1b[0m` : line);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Renders a QR code as an SVG document.
+ */
+export function renderQRSvg(qr: QRCode, options: QRSvgOptions = {}): string {
+  const margin = options.margin ?? DEFAULT_MARGIN;
+  const scale = options.scale ?? DEFAULT_SCALE;
+  const width = qr.size + margin * 2;
+
+  let path = "";
+  for (let y = 0; y < qr.size; y++) {
+    for (let x = 0; x < qr.size; x++) {
+      if (qr.modules[y][x]) {
+        path += `M${x + margin},${y + margin}h1v1h-1z`;
+      }
+    }
+  }
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width * scale}" height="${width * scale}"` +
+      ` viewBox="0 0 ${width} ${width}" shape-rendering="crispEdges">`,
+    `<rect width="${width}" height="${width}" fill="${options.light ?? "#fff"}"/>`,
+    `<path d="${path}" fill="${options.dark ?? "#000"}"/>`,
+    "</svg>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Renders a QR code as a black and white PNG image.
+ */
+export function renderQRPng(qr: QRCode, options: QRImageOptions = {}): Uint8Array {
+  const margin = options.margin ?? DEFAULT_MARGIN;
+  const scale = options.scale ?? DEFAULT_SCALE;
+  const width = (qr.size + margin * 2) * scale;
+
+  // 8-bit grayscale scanlines, each prefixed with filter type 0 (none)
+  const pixels = new Uint8Array((width + 1) * width);
+  for (let py = 0; py < width; py++) {
+    const row = py * (width + 1);
+    const y = Math.floor(py / scale) - margin;
+    for (let px = 0; px < width; px++) {
+      const x = Math.floor(px / scale) - margin;
+      pixels[row + 1 + px] = qr.modules[y]?.[x] ? 0x00 : 0xff;
+    }
+  }
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, width);
+  header[8] = 8; // bit depth
+  header[9] = 0; // grayscale
+
+  return concatBytes([
+    PNG_SIGNATURE,
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", pako.deflate(pixels)),
+    pngChunk("IEND", new Uint8Array(0)),
+  ]);
+}
+
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Builds a PNG chunk: length, type, data and a CRC over type and data.
+ */
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(new TextEncoder().encode(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
@@ -0,0 +1,17 @@
+export { type InviteSigner, LocalInviteSigner, isInviteSigner } from "./invite-signer.js";
+
+export {
+  KeystoreInviteSigner,
+  encryptKeystore,
+  writeKeystoreFile,
+  type Keystore,
+  type KeystoreOptions,
+} from "./keystore-signer.js";
+
+export {
+  RemoteInviteSigner,
+  serveInviteSigner,
+  type RemoteInviteSignerOptions,
+  type SignerRequest,
+  type SignerResponse,
+} from "./remote-signer.js";
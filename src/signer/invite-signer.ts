@@ -0,0 +1,57 @@
+import { deriveInviteKey } from "../crypto/hkdf.js";
+import { getPublicKey, signWithRecovery } from "../crypto/secp256k1.js";
+import { hexToBytes } from "../utils/hex.js";
+
+/**
+ * Performs the private-key operations of the invite pipeline.
+ * Implement this interface to keep the creator's key out of process memory,
+ * e.g. in a hardware module or a separate signing process.
+ */
+export interface InviteSigner {
+  /** Returns the signer's secp256k1 public key (uncompressed, 65 bytes) */
+  getPublicKey(): Promise<Uint8Array>;
+  /** Signs a 32-byte message hash. Returns r (32) + s (32) + recovery ID (1) */
+  signHash(messageHash: Uint8Array): Promise<Uint8Array>;
+  /** Derives the 32-byte symmetric key used to encrypt conversation tokens for an inbox */
+  deriveInviteKey(inboxId: string): Promise<Uint8Array>;
+}
+
+/**
+ * Signer backed by a private key held in memory.
+ */
+export class LocalInviteSigner implements InviteSigner {
+  private readonly privateKey: Uint8Array;
+
+  /**
+   * @param privateKey 32-byte key, or hex string with or without 0x prefix
+   */
+  constructor(privateKey: Uint8Array | string) {
+    this.privateKey =
+      typeof privateKey === "string" ? hexToBytes(privateKey.replace(/^0x/, "")) : privateKey;
+  }
+
+  async getPublicKey(): Promise<Uint8Array> {
+    return getPublicKey(this.privateKey);
+  }
+
+  async signHash(messageHash: Uint8Array): Promise<Uint8Array> {
+    return signWithRecovery(messageHash, this.privateKey);
+  }
+
+  async deriveInviteKey(inboxId: string): Promise<Uint8Array> {
+    return deriveInviteKey(this.privateKey, inboxId);
+  }
+}
+
+/**
+ * Returns true if the value implements InviteSigner.
+ */
+export function isInviteSigner(value: unknown): value is InviteSigner {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as InviteSigner).getPublicKey === "function" &&
+    typeof (value as InviteSigner).signHash === "function" &&
+    typeof (value as InviteSigner).deriveInviteKey === "function"
+  );
+}
@@ -0,0 +1,136 @@
+import { encrypt, decrypt } from "../crypto/chacha20poly1305.js";
+import { deriveInviteKey } from "../crypto/hkdf.js";
+import { getPublicKey, signWithRecovery } from "../crypto/secp256k1.js";
+import {
+  createScryptParams,
+  deriveKeyFromPassphrase,
+  type ScryptParams,
+} from "../crypto/passphrase.js";
+import { bytesToHex, hexToBytes } from "../utils/hex.js";
+import { readJsonFile, writeJsonFile } from "../utils/json-file.js";
+import type { InviteSigner } from "./invite-signer.js";
+
+const KEYSTORE_VERSION = 1;
+const KEYSTORE_AAD = new TextEncoder().encode("ConvosKeystoreV1");
+
+/**
+ * Encrypted private key file contents
+ */
+export interface Keystore {
+  version: number;
+  /** Uncompressed public key (hex), readable without the passphrase */
+  publicKey: string;
+  kdf: ScryptParams;
+  cipher: "chacha20poly1305";
+  /** nonce + ciphertext + tag (hex) */
+  ciphertext: string;
+}
+
+export interface KeystoreOptions {
+  /** scrypt CPU/memory cost, a power of two (default: 2^15) */
+  scryptN?: number;
+}
+
+/**
+ * Encrypts a private key with a passphrase.
+ */
+export async function encryptKeystore(
+  privateKey: Uint8Array,
+  passphrase: string,
+  options: KeystoreOptions = {}
+): Promise<Keystore> {
+  const kdf = createScryptParams(options.scryptN);
+  const kek = await deriveKeyFromPassphrase(passphrase, kdf);
+
+  return {
+    version: KEYSTORE_VERSION,
+    publicKey: bytesToHex(getPublicKey(privateKey)),
+    kdf,
+    cipher: "chacha20poly1305",
+    ciphertext: bytesToHex(encrypt(privateKey, kek, KEYSTORE_AAD)),
+  };
+}
+
+/**
+ * Encrypts a private key with a passphrase and writes it to a keystore file
+ * readable only by the owner.
+ */
+export async function writeKeystoreFile(
+  filePath: string,
+  privateKey: Uint8Array,
+  passphrase: string,
+  options?: KeystoreOptions
+): Promise<Keystore> {
+  const keystore = await encryptKeystore(privateKey, passphrase, options);
+  writeJsonFile(filePath, keystore, { mode: 0o600 });
+  return keystore;
+}
+
+/**
+ * Signer backed by an encrypted keystore file.
+ * The private key is decrypted only for the duration of each operation and
+ * wiped afterwards; between operations only the encrypted key is held.
+ */
+export class KeystoreInviteSigner implements InviteSigner {
+  private readonly keystore: Keystore;
+  private readonly kek: Uint8Array;
+
+  private constructor(keystore: Keystore, kek: Uint8Array) {
+    this.keystore = keystore;
+    this.kek = kek;
+  }
+
+  /**
+   * Unlocks a keystore.
+   *
+   * @throws Error if the keystore is unsupported or the passphrase is wrong
+   */
+  static async fromKeystore(keystore: Keystore, passphrase: string): Promise<KeystoreInviteSigner> {
+    if (keystore.version !== KEYSTORE_VERSION || keystore.kdf.name !== "scrypt") {
+      throw new Error(`Unsupported keystore version: ${keystore.version}`);
+    }
+    const signer = new KeystoreInviteSigner(keystore, await deriveKeyFromPassphrase(passphrase, keystore.kdf));
+    // Fail fast on a wrong passphrase instead of on first use
+    signer.withPrivateKey(() => undefined);
+    return signer;
+  }
+
+  /**
+   * Reads and unlocks a keystore file.
+   *
+   * @throws Error if the file does not exist, is unsupported, or the passphrase is wrong
+   */
+  static async fromFile(filePath: string, passphrase: string): Promise<KeystoreInviteSigner> {
+    const keystore = readJsonFile<Keystore | null>(filePath, null);
+    if (!keystore) {
+      throw new Error(`Keystore not found: ${filePath}`);
+    }
+    return KeystoreInviteSigner.fromKeystore(keystore, passphrase);
+  }
+
+  async getPublicKey(): Promise<Uint8Array> {
+    return hexToBytes(this.keystore.publicKey);
+  }
+
+  async signHash(messageHash: Uint8Array): Promise<Uint8Array> {
+    return this.withPrivateKey((privateKey) => signWithRecovery(messageHash, privateKey));
+  }
+
+  async deriveInviteKey(inboxId: string): Promise<Uint8Array> {
+    return this.withPrivateKey((privateKey) => deriveInviteKey(privateKey, inboxId));
+  }
+
+  private withPrivateKey<T>(operation: (privateKey: Uint8Array) => T): T {
+    let privateKey: Uint8Array;
+    try {
+      privateKey = decrypt(hexToBytes(this.keystore.ciphertext), this.kek, KEYSTORE_AAD);
+    } catch {
+      throw new Error("Failed to unlock keystore: wrong passphrase or corrupted file");
+    }
+    try {
+      return operation(privateKey);
+    } finally {
+      privateKey.fill(0);
+    }
+  }
+}
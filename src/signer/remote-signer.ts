@@ -0,0 +1,184 @@
+import * as net from "node:net";
+import { bytesToHex, hexToBytes } from "../utils/hex.js";
+import { serveJsonLines } from "../utils/json-line-server.js";
+import type { InviteSigner } from "./invite-signer.js";
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+/**
+ * Request sent to a signer socket, one JSON object per line
+ */
+export interface SignerRequest {
+  id: number;
+  method: "getPublicKey" | "signHash" | "deriveInviteKey";
+  /** hex message hash for `signHash`, inbox ID for `deriveInviteKey` */
+  params?: string;
+}
+
+/**
+ * Response from a signer socket, one JSON object per line
+ */
+export interface SignerResponse {
+  id: number;
+  /** hex-encoded result bytes */
+  result?: string;
+  error?: string;
+}
+
+export interface RemoteInviteSignerOptions {
+  /** How long to wait for each response in milliseconds (default: 10 seconds) */
+  timeoutMs?: number;
+}
+
+/**
+ * Signer that forwards operations to a signing process over a Unix socket.
+ * The private key never enters this process. See `serveInviteSigner` for the
+ * matching server.
+ */
+export class RemoteInviteSigner implements InviteSigner {
+  private readonly socketPath: string;
+  private readonly timeoutMs: number;
+  private nextId = 1;
+  private publicKey?: Uint8Array;
+
+  constructor(socketPath: string, options: RemoteInviteSignerOptions = {}) {
+    this.socketPath = socketPath;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  async getPublicKey(): Promise<Uint8Array> {
+    if (!this.publicKey) {
+      this.publicKey = await this.request("getPublicKey");
+    }
+    return this.publicKey;
+  }
+
+  signHash(messageHash: Uint8Array): Promise<Uint8Array> {
+    return this.request("signHash", bytesToHex(messageHash));
+  }
+
+  deriveInviteKey(inboxId: string): Promise<Uint8Array> {
+    return this.request("deriveInviteKey", inboxId);
+  }
+
+  private request(method: SignerRequest["method"], params?: string): Promise<Uint8Array> {
+    const request: SignerRequest = { id: this.nextId++, method, params };
+
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection(this.socketPath);
+      let buffer = "";
+      let done = false;
+
+      const finish = (error: Error | null, result?: Uint8Array) => {
+        if (done) {
+          return;
+        }
+        done = true;
+        clearTimeout(timer);
+        socket.destroy();
+        if (error) {
+          reject(error);
+        } else {
+          resolve(result!);
+        }
+      };
+
+      const timer = setTimeout(
+        () => finish(new Error(`Remote signer timed out after ${this.timeoutMs}ms`)),
+        this.timeoutMs
+      );
+
+      socket.setEncoding("utf-8");
+      socket.on("connect", () => socket.write(JSON.stringify(request) + "\n"));
+      socket.on("data", (chunk: string) => {
+        buffer += chunk;
+        const newline = buffer.indexOf("\n");
+        if (newline === -1) {
+          return;
+        }
+        let response: SignerResponse;
+        try {
+          response = JSON.parse(buffer.slice(0, newline)) as SignerResponse;
+        } catch {
+          finish(new Error("Remote signer sent an invalid response"));
+          return;
+        }
+        if (response.id !== request.id) {
+          finish(new Error("Remote signer response does not match request"));
+        } else if (response.error !== undefined || response.result === undefined) {
+          finish(new Error(`Remote signer error: ${response.error ?? "empty response"}`));
+        } else {
+          finish(null, hexToBytes(response.result));
+        }
+      });
+      socket.on("error", (err) =>
+        finish(new Error(`Remote signer unavailable at ${this.socketPath}: ${err.message}`))
+      );
+      socket.on("close", () => finish(new Error("Remote signer closed the connection")));
+    });
+  }
+}
+
+/**
+ * Serves a signer on a Unix socket for `RemoteInviteSigner` clients.
+ * A stale socket file at the path is replaced, and the socket is made
+ * accessible to the owner only.
+ *
+ * @example
+ * ```typescript
+ * const signer = await KeystoreInviteSigner.fromFile("./creator.keystore.json", passphrase);
+ * const server = await serveInviteSigner(signer, "/run/convos/signer.sock");
+ * ```
+ */
+export function serveInviteSigner(signer: InviteSigner, socketPath: string): Promise<net.Server> {
+  return serveJsonLines(socketPath, (line) => handleSignerRequest(signer, line));
+}
+
+/**
+ * Returns true if a parsed line is shaped like a request: an object with a
+ * numeric id, a string method and, if present, string params.
+ */
+function isSignerRequest(value: unknown): value is SignerRequest {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const { id, method, params } = value as Partial<SignerRequest>;
+  return (
+    typeof id === "number" &&
+    typeof method === "string" &&
+    (params === undefined || typeof params === "string")
+  );
+}
+
+async function handleSignerRequest(signer: InviteSigner, line: string): Promise<SignerResponse> {
+  let request: unknown;
+  try {
+    request = JSON.parse(line);
+  } catch {
+    return { id: 0, error: "Invalid request" };
+  }
+  if (!isSignerRequest(request)) {
+    return { id: 0, error: "Invalid request" };
+  }
+
+  try {
+    switch (request.method) {
+      case "getPublicKey":
+        return { id: request.id, result: bytesToHex(await signer.getPublicKey()) };
+      case "signHash":
+        return {
+          id: request.id,
+          result: bytesToHex(await signer.signHash(hexToBytes(request.params ?? ""))),
+        };
+      case "deriveInviteKey":
+        return {
+          id: request.id,
+          result: bytesToHex(await signer.deriveInviteKey(request.params ?? "")),
+        };
+      default:
+        return { id: request.id, error: `Unknown method: ${String(request.method)}` };
+    }
+  } catch (err) {
+    return { id: request.id, error: err instanceof Error ? err.message : String(err) };
+  }
+}
@@ -2,3 +2,10 @@ export { base64UrlEncode, base64UrlDecode } from "./base64url.js";
 export { compressIfSmaller, decompress, isCompressed } from "./compression.js";
 export { generateSecureRandomString, generateInviteTag } from "./random.js";
 export { hexToBytes, bytesToHex } from "./hex.js";
+export {
+  readJsonFile,
+  writeJsonFile,
+  writeFileAtomic,
+  type WriteJsonFileOptions,
+} from "./json-file.js";
+export { serveJsonLines, type JsonLineHandler } from "./json-line-server.js";
@@ -0,0 +1,62 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+export interface WriteJsonFileOptions {
+  /** File permissions, e.g. 0o600 for files holding secrets */
+  mode?: number;
+}
+
+/**
+ * Reads and parses a JSON file.
+ * Returns the fallback value if the file does not exist.
+ */
+export function readJsonFile<T>(filePath: string, fallback: T): T {
+  if (!fs.existsSync(filePath)) {
+    return fallback;
+  }
+  const content = fs.readFileSync(filePath, "utf-8");
+  return JSON.parse(content) as T;
+}
+
+/**
+ * Serializes a value to a JSON file, creating the parent directory if needed.
+ * The file is written to a temporary file and renamed into place, so readers
+ * and crashes never see a partial write.
+ */
+export function writeJsonFile(
+  filePath: string,
+  value: unknown,
+  options: WriteJsonFileOptions = {}
+): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  writeFileAtomic(filePath, JSON.stringify(value, null, 2), options.mode);
+}
+
+/**
+ * Writes a file by writing a sibling temporary file, flushing it to disk and
+ * renaming it over the target.
+ */
+export function writeFileAtomic(filePath: string, content: string, mode?: number): void {
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  const fd = fs.openSync(tempPath, "w", mode);
+  try {
+    fs.writeFileSync(fd, content);
+    fs.fsyncSync(fd);
+  } catch (err) {
+    fs.closeSync(fd);
+    fs.rmSync(tempPath, { force: true });
+    throw err;
+  }
+  fs.closeSync(fd);
+
+  try {
+    if (mode !== undefined) {
+      // openSync's mode is masked by the umask and ignored for existing files
+      fs.chmodSync(tempPath, mode);
+    }
+    fs.renameSync(tempPath, filePath);
+  } catch (err) {
+    fs.rmSync(tempPath, { force: true });
+    throw err;
+  }
+}
@@ -0,0 +1,70 @@
+import * as fs from "node:fs";
+import * as net from "node:net";
+
+/** Longest request line accepted; clients sending more are disconnected */
+const MAX_LINE_LENGTH = 64 * 1024;
+
+/**
+ * Answers one request line. The signal aborts when the client disconnects.
+ * If the handler rejects, the connection is closed without a response.
+ */
+export type JsonLineHandler = (line: string, signal: AbortSignal) => Promise<unknown>;
+
+/**
+ * Serves a Unix socket where clients send one JSON request per line and get
+ * each handler result back as one line of JSON. A stale socket file at the
+ * path is replaced. The socket is created accessible to the owner only, so no
+ * other user can connect even briefly, and removed when the server closes.
+ */
+export async function serveJsonLines(
+  socketPath: string,
+  handle: JsonLineHandler
+): Promise<net.Server> {
+  if (fs.existsSync(socketPath)) {
+    fs.unlinkSync(socketPath);
+  }
+
+  const server = net.createServer((socket) => {
+    const disconnected = new AbortController();
+    socket.on("close", () => disconnected.abort(new Error("Client disconnected")));
+    let buffer = "";
+    socket.setEncoding("utf-8");
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+      let newline: number;
+      while ((newline = buffer.indexOf("\n")) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 1);
+        // A handler that throws ends only this connection, not the server
+        void handle(line, disconnected.signal).then(
+          (response) => {
+            if (!socket.destroyed) {
+              socket.write(JSON.stringify(response) + "\n");
+            }
+          },
+          () => socket.destroy()
+        );
+      }
+      if (buffer.length > MAX_LINE_LENGTH) {
+        socket.destroy();
+      }
+    });
+    socket.on("error", () => socket.destroy());
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    // The socket file is created synchronously by listen(), so the umask
+    // only has to cover that call
+    const umask = process.umask(0o177);
+    try {
+      server.listen(socketPath, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    } finally {
+      process.umask(umask);
+    }
+  });
+  return server;
+}
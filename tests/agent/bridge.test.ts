@@ -0,0 +1,282 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  WebhookDispatcher,
+  createBridgeServer,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  type BridgeApi,
+  type MessageSummary,
+} from "../../src/agent/bridge.js";
+import type { PendingJoinRequest } from "../../src/middleware/index.js";
+
+const message: MessageSummary = {
+  conversationId: "conv-1",
+  senderInboxId: "inbox-1",
+  senderName: "Alice",
+  text: "hello",
+  content: "hello",
+};
+
+async function listen(server: http.Server): Promise<string> {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+async function close(server: http.Server): Promise<void> {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+}
+
+describe("webhook signatures", () => {
+  it("should verify signatures made with the same secret", () => {
+    const signature = signWebhookPayload("secret", 1700000000, "{}");
+
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature("secret", 1700000000, "{}", signature)).toBe(true);
+    expect(verifyWebhookSignature("other", 1700000000, "{}", signature)).toBe(false);
+    expect(verifyWebhookSignature("secret", 1700000001, "{}", signature)).toBe(false);
+  });
+});
+
+describe("WebhookDispatcher", () => {
+  let receiver: http.Server | undefined;
+
+  afterEach(async () => {
+    if (receiver) {
+      await close(receiver);
+      receiver = undefined;
+    }
+  });
+
+  /**
+   * Starts a receiver that answers with the given statuses in turn, then 200.
+   */
+  async function startReceiver(statuses: number[] = []) {
+    const deliveries: Array<{ headers: http.IncomingHttpHeaders; body: string }> = [];
+    receiver = http.createServer(async (req, res) => {
+      let body = "";
+      for await (const chunk of req) {
+        body += chunk;
+      }
+      deliveries.push({ headers: req.headers, body });
+      res.writeHead(statuses.shift() ?? 200).end();
+    });
+    return { url: await listen(receiver), deliveries };
+  }
+
+  it("should post signed events", async () => {
+    const { url, deliveries } = await startReceiver();
+    const dispatcher = new WebhookDispatcher({ urls: [url], secret: "secret" });
+
+    const event = await dispatcher.dispatch("message", message);
+
+    expect(deliveries).toHaveLength(1);
+    const [{ headers, body }] = deliveries;
+    expect(JSON.parse(body)).toEqual(event);
+    expect(event).toMatchObject({ type: "message", data: message });
+    expect(
+      verifyWebhookSignature(
+        "secret",
+        Number(headers["x-convos-timestamp"]),
+        body,
+        headers["x-convos-signature"] as string
+      )
+    ).toBe(true);
+  });
+
+  it("should retry server errors with the same event", async () => {
+    const { url, deliveries } = await startReceiver([500, 503]);
+    const dispatcher = new WebhookDispatcher({ urls: [url], secret: "secret", retryDelayMs: 1 });
+
+    await dispatcher.dispatch("message", message);
+
+    expect(deliveries).toHaveLength(3);
+    expect(new Set(deliveries.map((delivery) => JSON.parse(delivery.body).id)).size).toBe(1);
+  });
+
+  it("should not retry client errors", async () => {
+    const { url, deliveries } = await startReceiver([400]);
+    const onDeliveryFailed = vi.fn();
+    const dispatcher = new WebhookDispatcher({
+      urls: [url],
+      secret: "secret",
+      retryDelayMs: 1,
+      onDeliveryFailed,
+    });
+
+    const event = await dispatcher.dispatch("message", message);
+
+    expect(deliveries).toHaveLength(1);
+    expect(onDeliveryFailed).toHaveBeenCalledWith(url, event, expect.any(Error));
+    expect(onDeliveryFailed.mock.calls[0][2].message).toContain("responded with 400");
+  });
+
+  it("should give up after the last attempt", async () => {
+    const { url, deliveries } = await startReceiver([500, 500, 500]);
+    const onDeliveryFailed = vi.fn();
+    const dispatcher = new WebhookDispatcher({
+      urls: [url],
+      secret: "secret",
+      maxAttempts: 2,
+      retryDelayMs: 1,
+      onDeliveryFailed,
+    });
+
+    await dispatcher.dispatch("message", message);
+
+    expect(deliveries).toHaveLength(2);
+    expect(onDeliveryFailed).toHaveBeenCalledOnce();
+  });
+});
+
+describe("createBridgeServer", () => {
+  const pending: PendingJoinRequest = {
+    id: "req-1",
+    joinerInboxId: "joiner-1",
+    conversationId: "conv-1",
+    inviteTag: "tag-1",
+    inviteSlug: "slug",
+    inviteHash: "hash-1",
+    dmConversationId: "dm-1",
+    requestedAt: new Date("2026-01-01T00:00:00.000Z"),
+    expiresAt: new Date("2026-01-02T00:00:00.000Z"),
+  };
+  let server: http.Server | undefined;
+
+  afterEach(async () => {
+    if (server) {
+      await close(server);
+      server = undefined;
+    }
+  });
+
+  function createFakeApi() {
+    return {
+      sendToConversation: vi.fn(async () => {}),
+      broadcast: vi.fn(async () => {}),
+      createGroup: vi.fn(async () => ({ conversationId: "conv-2", inviteUrl: "https://invite" })),
+      listPendingJoins: vi.fn(async () => [pending]),
+      approveJoin: vi.fn(async () => pending),
+      denyJoin: vi.fn(async () => pending),
+    } satisfies BridgeApi;
+  }
+
+  async function start(api: BridgeApi) {
+    server = createBridgeServer(api, { token: "token-1" });
+    const baseUrl = await listen(server);
+    return (method: string, path: string, body?: unknown, headers: Record<string, string> = {}) =>
+      fetch(baseUrl + path, {
+        method,
+        headers: {
+          authorization: "Bearer token-1",
+          "content-type": "application/json",
+          ...headers,
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+  }
+
+  it("should send messages and broadcast", async () => {
+    const api = createFakeApi();
+    const request = await start(api);
+
+    const sent = await request("POST", "/messages", { conversationId: "conv-1", text: "hi" });
+    expect(sent.status).toBe(200);
+    expect(api.sendToConversation).toHaveBeenCalledWith("conv-1", "hi");
+
+    await request("POST", "/messages", { text: "hi all" });
+    expect(api.broadcast).toHaveBeenCalledWith("hi all");
+
+    const invalid = await request("POST", "/messages", {});
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toEqual({ error: "text is required" });
+  });
+
+  it("should create groups", async () => {
+    const api = createFakeApi();
+    const request = await start(api);
+
+    const response = await request("POST", "/groups", { name: "Team" });
+
+    expect(await response.json()).toEqual({
+      conversationId: "conv-2",
+      inviteUrl: "https://invite",
+    });
+    expect(api.createGroup).toHaveBeenCalledWith({ name: "Team", description: undefined });
+  });
+
+  it("should list, accept and reject pending join requests", async () => {
+    const api = createFakeApi();
+    const request = await start(api);
+
+    const list = (await (await request("GET", "/invites")).json()) as { invites: unknown[] };
+    expect(list.invites).toHaveLength(1);
+
+    expect((await request("POST", "/invites/req-1/accept")).status).toBe(200);
+    expect(api.approveJoin).toHaveBeenCalledWith("req-1");
+
+    await request("POST", "/invites/req-1/reject", { reason: "expired" });
+    expect(api.denyJoin).toHaveBeenCalledWith(
+      "req-1",
+      expect.objectContaining({ inviteTag: "tag-1" })
+    );
+
+    expect((await request("POST", "/invites/missing/accept")).status).toBe(404);
+  });
+
+  it("should report failures from the runtime", async () => {
+    const api = createFakeApi();
+    api.broadcast.mockRejectedValueOnce(new Error("network down"));
+    const request = await start(api);
+
+    const response = await request("POST", "/messages", { text: "hi" });
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: "network down" });
+  });
+
+  it("should require the bearer token", async () => {
+    const request = await start(createFakeApi());
+
+    expect((await request("GET", "/invites", undefined, { authorization: "" })).status).toBe(401);
+    expect(
+      (await request("GET", "/invites", undefined, { authorization: "Bearer token-2" })).status
+    ).toBe(401);
+    expect((await request("GET", "/invites")).status).toBe(200);
+  });
+
+  it("should refuse requests that web pages can send", async () => {
+    const api = createFakeApi();
+    const request = await start(api);
+
+    const fromPage = await request("GET", "/invites", undefined, {
+      origin: "https://example.com",
+    });
+    expect(fromPage.status).toBe(403);
+    const plainText = await request("POST", "/messages", { text: "hi" }, {
+      "content-type": "text/plain",
+    });
+    expect(plainText.status).toBe(415);
+    const form = await request("POST", "/invites/req-1/accept", undefined, {
+      "content-type": "application/x-www-form-urlencoded",
+    });
+    expect(form.status).toBe(415);
+    expect(api.broadcast).not.toHaveBeenCalled();
+    expect(api.approveJoin).not.toHaveBeenCalled();
+  });
+
+  it("should reject unknown routes and malformed bodies", async () => {
+    const request = await start(createFakeApi());
+
+    expect((await request("GET", "/nope")).status).toBe(404);
+    const response = await fetch(
+      `http://127.0.0.1:${(server!.address() as AddressInfo).port}/messages`,
+      {
+        method: "POST",
+        headers: { authorization: "Bearer token-1", "content-type": "application/json" },
+        body: "not json",
+      }
+    );
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,318 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "node:fs";
+import * as net from "node:net";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  DaemonClient,
+  connectDaemon,
+  createDaemonApi,
+  getDaemonSocketPath,
+  serveDaemon,
+  type DaemonApi,
+} from "../../src/agent/daemon.js";
+import type { AgentRuntime, MessageContext } from "../../src/agent/runtime.js";
+import type { AgentProfile } from "../../src/agent/state.js";
+import {
+  createGenericFailureError,
+  InviteJoinErrorType,
+} from "../../src/content-types/index.js";
+import type { PendingJoinRequest } from "../../src/middleware/index.js";
+
+const pendingJoin: PendingJoinRequest = {
+  id: "request-1",
+  joinerInboxId: "joiner-1",
+  conversationId: "conv-1",
+  inviteTag: "tag-1",
+  inviteSlug: "slug-conv-1",
+  inviteHash: "hash-1",
+  dmConversationId: "dm-1",
+  requestedAt: new Date("2030-01-01T00:00:00.000Z"),
+  expiresAt: new Date("2030-01-08T00:00:00.000Z"),
+};
+
+function createFakeApi(): DaemonApi & { sent: Array<[string | null, string]> } {
+  let profile: AgentProfile | undefined;
+  const sent: Array<[string | null, string]> = [];
+  return {
+    sent,
+    status: async () => ({ inboxId: "inbox-1", address: "0xabc" }),
+    sendToConversation: async (conversationId, text) => {
+      if (conversationId === "missing") {
+        throw new Error("Conversation not found: missing");
+      }
+      sent.push([conversationId, text]);
+    },
+    broadcast: async (text) => {
+      sent.push([null, text]);
+    },
+    listConversations: async () => ["conv-1", "conv-2"],
+    getProfile: async () => profile,
+    saveProfile: async (next) => {
+      profile = next;
+    },
+    getInviteTag: async (conversationId) => (conversationId === "conv-1" ? "tag-1" : undefined),
+    createInvite: async (conversationId) => ({
+      slug: `slug-${conversationId}`,
+      url: `https://dev.convos.org/v2?i=slug-${conversationId}`,
+      qrData: `https://dev.convos.org/v2?i=slug-${conversationId}`,
+      length: `slug-${conversationId}`.length,
+      trimmedFields: [],
+      droppedFields: [],
+    }),
+    rotateInviteTag: async () => "tag-2",
+    listPendingJoins: async () => [pendingJoin],
+    approveJoin: async () => pendingJoin,
+    denyJoin: async () => pendingJoin,
+  };
+}
+
+describe("daemon", () => {
+  let dataDir: string;
+  let socketPath: string;
+  let server: net.Server | undefined;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "convos-daemon-"));
+    socketPath = getDaemonSocketPath(dataDir);
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+    server = undefined;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("should serve the API to clients", async () => {
+    const api = createFakeApi();
+    server = await serveDaemon(api, socketPath);
+    const client = new DaemonClient(socketPath);
+
+    expect(await client.status()).toEqual({ inboxId: "inbox-1", address: "0xabc" });
+    expect(await client.listConversations()).toEqual(["conv-1", "conv-2"]);
+    await client.sendToConversation("conv-1", "hello");
+    await client.broadcast("hello all");
+    expect(api.sent).toEqual([
+      ["conv-1", "hello"],
+      [null, "hello all"],
+    ]);
+  });
+
+  it("should round-trip profiles, including no profile", async () => {
+    server = await serveDaemon(createFakeApi(), socketPath);
+    const client = new DaemonClient(socketPath);
+
+    expect(await client.getProfile()).toBeUndefined();
+    await client.saveProfile({ name: "Agent" });
+    expect(await client.getProfile()).toEqual({ name: "Agent" });
+  });
+
+  it("should return invite tags, including none", async () => {
+    server = await serveDaemon(createFakeApi(), socketPath);
+    const client = new DaemonClient(socketPath);
+
+    expect(await client.getInviteTag("conv-1")).toBe("tag-1");
+    expect(await client.getInviteTag("conv-2")).toBeUndefined();
+  });
+
+  it("should create invites and rotate invite tags", async () => {
+    server = await serveDaemon(createFakeApi(), socketPath);
+    const client = new DaemonClient(socketPath);
+
+    expect((await client.createInvite("conv-1")).slug).toBe("slug-conv-1");
+    expect(await client.rotateInviteTag("conv-1")).toBe("tag-2");
+  });
+
+  it("should pass invite expiry dates to the runtime as dates", async () => {
+    const createInvite = vi.fn(async () => ({
+      slug: "s",
+      url: "u",
+      qrData: "u",
+      length: 1,
+      trimmedFields: [],
+      droppedFields: [],
+    }));
+    const runtime = { createInvite } as unknown as AgentRuntime;
+    server = await serveDaemon(createDaemonApi(runtime), socketPath);
+    const expiresAt = new Date("2030-01-01T00:00:00.000Z");
+
+    await new DaemonClient(socketPath).createInvite("conv-1", {
+      name: "Team",
+      expiresAt,
+      expiresAfterUse: true,
+    });
+
+    expect(createInvite).toHaveBeenCalledWith("conv-1", {
+      name: "Team",
+      expiresAt,
+      conversationExpiresAt: undefined,
+      expiresAfterUse: true,
+    });
+  });
+
+  it("should return pending join requests with their dates", async () => {
+    server = await serveDaemon(createFakeApi(), socketPath);
+    const client = new DaemonClient(socketPath);
+
+    expect(await client.listPendingJoins()).toEqual([pendingJoin]);
+    expect(await client.approveJoin("request-1")).toEqual(pendingJoin);
+    expect(await client.denyJoin("request-1")).toEqual(pendingJoin);
+  });
+
+  it("should pass join errors to the runtime with their timestamp as a date", async () => {
+    const denyJoin = vi.fn(async () => pendingJoin);
+    const runtime = { denyJoin } as unknown as AgentRuntime;
+    server = await serveDaemon(createDaemonApi(runtime), socketPath);
+    const error = createGenericFailureError("tag-1");
+
+    await new DaemonClient(socketPath).denyJoin("request-1", error);
+
+    expect(denyJoin).toHaveBeenCalledWith("request-1", {
+      errorType: InviteJoinErrorType.GenericFailure,
+      inviteTag: "tag-1",
+      timestamp: error.timestamp,
+    });
+  });
+
+  it("should wait for the next message matching the filter", async () => {
+    const messages = [
+      { conversationId: "conv-2", text: "hello" },
+      { conversationId: "conv-1", text: "ping" },
+      { conversationId: "conv-1", text: "hello world" },
+    ].map(({ conversationId, text }) => ({
+      conversationId,
+      senderInboxId: "sender-1",
+      senderName: "Sender",
+      content: text,
+      send: async () => {},
+    }));
+    const runtime = {
+      waitForMessage: async (match: (ctx: MessageContext) => boolean) => messages.find(match),
+    } as unknown as AgentRuntime;
+    server = await serveDaemon(createDaemonApi(runtime), socketPath);
+
+    const summary = await new DaemonClient(socketPath).waitForMessage({
+      conversationId: "conv-1",
+      pattern: "^hello",
+    });
+
+    expect(summary).toMatchObject({ conversationId: "conv-1", text: "hello world" });
+  });
+
+  it("should abort a wait when the client disconnects", async () => {
+    const aborted = vi.fn();
+    const runtime = {
+      acceptNextInvite: (signal: AbortSignal) =>
+        new Promise((_, reject) =>
+          signal.addEventListener("abort", () => {
+            aborted();
+            reject(signal.reason);
+          })
+        ),
+    } as unknown as AgentRuntime;
+    server = await serveDaemon(createDaemonApi(runtime), socketPath);
+
+    const request = { jsonrpc: "2.0", id: 1, method: "acceptNextInvite", params: [] };
+    const socket = net.createConnection(socketPath, () => {
+      socket.write(JSON.stringify(request) + "\n", () => setTimeout(() => socket.destroy(), 20));
+    });
+
+    await vi.waitFor(() => expect(aborted).toHaveBeenCalled());
+  });
+
+  it("should surface errors thrown by the API", async () => {
+    server = await serveDaemon(createFakeApi(), socketPath);
+
+    await expect(
+      new DaemonClient(socketPath).sendToConversation("missing", "hello")
+    ).rejects.toThrow("Conversation not found: missing");
+  });
+
+  it("should reject unknown methods and malformed requests", async () => {
+    const api = createFakeApi();
+    const spy = vi.spyOn(api, "status");
+    server = await serveDaemon(api, socketPath);
+
+    const send = (line: string) =>
+      new Promise<string>((resolve) => {
+        const socket = net.createConnection(socketPath, () => socket.write(line + "\n"));
+        socket.setEncoding("utf-8");
+        socket.once("data", (data: string) => {
+          socket.destroy();
+          resolve(data);
+        });
+      });
+
+    const unknown = JSON.parse(
+      await send(JSON.stringify({ jsonrpc: "2.0", id: 7, method: "constructor" }))
+    );
+    expect(unknown).toEqual({
+      jsonrpc: "2.0",
+      id: 7,
+      error: { code: -32601, message: "Unknown method: constructor" },
+    });
+
+    const malformed = JSON.parse(await send("not json"));
+    expect(malformed.error.code).toBe(-32700);
+    expect(spy).not.toHaveBeenCalled();
+  });
+
+  it("should answer JSON that is not a request object with an invalid request error", async () => {
+    server = await serveDaemon(createFakeApi(), socketPath);
+
+    for (const line of ["null", "1", '"status"', JSON.stringify({ id: 1, method: 5 })]) {
+      const response = await new Promise<string>((resolve) => {
+        const socket = net.createConnection(socketPath, () => socket.write(line + "\n"));
+        socket.setEncoding("utf-8");
+        socket.once("data", (data: string) => {
+          socket.destroy();
+          resolve(data);
+        });
+      });
+      expect(JSON.parse(response)).toEqual({
+        jsonrpc: "2.0",
+        id: null,
+        error: { code: -32600, message: "Invalid request" },
+      });
+    }
+
+    expect(await new DaemonClient(socketPath).listConversations()).toEqual(["conv-1", "conv-2"]);
+  });
+
+  it("should disconnect clients that send overlong lines", async () => {
+    server = await serveDaemon(createFakeApi(), socketPath);
+
+    const closed = await new Promise<boolean>((resolve) => {
+      const socket = net.createConnection(socketPath, () => socket.write("x".repeat(100_000)));
+      socket.on("error", () => {});
+      socket.on("close", () => resolve(true));
+    });
+
+    expect(closed).toBe(true);
+  });
+
+  it("should make the socket accessible to the owner only", async () => {
+    server = await serveDaemon(createFakeApi(), socketPath);
+
+    expect(fs.statSync(socketPath).mode & 0o777).toBe(0o600);
+  });
+
+  describe("connectDaemon", () => {
+    it("should connect to a running daemon", async () => {
+      server = await serveDaemon(createFakeApi(), socketPath);
+
+      const client = await connectDaemon(dataDir);
+      expect(await client?.listConversations()).toEqual(["conv-1", "conv-2"]);
+    });
+
+    it("should return null when no daemon is running", async () => {
+      expect(await connectDaemon(dataDir)).toBeNull();
+    });
+
+    it("should return null for a socket left by a daemon that exited", async () => {
+      fs.writeFileSync(socketPath, "");
+
+      expect(await connectDaemon(dataDir)).toBeNull();
+    });
+  });
+});
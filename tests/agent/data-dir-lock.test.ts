@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { spawnSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { acquireDataDirLock, withDataDirLock } from "../../src/agent/data-dir-lock.js";
+
+describe("data directory lock", () => {
+  let dataDir: string;
+  let lockPath: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "convos-lock-"));
+    lockPath = path.join(dataDir, "agent.lock");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  function writeLock(pid: number, hostname = os.hostname()): void {
+    fs.writeFileSync(
+      lockPath,
+      JSON.stringify({ pid, hostname, acquiredAt: "2026-01-01T00:00:00.000Z" })
+    );
+  }
+
+  it("should hold the data directory until released", () => {
+    const lock = acquireDataDirLock(dataDir);
+    expect(JSON.parse(fs.readFileSync(lockPath, "utf-8")).pid).toBe(process.pid);
+
+    expect(() => acquireDataDirLock(dataDir)).toThrow(`is in use by process ${process.pid}`);
+
+    lock.release();
+    expect(fs.existsSync(lockPath)).toBe(false);
+    acquireDataDirLock(dataDir).release();
+  });
+
+  it("should report the process holding the lock", () => {
+    // The parent of the test process is alive for the duration of the test
+    writeLock(process.ppid);
+
+    expect(() => acquireDataDirLock(dataDir)).toThrow(
+      `Data directory ${dataDir} is in use by process ${process.ppid}`
+    );
+  });
+
+  it("should replace a lock left by a process that exited", () => {
+    const { pid } = spawnSync(process.execPath, ["-e", ""]);
+    writeLock(pid!);
+
+    const lock = acquireDataDirLock(dataDir);
+    expect(JSON.parse(fs.readFileSync(lockPath, "utf-8")).pid).toBe(process.pid);
+    lock.release();
+  });
+
+  it("should not replace a lock held on another host", () => {
+    const { pid } = spawnSync(process.execPath, ["-e", ""]);
+    writeLock(pid!, "other-host");
+
+    expect(() => acquireDataDirLock(dataDir)).toThrow("on other-host");
+  });
+
+  it("should treat a fresh unreadable lockfile as held", () => {
+    fs.writeFileSync(lockPath, "");
+
+    expect(() => acquireDataDirLock(dataDir)).toThrow("is being locked by another process");
+  });
+
+  it("should not remove a lock taken over by another process", () => {
+    const lock = acquireDataDirLock(dataDir);
+    writeLock(process.ppid);
+
+    lock.release();
+    expect(fs.existsSync(lockPath)).toBe(true);
+  });
+
+  it("should release the lock when the operation fails", async () => {
+    await expect(
+      withDataDirLock(dataDir, async () => {
+        throw new Error("boom");
+      })
+    ).rejects.toThrow("boom");
+
+    expect(fs.existsSync(lockPath)).toBe(false);
+  });
+});
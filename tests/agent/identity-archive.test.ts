@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  exportIdentity,
+  importIdentity,
+  readIdentityArchive,
+} from "../../src/agent/identity-archive.js";
+import {
+  createStateCipher,
+  isAgentStateEncrypted,
+  loadAgentState,
+  saveAgentState,
+  type AgentState,
+} from "../../src/agent/state.js";
+
+// Low scrypt cost keeps the tests fast
+const scryptN = 2 ** 10;
+
+describe("identity archive", () => {
+  const state: AgentState = {
+    privateKey: "0x" + "11".repeat(32),
+    address: "0x" + "22".repeat(20),
+    createdAt: "2026-01-01T00:00:00.000Z",
+    profile: { name: "Test Agent" },
+  };
+  const other: AgentState = {
+    ...state,
+    privateKey: "0x" + "44".repeat(32),
+    address: "0x" + "55".repeat(20),
+  };
+  const pendingJoins = [{ id: "req-1", joinerInboxId: "abc" }];
+  const passphrase = "archive passphrase";
+  let sourceDir: string;
+  let targetDir: string;
+
+  beforeEach(() => {
+    sourceDir = fs.mkdtempSync(path.join(os.tmpdir(), "convos-source-"));
+    targetDir = fs.mkdtempSync(path.join(os.tmpdir(), "convos-target-"));
+    saveAgentState(sourceDir, state);
+    fs.writeFileSync(path.join(sourceDir, "pending-joins.json"), JSON.stringify(pendingJoins));
+  });
+
+  afterEach(() => {
+    fs.rmSync(sourceDir, { recursive: true, force: true });
+    fs.rmSync(targetDir, { recursive: true, force: true });
+  });
+
+  it("should restore state and invite state into another directory", async () => {
+    const archive = await exportIdentity(sourceDir);
+    expect(archive.address).toBe(state.address);
+    expect(archive.encryption).toEqual({ name: "none" });
+
+    await importIdentity(targetDir, archive);
+
+    expect((await loadAgentState(targetDir)).state).toEqual(state);
+    const restored = fs.readFileSync(path.join(targetDir, "pending-joins.json"), "utf-8");
+    expect(JSON.parse(restored)).toEqual(pendingJoins);
+    expect(fs.existsSync(path.join(targetDir, "revocations.json"))).toBe(false);
+  });
+
+  it("should encrypt the archive with a passphrase", async () => {
+    const archive = await exportIdentity(sourceDir, { passphrase, scryptN });
+    expect(JSON.stringify(archive)).not.toContain(state.privateKey.slice(2));
+
+    await expect(readIdentityArchive(archive)).rejects.toThrow("a passphrase is required");
+    await expect(readIdentityArchive(archive, "wrong")).rejects.toThrow("wrong passphrase");
+    expect((await readIdentityArchive(archive, passphrase)).state).toEqual(state);
+  });
+
+  it("should export encrypted state and encrypt it again on import", async () => {
+    saveAgentState(sourceDir, state, await createStateCipher({ passphrase }, { scryptN }));
+    await expect(exportIdentity(sourceDir)).rejects.toThrow("is encrypted");
+
+    const archive = await exportIdentity(sourceDir, { stateSecret: { passphrase } });
+    await importIdentity(targetDir, archive, { stateSecret: { passphrase }, scryptN });
+
+    expect(isAgentStateEncrypted(targetDir)).toBe(true);
+    expect((await loadAgentState(targetDir, { passphrase })).state).toEqual(state);
+  });
+
+  it("should reject tampered archives", async () => {
+    const archive = await exportIdentity(sourceDir);
+    const tampered = { ...archive, payload: archive.payload.replace("Test Agent", "Evil Agent") };
+
+    await expect(readIdentityArchive(tampered)).rejects.toThrow("signature is invalid");
+  });
+
+  it("should reject unknown formats and versions", async () => {
+    const archive = await exportIdentity(sourceDir);
+
+    await expect(readIdentityArchive({ ...archive, version: 2 })).rejects.toThrow(
+      "Unsupported identity archive version: 2"
+    );
+    await expect(
+      readIdentityArchive({ ...archive, format: "other" as "convos-identity" })
+    ).rejects.toThrow("Not a Convos identity archive");
+  });
+
+  it("should refuse to overwrite an existing identity unless forced", async () => {
+    saveAgentState(targetDir, other);
+    const archive = await exportIdentity(sourceDir);
+
+    await expect(importIdentity(targetDir, archive)).rejects.toThrow(
+      `already contains identity ${other.address}`
+    );
+
+    await importIdentity(targetDir, archive, { force: true });
+    expect((await loadAgentState(targetDir)).state?.address).toBe(state.address);
+  });
+
+  it("should refuse to re-import the same identity unless forced", async () => {
+    const archive = await exportIdentity(sourceDir);
+    await importIdentity(targetDir, archive);
+
+    await expect(importIdentity(targetDir, archive)).rejects.toThrow(
+      `already contains identity ${state.address}`
+    );
+    await expect(importIdentity(targetDir, archive, { force: true })).resolves.toEqual(state);
+  });
+
+  it("should not replace a directory holding another identity's database", async () => {
+    saveAgentState(targetDir, other);
+    fs.writeFileSync(path.join(targetDir, "xmtp-dev.db3"), "");
+    const archive = await exportIdentity(sourceDir);
+
+    await expect(importIdentity(targetDir, archive, { force: true })).rejects.toThrow(
+      "has a database for another identity"
+    );
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  createStateCipher,
+  isAgentStateEncrypted,
+  loadAgentState,
+  rekeyAgentState,
+  saveAgentState,
+  type AgentState,
+} from "../../src/agent/state.js";
+import { acquireDataDirLock } from "../../src/agent/data-dir-lock.js";
+
+// Low scrypt cost keeps the tests fast
+const scryptN = 2 ** 10;
+
+describe("agent state", () => {
+  const state: AgentState = {
+    privateKey: "0x" + "11".repeat(32),
+    address: "0x" + "22".repeat(20),
+    createdAt: "2026-01-01T00:00:00.000Z",
+    profile: { name: "Test Agent" },
+  };
+  const passphrase = "correct horse battery staple";
+  const key = "33".repeat(32);
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "convos-state-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("should return null when there is no state", async () => {
+    expect(await loadAgentState(dataDir)).toEqual({ state: null });
+    expect(isAgentStateEncrypted(dataDir)).toBe(false);
+  });
+
+  it("should round-trip unencrypted state", async () => {
+    saveAgentState(dataDir, state);
+
+    const loaded = await loadAgentState(dataDir);
+    expect(loaded.state).toEqual(state);
+    expect(loaded.cipher).toBeUndefined();
+    expect(isAgentStateEncrypted(dataDir)).toBe(false);
+  });
+
+  it("should round-trip state encrypted with a passphrase", async () => {
+    saveAgentState(dataDir, state, await createStateCipher({ passphrase }, { scryptN }));
+
+    const raw = fs.readFileSync(path.join(dataDir, "agent.json"), "utf-8");
+    expect(raw).not.toContain(state.privateKey);
+    expect(isAgentStateEncrypted(dataDir)).toBe(true);
+
+    const loaded = await loadAgentState(dataDir, { passphrase });
+    expect(loaded.state).toEqual(state);
+    expect(loaded.cipher).toBeDefined();
+  });
+
+  it("should round-trip state encrypted with a raw key", async () => {
+    saveAgentState(dataDir, state, await createStateCipher({ key }));
+
+    expect((await loadAgentState(dataDir, { key: "0x" + key })).state).toEqual(state);
+  });
+
+  it("should keep the file readable by the owner only", async () => {
+    saveAgentState(dataDir, state, await createStateCipher({ key }));
+
+    const mode = fs.statSync(path.join(dataDir, "agent.json")).mode & 0o777;
+    expect(mode).toBe(0o600);
+  });
+
+  it("should require a secret for encrypted state", async () => {
+    saveAgentState(dataDir, state, await createStateCipher({ passphrase }, { scryptN }));
+
+    await expect(loadAgentState(dataDir)).rejects.toThrow("is encrypted");
+  });
+
+  it("should reject a wrong passphrase", async () => {
+    saveAgentState(dataDir, state, await createStateCipher({ passphrase }, { scryptN }));
+
+    await expect(loadAgentState(dataDir, { passphrase: "wrong" })).rejects.toThrow(
+      "Failed to unlock agent state"
+    );
+  });
+
+  it("should reject a key for passphrase-encrypted state and vice versa", async () => {
+    saveAgentState(dataDir, state, await createStateCipher({ passphrase }, { scryptN }));
+    await expect(loadAgentState(dataDir, { key })).rejects.toThrow("with a passphrase");
+
+    saveAgentState(dataDir, state, await createStateCipher({ key }));
+    await expect(loadAgentState(dataDir, { passphrase })).rejects.toThrow("with a key");
+  });
+
+  it("should reject keys of the wrong length", async () => {
+    await expect(createStateCipher({ key: "abcd" })).rejects.toThrow("State key must be 32 bytes");
+  });
+
+  it("should re-encrypt state under a new passphrase", async () => {
+    saveAgentState(dataDir, state, await createStateCipher({ passphrase }, { scryptN }));
+
+    await rekeyAgentState(dataDir, { passphrase }, { passphrase: "new passphrase" }, { scryptN });
+
+    await expect(loadAgentState(dataDir, { passphrase })).rejects.toThrow();
+    expect((await loadAgentState(dataDir, { passphrase: "new passphrase" })).state).toEqual(state);
+  });
+
+  it("should encrypt plaintext state and remove encryption again", async () => {
+    saveAgentState(dataDir, state);
+
+    await rekeyAgentState(dataDir, undefined, { passphrase }, { scryptN });
+    expect(isAgentStateEncrypted(dataDir)).toBe(true);
+
+    await rekeyAgentState(dataDir, { passphrase }, undefined);
+    expect(isAgentStateEncrypted(dataDir)).toBe(false);
+    expect((await loadAgentState(dataDir)).state).toEqual(state);
+  });
+
+  it("should not rekey while another process holds the data directory", async () => {
+    saveAgentState(dataDir, state);
+    const lock = acquireDataDirLock(dataDir);
+
+    await expect(rekeyAgentState(dataDir, undefined, { key })).rejects.toThrow("is in use");
+    lock.release();
+  });
+
+  it("should fail to rekey a missing state", async () => {
+    await expect(rekeyAgentState(dataDir, undefined, { key })).rejects.toThrow("No agent state");
+  });
+});
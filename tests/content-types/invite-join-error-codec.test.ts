@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import {
+  InviteJoinErrorCodec,
+  isInviteJoinErrorContentType,
+} from "../../src/content-types/invite-join-error-codec.js";
+import {
+  INVITE_JOIN_ERROR_CONTENT_TYPE,
+  InviteJoinErrorType,
+  createInviteRevokedError,
+  decodeInviteJoinError,
+} from "../../src/content-types/invite-join-error.js";
+
+describe("InviteJoinErrorCodec", () => {
+  const codec = new InviteJoinErrorCodec();
+
+  it("should expose the invite join error content type", () => {
+    expect(codec.contentType).toEqual(INVITE_JOIN_ERROR_CONTENT_TYPE);
+  });
+
+  it("should round-trip encode/decode", () => {
+    const error = createInviteRevokedError("invite1234");
+
+    const decoded = codec.decode(codec.encode(error));
+
+    expect(decoded.errorType).toBe(InviteJoinErrorType.InviteRevoked);
+    expect(decoded.inviteTag).toBe("invite1234");
+    expect(decoded.timestamp.toISOString()).toBe(error.timestamp.toISOString());
+  });
+
+  it("should encode the JSON payload with type and fallback text", () => {
+    const error = createInviteRevokedError("invite1234");
+
+    const encoded = codec.encode(error);
+
+    expect(encoded.type).toEqual(INVITE_JOIN_ERROR_CONTENT_TYPE);
+    expect(encoded.parameters).toEqual({});
+    expect(encoded.fallback).toBe("This invite is no longer valid");
+    expect(decodeInviteJoinError(encoded.content).errorType).toBe(
+      InviteJoinErrorType.InviteRevoked
+    );
+  });
+
+  it("should push errors to the joiner", () => {
+    expect(codec.shouldPush()).toBe(true);
+  });
+});
+
+describe("isInviteJoinErrorContentType", () => {
+  it("should match any minor version", () => {
+    expect(
+      isInviteJoinErrorContentType({ ...INVITE_JOIN_ERROR_CONTENT_TYPE, versionMinor: 3 })
+    ).toBe(true);
+  });
+
+  it("should not match other content types", () => {
+    expect(
+      isInviteJoinErrorContentType({
+        authorityId: "xmtp.org",
+        typeId: "text",
+        versionMajor: 1,
+        versionMinor: 0,
+      })
+    ).toBe(false);
+    expect(
+      isInviteJoinErrorContentType({ ...INVITE_JOIN_ERROR_CONTENT_TYPE, versionMajor: 2 })
+    ).toBe(false);
+    expect(isInviteJoinErrorContentType(undefined)).toBe(false);
+  });
+});
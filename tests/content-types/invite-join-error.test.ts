@@ -5,6 +5,10 @@ import {
   decodeInviteJoinError,
   createConversationExpiredError,
   createGenericFailureError,
+  createInviteAlreadyUsedError,
+  createInviteRevokedError,
+  createRateLimitedError,
+  createInvalidInviteError,
   getErrorMessage,
   type InviteJoinError,
 } from "../../src/content-types/invite-join-error.js";
@@ -30,6 +34,10 @@ describe("InviteJoinError", () => {
       const types = [
         InviteJoinErrorType.ConversationExpired,
         InviteJoinErrorType.GenericFailure,
+        InviteJoinErrorType.InviteAlreadyUsed,
+        InviteJoinErrorType.InviteRevoked,
+        InviteJoinErrorType.RateLimited,
+        InviteJoinErrorType.InvalidInvite,
         InviteJoinErrorType.Unknown,
       ];
 
@@ -72,6 +80,12 @@ describe("InviteJoinError", () => {
       expect(error.inviteTag).toBe("tag456");
       expect(error.timestamp).toBeInstanceOf(Date);
     });
+
+    it("should create invite already used error", () => {
+      const error = createInviteAlreadyUsedError("tag789");
+      expect(error.errorType).toBe(InviteJoinErrorType.InviteAlreadyUsed);
+      expect(error.inviteTag).toBe("tag789");
+    });
   });
 
   describe("getErrorMessage", () => {
@@ -85,6 +99,28 @@ describe("InviteJoinError", () => {
       expect(getErrorMessage(error)).toBe("Failed to join conversation");
     });
 
+    it("should return appropriate message for InviteAlreadyUsed", () => {
+      const error = createInviteAlreadyUsedError("test");
+      expect(getErrorMessage(error)).toBe("This invite has already been used");
+    });
+
+    it("should return appropriate message for InviteRevoked", () => {
+      const error = createInviteRevokedError("test");
+      expect(getErrorMessage(error)).toBe("This invite is no longer valid");
+    });
+
+    it("should return appropriate message for RateLimited", () => {
+      const error = createRateLimitedError("test");
+      expect(getErrorMessage(error)).toBe("Too many join requests, please try again later");
+    });
+
+    it("should return appropriate message for InvalidInvite", () => {
+      const error = createInvalidInviteError();
+      expect(getErrorMessage(error)).toBe(
+        "This invite link is invalid. Check that the whole link was copied"
+      );
+    });
+
     it("should return generic message for Unknown", () => {
       const error: InviteJoinError = {
         errorType: InviteJoinErrorType.Unknown,
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { deriveInviteKey } from "../../src/crypto/hkdf.js";
+import { deriveInviteKey, deriveInviteKeyFromSecret } from "../../src/crypto/hkdf.js";
 
 describe("deriveInviteKey", () => {
   const testPrivateKey = new Uint8Array(32).fill(1);
@@ -30,3 +30,21 @@ describe("deriveInviteKey", () => {
     expect(key1).not.toEqual(key2);
   });
 });
+
+describe("deriveInviteKeyFromSecret", () => {
+  const testSecret = new Uint8Array(32).fill(1);
+  const testInboxId = "abc123def456";
+
+  it("should produce a 32-byte key per inbox", () => {
+    const key1 = deriveInviteKeyFromSecret(testSecret, "inbox1");
+    const key2 = deriveInviteKeyFromSecret(testSecret, "inbox2");
+    expect(key1.length).toBe(32);
+    expect(key1).not.toEqual(key2);
+  });
+
+  it("should not match the wallet-derived key for the same bytes", () => {
+    expect(deriveInviteKeyFromSecret(testSecret, testInboxId)).not.toEqual(
+      deriveInviteKey(testSecret, testInboxId)
+    );
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import {
+  decodeCompactInvite,
+  encodeCompactInvite,
+  getDefaultInboxId,
+  isCompactInvite,
+} from "../../src/invite/compact-invite.js";
+import { getPublicKey, hashSha256, signWithRecovery } from "../../src/crypto/secp256k1.js";
+import { bytesToHex } from "../../src/utils/hex.js";
+
+describe("compactInvite", () => {
+  const payload = new TextEncoder().encode("payload");
+
+  it("should round-trip signatures with either recovery bit", () => {
+    for (let i = 1; i <= 8; i++) {
+      const signature = signWithRecovery(hashSha256(Uint8Array.of(i)), new Uint8Array(32).fill(i));
+
+      const bytes = encodeCompactInvite({ payload, signature });
+
+      expect(bytes).toHaveLength(1 + 64 + payload.length);
+      expect(isCompactInvite(bytes)).toBe(true);
+      expect(decodeCompactInvite(bytes)).toEqual({ payload, signature });
+    }
+  });
+
+  it("should reject bytes that are not a compact invite", () => {
+    expect(isCompactInvite(Uint8Array.of(0x0a, 0x01))).toBe(false);
+    expect(() => decodeCompactInvite(Uint8Array.of(0x01, 0x02))).toThrow("Invalid compact invite");
+  });
+
+  it("should derive the default inbox ID from the wallet address", () => {
+    const privateKey = new Uint8Array(32);
+    privateKey[31] = 1;
+    // Private key 1 is the well-known address 0x7E5F4552091A69125d5DfCb7b8C2659029395Bdf
+    const expected = bytesToHex(
+      hashSha256(new TextEncoder().encode("0x7e5f4552091a69125d5dfcb7b8c2659029395bdf0"))
+    );
+
+    expect(getDefaultInboxId(getPublicKey(privateKey))).toBe(expected);
+  });
+});
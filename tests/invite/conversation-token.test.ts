@@ -2,7 +2,11 @@ import { describe, it, expect } from "vitest";
 import {
   encryptConversationToken,
   decryptConversationToken,
+  encryptConversationTokenWithKeyring,
+  decryptConversationTokenWithKeyring,
+  getConversationTokenKeyId,
 } from "../../src/invite/conversation-token.js";
+import { InviteSecretKeyring } from "../../src/invite/invite-secrets.js";
 
 describe("conversationToken", () => {
   const testPrivateKey = new Uint8Array([
@@ -82,4 +86,56 @@ describe("conversationToken", () => {
       ).toThrow("Unsupported token version");
     });
   });
+
+  describe("invite secret keyring", () => {
+    const testUuid = "550e8400-e29b-41d4-a716-446655440000";
+
+    it("should write the version and key ID into the header", () => {
+      const keyring = InviteSecretKeyring.generate();
+      const token = encryptConversationTokenWithKeyring(testUuid, testInboxId, keyring);
+
+      expect(token[0]).toBe(0x02);
+      expect(getConversationTokenKeyId(token)).toBe(keyring.currentKeyId);
+      expect(decryptConversationTokenWithKeyring(token, testInboxId, keyring)).toBe(testUuid);
+    });
+
+    it("should report no key ID for wallet-derived tokens", () => {
+      const token = encryptConversationToken(testUuid, testInboxId, testPrivateKey);
+      expect(getConversationTokenKeyId(token)).toBeUndefined();
+    });
+
+    it("should decrypt tokens from retired secrets after rotation", () => {
+      const keyring = InviteSecretKeyring.generate();
+      const oldToken = encryptConversationTokenWithKeyring(testUuid, testInboxId, keyring);
+      keyring.rotate();
+      const newToken = encryptConversationTokenWithKeyring(testUuid, testInboxId, keyring);
+
+      expect(getConversationTokenKeyId(newToken)).not.toBe(getConversationTokenKeyId(oldToken));
+      expect(decryptConversationTokenWithKeyring(oldToken, testInboxId, keyring)).toBe(testUuid);
+      expect(decryptConversationTokenWithKeyring(newToken, testInboxId, keyring)).toBe(testUuid);
+    });
+
+    it("should fail once the secret is removed", () => {
+      const keyring = InviteSecretKeyring.generate();
+      const oldToken = encryptConversationTokenWithKeyring(testUuid, testInboxId, keyring);
+      const oldKeyId = keyring.currentKeyId;
+      keyring.rotate();
+      keyring.remove(oldKeyId);
+
+      expect(() => decryptConversationTokenWithKeyring(oldToken, testInboxId, keyring)).toThrow(
+        "Unknown invite secret key ID"
+      );
+    });
+
+    it("should not decrypt keyed tokens with the wallet-derived key", () => {
+      const token = encryptConversationTokenWithKeyring(
+        testUuid,
+        testInboxId,
+        InviteSecretKeyring.generate()
+      );
+      expect(() => decryptConversationToken(token, testInboxId, testPrivateKey)).toThrow(
+        "Unsupported token version"
+      );
+    });
+  });
 });
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { inspectInvite } from "../../src/invite/inspect.js";
+import { createInviteSlug } from "../../src/invite/signed-invite.js";
+import { generateInviteURL } from "../../src/invite/encoding.js";
+import { InviteSecretKeyring } from "../../src/invite/invite-secrets.js";
+import { getPublicKey } from "../../src/crypto/secp256k1.js";
+import { bytesToHex } from "../../src/utils/hex.js";
+
+describe("inspectInvite", () => {
+  const testPrivateKey = new Uint8Array(32).fill(7);
+  const otherPrivateKey = new Uint8Array(32).fill(8);
+  // Random-looking, so only the description below makes an invite compressible
+  const testInboxId = "37ee6041fb6972cc5f4a7ad424e1ec593169705dcb315d6d9059c0f5e857075c";
+  const testConversationId = "550e8400-e29b-41d4-a716-446655440000";
+
+  function createSlug(options: Partial<Parameters<typeof createInviteSlug>[0]> = {}): string {
+    return createInviteSlug({
+      conversationId: testConversationId,
+      inviteTag: "inspect-tag",
+      creatorInboxId: testInboxId,
+      privateKey: testPrivateKey,
+      ...options,
+    });
+  }
+
+  it("should decode the payload from a URL without keys", () => {
+    const expiresAt = new Date("2030-01-01T00:00:00.000Z");
+    const slug = createSlug({ name: "Team", expiresAt, expiresAfterUse: true });
+
+    const inspection = inspectInvite(generateInviteURL(slug));
+
+    expect(inspection).toMatchObject({
+      slug,
+      slugLength: slug.length,
+      tag: "inspect-tag",
+      name: "Team",
+      creatorInboxId: testInboxId,
+      expiresAt,
+      expiresAfterUse: true,
+      isExpired: false,
+      tokenKeyId: undefined,
+      signerPublicKey: bytesToHex(getPublicKey(testPrivateKey)),
+    });
+    expect(inspection.conversationId).toBeUndefined();
+    expect(inspection.signatureValid).toBeUndefined();
+  });
+
+  it("should report expired invites", () => {
+    const inspection = inspectInvite(createSlug({ expiresAt: new Date(Date.now() - 1000) }));
+
+    expect(inspection.isExpired).toBe(true);
+  });
+
+  it("should report compression of large invites", () => {
+    const small = inspectInvite(createSlug());
+    const large = inspectInvite(createSlug({ description: "a".repeat(500) }));
+
+    expect(small.compressed).toBe(false);
+    expect(small.encodedBytes).toBe(small.signedInviteBytes);
+    expect(large.compressed).toBe(true);
+    expect(large.encodedBytes).toBeLessThan(large.signedInviteBytes);
+  });
+
+  it("should verify and decrypt with the creator's key", () => {
+    const inspection = inspectInvite(createSlug(), { privateKey: testPrivateKey });
+
+    expect(inspection.signatureValid).toBe(true);
+    expect(inspection.conversationId).toBe(testConversationId);
+    expect(inspection.decryptionError).toBeUndefined();
+  });
+
+  it("should flag invites from another creator", () => {
+    const inspection = inspectInvite(createSlug(), { privateKey: otherPrivateKey });
+
+    expect(inspection.signatureValid).toBe(false);
+    expect(inspection.conversationId).toBeUndefined();
+    expect(inspection.decryptionError).toBeDefined();
+  });
+
+  it("should decrypt invites encrypted with an invite secret", () => {
+    const inviteSecrets = InviteSecretKeyring.generate();
+    const slug = createSlug({ inviteSecrets });
+
+    expect(inspectInvite(slug).tokenKeyId).toBe(inviteSecrets.currentKeyId);
+    expect(inspectInvite(slug, { privateKey: testPrivateKey }).decryptionError).toContain(
+      "no invite secrets were provided"
+    );
+    expect(
+      inspectInvite(slug, { privateKey: testPrivateKey, inviteSecrets }).conversationId
+    ).toBe(testConversationId);
+  });
+
+  it("should throw for input that is not an invite", () => {
+    expect(() => inspectInvite("not-an-invite")).toThrow();
+  });
+});
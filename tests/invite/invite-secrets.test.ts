@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { InviteSecretKeyring } from "../../src/invite/invite-secrets.js";
+
+describe("InviteSecretKeyring", () => {
+  const testInboxId = "abc123def456";
+
+  it("should generate a keyring with one current secret", () => {
+    const keyring = InviteSecretKeyring.generate();
+
+    expect(keyring.currentKeyId).toBe(1);
+    expect(keyring.keyIds()).toEqual([1]);
+    expect(keyring.deriveKey(1, testInboxId)).toHaveLength(32);
+  });
+
+  it("should default the current secret to the highest key ID", () => {
+    const keyring = new InviteSecretKeyring([
+      { keyId: 3, secret: new Uint8Array(32).fill(3), createdAt: new Date(3000) },
+      { keyId: 7, secret: new Uint8Array(32).fill(7), createdAt: new Date(7000) },
+    ]);
+
+    expect(keyring.currentKeyId).toBe(7);
+  });
+
+  it("should rotate to a new current secret and keep the old one", () => {
+    const keyring = InviteSecretKeyring.generate();
+    const oldKey = keyring.deriveKey(1, testInboxId);
+
+    const rotated = keyring.rotate();
+
+    expect(rotated.keyId).toBe(2);
+    expect(keyring.currentKeyId).toBe(2);
+    expect(keyring.has(1)).toBe(true);
+    expect(keyring.deriveKey(1, testInboxId)).toEqual(oldKey);
+    expect(keyring.deriveKey(2, testInboxId)).not.toEqual(oldKey);
+  });
+
+  it("should wrap key IDs and refuse to reuse one still in the keyring", () => {
+    const keyring = new InviteSecretKeyring([
+      { keyId: 1, secret: new Uint8Array(32).fill(1), createdAt: new Date(1000) },
+      { keyId: 255, secret: new Uint8Array(32).fill(2), createdAt: new Date(2000) },
+    ]);
+
+    expect(() => keyring.rotate()).toThrow("still in use");
+    keyring.remove(1);
+    expect(keyring.rotate().keyId).toBe(1);
+  });
+
+  it("should not remove the current secret", () => {
+    const keyring = InviteSecretKeyring.generate();
+
+    expect(() => keyring.remove(keyring.currentKeyId)).toThrow("Cannot remove the current");
+  });
+
+  it("should reject invalid secrets", () => {
+    expect(() => new InviteSecretKeyring([])).toThrow("at least one secret");
+    expect(
+      () => new InviteSecretKeyring([{ keyId: 0, secret: new Uint8Array(32), createdAt: new Date() }])
+    ).toThrow("Invalid invite secret key ID");
+    expect(
+      () => new InviteSecretKeyring([{ keyId: 1, secret: new Uint8Array(16), createdAt: new Date() }])
+    ).toThrow("32 bytes");
+  });
+
+  it("should round-trip through JSON", () => {
+    const keyring = InviteSecretKeyring.generate();
+    keyring.rotate();
+
+    const restored = InviteSecretKeyring.fromJSON(
+      JSON.parse(JSON.stringify(keyring.toJSON()))
+    );
+
+    expect(restored.currentKeyId).toBe(keyring.currentKeyId);
+    expect(restored.keyIds()).toEqual(keyring.keyIds());
+    expect(restored.deriveKey(1, testInboxId)).toEqual(keyring.deriveKey(1, testInboxId));
+  });
+});
@@ -1,5 +1,8 @@
 import { describe, it, expect } from "vitest";
+import { randomBytes } from "node:crypto";
 import {
+  buildInviteSlug,
+  buildInviteSlugWithSigner,
   createInviteSlug,
   parseInviteSlug,
   verifyInvite,
@@ -7,6 +10,8 @@ import {
   decryptInviteConversationId,
 } from "../../src/invite/signed-invite.js";
 import { getPublicKey } from "../../src/crypto/secp256k1.js";
+import { getDefaultInboxId } from "../../src/invite/compact-invite.js";
+import { LocalInviteSigner } from "../../src/signer/invite-signer.js";
 
 describe("signedInvite", () => {
   const testPrivateKey = new Uint8Array([
@@ -214,4 +219,131 @@ describe("signedInvite", () => {
       expect(conversationId).toBe(testConversationId.toLowerCase());
     });
   });
+
+  describe("compact format", () => {
+    const baseOptions = {
+      conversationId: testConversationId,
+      inviteTag: testTag,
+      privateKey: testPrivateKey,
+    };
+
+    it("should omit the default inbox ID and recover it from the signature", () => {
+      const defaultInboxId = getDefaultInboxId(getPublicKey(testPrivateKey));
+      const result = buildInviteSlug({
+        ...baseOptions,
+        creatorInboxId: defaultInboxId,
+        compact: true,
+      });
+
+      const parsed = parseInviteSlug(result.slug);
+      expect(result.compact).toBe(true);
+      expect(parsed.compact).toBe(true);
+      expect(result.length).toBeLessThan(
+        createInviteSlug({ ...baseOptions, creatorInboxId: testInboxId, compact: true }).length
+      );
+      expect(parsed.creatorInboxId).toBe(defaultInboxId);
+      expect(verifyInviteWithPrivateKey(parsed.signedInvite, testPrivateKey)).toBe(true);
+      expect(decryptInviteConversationId(parsed, testPrivateKey)).toBe(testConversationId);
+    });
+
+    it("should keep an inbox ID that cannot be recovered", () => {
+      const slug = createInviteSlug({ ...baseOptions, creatorInboxId: testInboxId, compact: true });
+
+      const parsed = parseInviteSlug(slug);
+      expect(parsed.compact).toBe(true);
+      expect(parsed.creatorInboxId).toBe(testInboxId);
+      expect(decryptInviteConversationId(parsed, testPrivateKey)).toBe(testConversationId);
+    });
+
+    it("should be shorter than the standard format", () => {
+      const creatorInboxId = getDefaultInboxId(getPublicKey(testPrivateKey));
+      const standard = buildInviteSlug({ ...baseOptions, creatorInboxId });
+      const compact = buildInviteSlug({ ...baseOptions, creatorInboxId, compact: true });
+
+      expect(standard.compact).toBe(false);
+      expect(parseInviteSlug(standard.slug).compact).toBe(false);
+      expect(compact.length).toBeLessThan(standard.length);
+    });
+  });
+
+  describe("size budget", () => {
+    // Random-looking, so slugs without a description never compress and their
+    // length does not depend on the signature
+    const baseOptions = {
+      conversationId: testConversationId,
+      inviteTag: testTag,
+      creatorInboxId: "110ad307a66daad93b62e123ce4046241884eb07616106f8dc1ee87ec25dfc8b",
+      privateKey: testPrivateKey,
+    };
+    const minimumLength = buildInviteSlug(baseOptions).length;
+    // Random text stays hundreds of characters long when compressed
+    const longDescription = randomBytes(200).toString("hex");
+
+    it("should report the slug length", () => {
+      const result = buildInviteSlug(baseOptions);
+
+      expect(result.length).toBe(result.slug.length);
+      expect(result.trimmedFields).toEqual([]);
+      expect(result.droppedFields).toEqual([]);
+    });
+
+    it("should trim the description to fit", () => {
+      const maxSlugLength = minimumLength + 60;
+      const untrimmed = buildInviteSlug({ ...baseOptions, description: longDescription });
+      expect(untrimmed.length).toBeGreaterThan(maxSlugLength);
+
+      const result = buildInviteSlug({
+        ...baseOptions,
+        description: longDescription,
+        maxSlugLength,
+      });
+
+      const parsed = parseInviteSlug(result.slug);
+      expect(result.length).toBeLessThanOrEqual(maxSlugLength);
+      expect(result.trimmedFields).toEqual(["description"]);
+      expect(parsed.payload.description.endsWith("…")).toBe(true);
+      expect(longDescription.startsWith(parsed.payload.description.slice(0, -1))).toBe(true);
+      expect(verifyInviteWithPrivateKey(parsed.signedInvite, testPrivateKey)).toBe(true);
+    });
+
+    it("should drop the description and image before the name", () => {
+      const name = "Weekend plans";
+      const withName = buildInviteSlug({ ...baseOptions, name }).length;
+      const result = buildInviteSlug({
+        ...baseOptions,
+        name,
+        description: longDescription,
+        imageURL: "https://example.com/images/a-rather-long-image-name.png",
+        maxSlugLength: withName,
+      });
+
+      const parsed = parseInviteSlug(result.slug);
+      expect(result.length).toBeLessThanOrEqual(withName);
+      expect(result.droppedFields).toEqual(["description", "imageURL"]);
+      expect(parsed.payload.name).toBe(name);
+    });
+
+    it("should throw when the invite cannot fit", () => {
+      expect(() =>
+        buildInviteSlug({ ...baseOptions, name: "Weekend plans", maxSlugLength: 20 })
+      ).toThrow("over the budget of 20");
+    });
+
+    it("should fit the budget with a signer", async () => {
+      const maxSlugLength = minimumLength + 40;
+      const { privateKey, ...signerOptions } = baseOptions;
+      const result = await buildInviteSlugWithSigner({
+        ...signerOptions,
+        signer: new LocalInviteSigner(privateKey),
+        description: longDescription,
+        compact: true,
+        maxSlugLength,
+      });
+
+      const parsed = parseInviteSlug(result.slug);
+      expect(result.length).toBeLessThanOrEqual(maxSlugLength);
+      expect(parsed.compact).toBe(true);
+      expect(verifyInviteWithPrivateKey(parsed.signedInvite, testPrivateKey)).toBe(true);
+    });
+  });
 });
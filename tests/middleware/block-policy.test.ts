@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { StrikeLedger } from "../../src/middleware/block-policy.js";
+
+describe("StrikeLedger", () => {
+  it("should count strikes per sender", () => {
+    const ledger = new StrikeLedger();
+
+    expect(ledger.addStrike("sender-1", 0)).toBe(1);
+    expect(ledger.addStrike("sender-1", 10)).toBe(2);
+    expect(ledger.addStrike("sender-2", 20)).toBe(1);
+    expect(ledger.getStrikes("sender-1", 30)).toBe(2);
+  });
+
+  it("should forget strikes outside the window", () => {
+    const ledger = new StrikeLedger(1000);
+    ledger.addStrike("sender-1", 0);
+    ledger.addStrike("sender-1", 800);
+
+    expect(ledger.getStrikes("sender-1", 1000)).toBe(1);
+    expect(ledger.addStrike("sender-1", 2000)).toBe(1);
+  });
+
+  it("should keep strikes forever without a window", () => {
+    const ledger = new StrikeLedger();
+    ledger.addStrike("sender-1", 0);
+
+    expect(ledger.getStrikes("sender-1", Number.MAX_SAFE_INTEGER)).toBe(1);
+  });
+
+  it("should clear strikes for a sender", () => {
+    const ledger = new StrikeLedger();
+    ledger.addStrike("sender-1", 0);
+    ledger.clear("sender-1");
+
+    expect(ledger.getStrikes("sender-1", 0)).toBe(0);
+  });
+});
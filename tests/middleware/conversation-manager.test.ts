@@ -4,6 +4,11 @@ import {
   type ConversationInfo,
   type XMTPAgent,
 } from "../../src/middleware/conversation-manager.js";
+import { LocalInviteSigner } from "../../src/signer/invite-signer.js";
+import {
+  parseInviteSlug,
+  verifyInviteWithPrivateKey,
+} from "../../src/invite/signed-invite.js";
 
 describe("ConvosConversationManager", () => {
   const testPrivateKey = new Uint8Array([
@@ -104,6 +109,33 @@ describe("ConvosConversationManager", () => {
     });
   });
 
+  describe("createInviteWithSigner", () => {
+    const conversation: ConversationInfo = {
+      conversationId: "test-id",
+      inviteTag: "test123456",
+      creatorInboxId: testInboxId,
+    };
+
+    it("should sign invites with the configured signer", async () => {
+      const manager = new ConvosConversationManager({
+        inboxId: testInboxId,
+        signer: new LocalInviteSigner(testPrivateKey),
+      });
+
+      const invite = await manager.createInviteWithSigner(conversation);
+
+      const parsed = parseInviteSlug(invite.slug);
+      expect(verifyInviteWithPrivateKey(parsed.signedInvite, testPrivateKey)).toBe(true);
+      expect(() => manager.createInvite(conversation)).toThrow("requires a privateKey");
+    });
+
+    it("should fall back to the private key without a signer", async () => {
+      const invite = await createManager().createInviteWithSigner(conversation);
+
+      expect(invite.url).toContain("i=");
+    });
+  });
+
   describe("rotateInviteTag", () => {
     it("should create new tag and preserve other metadata", () => {
       const manager = createManager();
@@ -7,6 +7,17 @@ import {
   type InviteContext,
 } from "../../src/middleware/convos-middleware.js";
 import type { XMTPGroupWithAppData } from "../../src/middleware/convos-group.js";
+import {
+  InviteJoinErrorType,
+} from "../../src/content-types/invite-join-error.js";
+import { InviteJoinErrorCodec } from "../../src/content-types/invite-join-error-codec.js";
+import { BlockReason } from "../../src/middleware/block-policy.js";
+import { LocalInviteSigner } from "../../src/signer/invite-signer.js";
+import { InviteSecretKeyring } from "../../src/invite/invite-secrets.js";
+import { parseInviteSlug } from "../../src/invite/signed-invite.js";
+import { getConversationTokenKeyId } from "../../src/invite/conversation-token.js";
+
+const inviteJoinErrorCodec = new InviteJoinErrorCodec();
 
 describe("ConvosMiddleware", () => {
   const testPrivateKeyHex = "0102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f20";
@@ -95,6 +106,12 @@ describe("ConvosMiddleware", () => {
 
       expect(typeof middleware).toBe("function");
     });
+
+    it("should expose the codecs to register with the agent", () => {
+      const [codec] = ConvosMiddleware.codecs();
+
+      expect(codec).toBeInstanceOf(InviteJoinErrorCodec);
+    });
   });
 
   describe("createInvite", () => {
@@ -128,6 +145,26 @@ describe("ConvosMiddleware", () => {
       expect(invite.slug).toBeDefined();
       expect(invite.url).toContain("dev.convos.org/v2");
     });
+
+    it("should report the slug length and fields dropped to fit maxSlugLength", () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+
+      const { metadata } = convos.createInitialMetadata();
+      const full = convos.createInvite("test-conversation-id", { inviteTag: metadata.tag });
+      expect(full.length).toBe(full.slug.length);
+      expect(full.trimmedFields).toEqual([]);
+      expect(full.droppedFields).toEqual([]);
+
+      const invite = convos.createInvite("test-conversation-id", {
+        inviteTag: metadata.tag,
+        imageURL: `https://example.com/${"a".repeat(400)}.png`,
+        maxSlugLength: full.length + 40,
+      });
+
+      expect(invite.length).toBeLessThanOrEqual(full.length + 40);
+      expect(invite.droppedFields).toEqual(["imageURL"]);
+    });
   });
 
   describe("invite event handling", () => {
@@ -203,6 +240,92 @@ describe("ConvosMiddleware", () => {
       expect(dmCtx.conversation.send).toHaveBeenCalled();
     });
 
+    it("should allow deferring invite for later approval", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+      const middleware = convos.middleware();
+
+      const { metadata } = convos.createInitialMetadata();
+      const invite = convos.createInvite(mockConversation, {
+        inviteTag: metadata.tag,
+      });
+
+      convos.on("invite", async (ctx) => {
+        await ctx.defer();
+      });
+
+      const dmCtx = createMockDmContext(invite.slug, joinerInboxId);
+      await middleware(dmCtx, vi.fn());
+
+      expect(mockConversation.addMembers).not.toHaveBeenCalled();
+      const [pending] = await convos.pendingJoins.list();
+      expect(pending.joinerInboxId).toBe(joinerInboxId);
+      expect(pending.conversationId).toBe("test-conversation-id");
+      expect(pending.inviteTag).toBe(metadata.tag);
+      expect(pending.inviteSlug).toBe(invite.slug);
+      expect(pending.dmConversationId).toBe("dm-conversation");
+
+      await convos.pendingJoins.accept(pending.id);
+      expect(mockConversation.addMembers).toHaveBeenCalledWith([joinerInboxId]);
+    });
+
+    it("should queue one request when a joiner resends the same invite", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+      const middleware = convos.middleware();
+
+      const { metadata } = convos.createInitialMetadata();
+      const invite = convos.createInvite(mockConversation, { inviteTag: metadata.tag });
+      convos.on("invite", async (ctx) => {
+        await ctx.defer();
+      });
+
+      await middleware(createMockDmContext(invite.slug, joinerInboxId), vi.fn());
+      await middleware(createMockDmContext(invite.slug, joinerInboxId), vi.fn());
+
+      expect(await convos.pendingJoins.list()).toHaveLength(1);
+    });
+
+    it.each([
+      [
+        "the invite was revoked",
+        async (convos: ConvosMiddleware, inviteUrl: string) => {
+          await convos.revokeInvite(inviteUrl);
+        },
+      ],
+      [
+        "the invite tag was rotated",
+        async (convos: ConvosMiddleware) => {
+          const { metadata } = convos.createInitialMetadata();
+          mockConversation.appData = convos.rotateInviteTag(metadata).encodedMetadata;
+        },
+      ],
+    ])("should refuse to approve a deferred request after %s", async (_, invalidate) => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+      const middleware = convos.middleware();
+
+      const { metadata, encodedMetadata } = convos.createInitialMetadata();
+      mockConversation.appData = encodedMetadata;
+      const invite = convos.createInvite(mockConversation, { inviteTag: metadata.tag });
+      convos.on("invite", async (ctx) => {
+        await ctx.defer();
+      });
+      const joinRejected = vi.fn();
+      convos.on("joinRejected", joinRejected);
+
+      await middleware(createMockDmContext(invite.slug, joinerInboxId), vi.fn());
+      const [pending] = await convos.pendingJoins.list();
+      await invalidate(convos, invite.url);
+
+      await expect(convos.pendingJoins.accept(pending.id)).rejects.toThrow(
+        "This invite is no longer valid"
+      );
+      expect(mockConversation.addMembers).not.toHaveBeenCalled();
+      expect(joinRejected.mock.calls[0][0].error.errorType).toBe(InviteJoinErrorType.InviteRevoked);
+      expect(await convos.pendingJoins.list()).toEqual([]);
+    });
+
     it("should pass through non-invite messages", async () => {
       const agent = createMockAgent();
       const convos = ConvosMiddleware.create(agent);
@@ -380,164 +503,1285 @@ describe("ConvosMiddleware", () => {
     });
   });
 
-  describe("metadata handling", () => {
-    it("should create and decode metadata", () => {
+  describe("invite tag validation", () => {
+    it("should accept invites whose tag matches the conversation metadata", async () => {
       const agent = createMockAgent();
       const convos = ConvosMiddleware.create(agent);
+      const middleware = convos.middleware();
 
       const { metadata, encodedMetadata } = convos.createInitialMetadata();
-      const decoded = convos.decodeMetadata(encodedMetadata);
+      mockConversation.appData = encodedMetadata;
+      const invite = convos.createInvite(mockConversation, { inviteTag: metadata.tag });
 
-      expect(decoded.tag).toBe(metadata.tag);
+      const inviteHandler = vi.fn();
+      convos.on("invite", inviteHandler);
+
+      await middleware(createMockDmContext(invite.slug, joinerInboxId), vi.fn());
+
+      expect(inviteHandler).toHaveBeenCalledTimes(1);
     });
 
-    it("should rotate invite tag", () => {
+    it("should reject invites issued before the tag was rotated", async () => {
       const agent = createMockAgent();
       const convos = ConvosMiddleware.create(agent);
+      const middleware = convos.middleware();
 
-      const { metadata: original } = convos.createInitialMetadata();
-      const { metadata: rotated, newTag } = convos.rotateInviteTag(original);
+      const { metadata } = convos.createInitialMetadata();
+      const invite = convos.createInvite(mockConversation, { inviteTag: metadata.tag });
+      mockConversation.appData = convos.rotateInviteTag(metadata).encodedMetadata;
 
-      expect(newTag).not.toBe(original.tag);
-      expect(rotated.tag).toBe(newTag);
+      const inviteHandler = vi.fn();
+      convos.on("invite", inviteHandler);
+
+      const dmCtx = createMockDmContext(invite.slug, joinerInboxId);
+      await middleware(dmCtx, vi.fn());
+
+      expect(inviteHandler).not.toHaveBeenCalled();
+      expect(mockBlockFn).not.toHaveBeenCalled();
+      const sent = (dmCtx.conversation.send as ReturnType<typeof vi.fn>).mock.calls[0][0];
+      expect(inviteJoinErrorCodec.decode(sent).errorType).toBe(InviteJoinErrorType.InviteRevoked);
     });
 
-    it("should extract invite tag from encoded metadata", () => {
+    it("should skip validation when the conversation metadata is unreadable", async () => {
       const agent = createMockAgent();
       const convos = ConvosMiddleware.create(agent);
+      const middleware = convos.middleware();
 
-      const { metadata, encodedMetadata } = convos.createInitialMetadata();
-      const tag = convos.getInviteTag(encodedMetadata);
+      const { metadata } = convos.createInitialMetadata();
+      mockConversation.appData = "invalid-garbage-data";
+      const invite = convos.createInvite(mockConversation, { inviteTag: metadata.tag });
 
-      expect(tag).toBe(metadata.tag);
+      const inviteHandler = vi.fn();
+      convos.on("invite", inviteHandler);
+
+      await middleware(createMockDmContext(invite.slug, joinerInboxId), vi.fn());
+
+      expect(inviteHandler).toHaveBeenCalledTimes(1);
     });
   });
 
-  describe("group() and ConvosGroup", () => {
-    function createMockGroupWithAppData(
-      id: string,
-      appData = ""
-    ): XMTPGroupWithAppData {
-      return {
-        id,
-        appData,
-        updateAppData: vi.fn().mockResolvedValue(undefined),
-        send: vi.fn().mockResolvedValue(undefined),
-        addMembers: vi.fn().mockResolvedValue(undefined),
-      };
-    }
+  describe("keyring", () => {
+    const brandPrivateKeyHex = "2122232425262728292a2b2c2d2e2f303132333435363738393a3b3c3d3e3f40";
+    const brandInboxId = "bbbbbb1234567890123456789012345678901234567890123456789012345678";
 
-    it("should wrap a group with convos.group()", () => {
+    it("should accept invites created by a keyring identity", async () => {
       const agent = createMockAgent();
-      const convos = ConvosMiddleware.create(agent);
+      const convos = ConvosMiddleware.create(agent, {
+        keyring: { [brandInboxId]: brandPrivateKeyHex },
+      });
+      const { metadata } = convos.createInitialMetadata();
+      const invite = convos.createInvite(mockConversation, {
+        inviteTag: metadata.tag,
+        creatorInboxId: brandInboxId,
+      });
 
-      const xmtpGroup = createMockGroupWithAppData("test-group-id");
-      const group = convos.group(xmtpGroup);
+      const inviteHandler = vi.fn();
+      convos.on("invite", inviteHandler);
+      await convos.middleware()(createMockDmContext(invite.slug, joinerInboxId), vi.fn());
 
-      expect(group.id).toBe("test-group-id");
-      expect(typeof group.createInvite).toBe("function");
+      expect(mockBlockFn).not.toHaveBeenCalled();
+      const ctx: InviteContext = inviteHandler.mock.calls[0][0];
+      expect(ctx.creatorInboxId).toBe(brandInboxId);
+      expect(ctx.conversationId).toBe("test-conversation-id");
     });
 
-    it("should expose inner group and id", () => {
+    it("should verify keyring invites with the identity's own key", async () => {
+      // Same creator inbox ID, but signed with a different key
+      const forger = ConvosMiddleware.create(createMockAgent(), {
+        keyring: { [brandInboxId]: testPrivateKeyHex },
+      });
       const agent = createMockAgent();
-      const convos = ConvosMiddleware.create(agent);
+      const convos = ConvosMiddleware.create(agent, {
+        keyring: { [brandInboxId]: brandPrivateKeyHex },
+      });
+      const { metadata } = forger.createInitialMetadata();
+      const forged = forger.createInvite(mockConversation, {
+        inviteTag: metadata.tag,
+        creatorInboxId: brandInboxId,
+      });
 
-      const xmtpGroup = createMockGroupWithAppData("test-group-id", "existing-data");
-      const group = convos.group(xmtpGroup);
+      const inviteHandler = vi.fn();
+      convos.on("invite", inviteHandler);
+      await convos.middleware()(createMockDmContext(forged.slug, joinerInboxId), vi.fn());
 
-      expect(group.id).toBe(xmtpGroup.id);
-      expect(group.inner).toBe(xmtpGroup);
-      expect(group.inner.appData).toBe(xmtpGroup.appData);
+      expect(inviteHandler).not.toHaveBeenCalled();
+      expect(mockBlockFn).toHaveBeenCalledWith([joinerInboxId]);
     });
 
-    it("should allow accessing inner group methods", async () => {
+    it("should still block invites from creators outside the keyring", async () => {
+      const other = ConvosMiddleware.create(createMockAgent(), {
+        keyring: { [brandInboxId]: brandPrivateKeyHex },
+      });
       const agent = createMockAgent();
       const convos = ConvosMiddleware.create(agent);
+      const { metadata } = other.createInitialMetadata();
+      const invite = other.createInvite(mockConversation, {
+        inviteTag: metadata.tag,
+        creatorInboxId: brandInboxId,
+      });
 
-      const xmtpGroup = createMockGroupWithAppData("test-group-id");
-      const group = convos.group(xmtpGroup);
+      const invalidInvite = vi.fn();
+      convos.on("invalidInvite", invalidInvite);
+      await convos.middleware()(createMockDmContext(invite.slug, joinerInboxId), vi.fn());
 
-      await group.inner.send("hello");
-      expect(xmtpGroup.send).toHaveBeenCalledWith("hello");
+      expect(invalidInvite.mock.calls[0][0].reason).toBe(BlockReason.WrongCreator);
+    });
 
-      await group.inner.addMembers(["inbox1"]);
-      expect(xmtpGroup.addMembers).toHaveBeenCalledWith(["inbox1"]);
+    it("should pass through messages from keyring identities", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent, {
+        keyring: { [brandInboxId]: brandPrivateKeyHex },
+      });
+
+      const next = vi.fn();
+      await convos.middleware()(createMockDmContext("A".repeat(60), brandInboxId), next);
+
+      expect(next).toHaveBeenCalled();
+      expect(mockBlockFn).not.toHaveBeenCalled();
     });
 
-    it("should create invite and auto-create metadata when none exists", async () => {
+    it("should revoke invites created by keyring identities", async () => {
       const agent = createMockAgent();
-      const convos = ConvosMiddleware.create(agent);
+      const convos = ConvosMiddleware.create(agent, {
+        keyring: { [brandInboxId]: brandPrivateKeyHex },
+      });
+      const { metadata } = convos.createInitialMetadata();
+      const invite = convos.createInvite(mockConversation, {
+        inviteTag: metadata.tag,
+        creatorInboxId: brandInboxId,
+      });
 
-      const xmtpGroup = createMockGroupWithAppData("test-group-id", "");
-      const group = convos.group(xmtpGroup);
+      const revoked = await convos.revokeInvite(invite.url);
 
-      const invite = await group.createInvite({ name: "My Chat" });
+      expect(revoked.conversationId).toBe("test-conversation-id");
+    });
 
-      expect(invite.slug).toBeDefined();
-      expect(invite.url).toContain("dev.convos.org/v2");
-      expect(xmtpGroup.updateAppData).toHaveBeenCalled();
+    it("should list the identities it serves", () => {
+      const convos = ConvosMiddleware.create(createMockAgent(), {
+        keyring: { [brandInboxId]: brandPrivateKeyHex },
+      });
+
+      expect(convos.getCreatorInboxIds()).toEqual([testInboxId, brandInboxId]);
     });
 
-    it("should create invite using existing metadata", async () => {
+    it("should refuse to create invites for unknown identities", () => {
+      const convos = ConvosMiddleware.create(createMockAgent());
+
+      expect(() =>
+        convos.createInvite(mockConversation, { inviteTag: "tag", creatorInboxId: brandInboxId })
+      ).toThrow("No private key in keyring");
+    });
+  });
+
+  describe("signer", () => {
+    const brandPrivateKeyHex = "2122232425262728292a2b2c2d2e2f303132333435363738393a3b3c3d3e3f40";
+    const brandInboxId = "bbbbbb1234567890123456789012345678901234567890123456789012345678";
+
+    function createMockGroup(id: string): XMTPGroupWithAppData {
+      return {
+        id,
+        appData: "",
+        updateAppData: vi.fn().mockResolvedValue(undefined),
+        send: vi.fn().mockResolvedValue(undefined),
+        addMembers: vi.fn().mockResolvedValue(undefined),
+      };
+    }
+
+    it("should create and accept invites with a signer instead of a private key", async () => {
+      delete process.env.XMTP_WALLET_KEY;
       const agent = createMockAgent();
-      const convos = ConvosMiddleware.create(agent);
+      const convos = ConvosMiddleware.create(agent, {
+        signer: new LocalInviteSigner(testPrivateKeyHex),
+      });
+      const invite = await convos.group(createMockGroup("test-conversation-id")).createInvite();
 
-      // Create metadata first
-      const { encodedMetadata } = convos.createInitialMetadata();
+      const inviteHandler = vi.fn();
+      convos.on("invite", inviteHandler);
+      await convos.middleware()(createMockDmContext(invite.slug, joinerInboxId), vi.fn());
 
-      // Create group with existing metadata
-      const xmtpGroup = createMockGroupWithAppData("test-group-id", encodedMetadata);
-      const group = convos.group(xmtpGroup);
+      expect(inviteHandler).toHaveBeenCalledTimes(1);
+      expect(inviteHandler.mock.calls[0][0].conversationId).toBe("test-conversation-id");
+    });
 
-      const invite = await group.createInvite({ name: "My Chat" });
+    it("should refuse synchronous createInvite for signer-backed identities", () => {
+      const convos = ConvosMiddleware.create(createMockAgent(), {
+        signer: new LocalInviteSigner(testPrivateKeyHex),
+      });
 
-      expect(invite.slug).toBeDefined();
-      expect(invite.url).toContain("dev.convos.org/v2");
-      // Should NOT have called updateAppData since metadata already exists
-      expect(xmtpGroup.updateAppData).not.toHaveBeenCalled();
+      expect(() => convos.createInvite(mockConversation, { inviteTag: "tag" })).toThrow(
+        "uses a signer"
+      );
     });
 
-    it("should create new metadata if existing metadata is corrupt", async () => {
+    it("should accept signers in the keyring", async () => {
       const agent = createMockAgent();
-      const convos = ConvosMiddleware.create(agent);
+      const convos = ConvosMiddleware.create(agent, {
+        keyring: { [brandInboxId]: new LocalInviteSigner(brandPrivateKeyHex) },
+      });
+      const invite = await convos
+        .group(createMockGroup("test-conversation-id"))
+        .createInvite({ creatorInboxId: brandInboxId });
 
-      // Group with corrupt/invalid metadata
-      const xmtpGroup = createMockGroupWithAppData("test-group-id", "invalid-garbage-data");
-      const group = convos.group(xmtpGroup);
+      const inviteHandler = vi.fn();
+      convos.on("invite", inviteHandler);
+      await convos.middleware()(createMockDmContext(invite.slug, joinerInboxId), vi.fn());
 
-      const invite = await group.createInvite({ name: "My Chat" });
+      expect(convos.getCreatorInboxIds()).toEqual([testInboxId, brandInboxId]);
+      expect(inviteHandler.mock.calls[0][0].creatorInboxId).toBe(brandInboxId);
+      expect((await convos.revokeInvite(invite.url)).conversationId).toBe("test-conversation-id");
+    });
+  });
 
-      expect(invite.slug).toBeDefined();
-      expect(xmtpGroup.updateAppData).toHaveBeenCalled();
+  describe("invite secrets", () => {
+    function keyIdOf(slug: string): number | undefined {
+      return getConversationTokenKeyId(parseInviteSlug(slug).payload.conversationToken);
+    }
+
+    it("should encrypt new invites with the current secret", () => {
+      const inviteSecrets = InviteSecretKeyring.generate();
+      const convos = ConvosMiddleware.create(createMockAgent(), { inviteSecrets });
+
+      const invite = convos.createInvite(mockConversation, { inviteTag: "tag" });
+
+      expect(keyIdOf(invite.slug)).toBe(inviteSecrets.currentKeyId);
     });
 
-    it("should pass options to createInvite", async () => {
+    it("should accept invites from retired secrets and the wallet key", async () => {
+      const legacy = ConvosMiddleware.create(createMockAgent());
+      const inviteSecrets = InviteSecretKeyring.generate();
       const agent = createMockAgent();
-      const convos = ConvosMiddleware.create(agent);
-
-      const xmtpGroup = createMockGroupWithAppData("test-group-id");
-      const group = convos.group(xmtpGroup);
+      const convos = ConvosMiddleware.create(agent, { inviteSecrets });
+      const { metadata } = convos.createInitialMetadata();
+      const walletInvite = legacy.createInvite(mockConversation, { inviteTag: metadata.tag });
+      const oldInvite = convos.createInvite(mockConversation, { inviteTag: metadata.tag });
+      inviteSecrets.rotate();
 
-      const invite = await group.createInvite({
-        name: "Test Group",
-        description: "A test group",
-        imageURL: "https://example.com/image.png",
-      });
+      const inviteHandler = vi.fn();
+      convos.on("invite", inviteHandler);
+      await convos.middleware()(createMockDmContext(walletInvite.slug, joinerInboxId), vi.fn());
+      await convos.middleware()(createMockDmContext(oldInvite.slug, joinerInboxId), vi.fn());
 
-      expect(invite.slug).toBeDefined();
-      expect(invite.url).toBeDefined();
+      expect(inviteHandler).toHaveBeenCalledTimes(2);
+      expect(inviteHandler.mock.calls[1][0].conversationId).toBe("test-conversation-id");
     });
 
-    it("should work without options", async () => {
+    it("should reject invites from removed secrets without blocking", async () => {
+      const inviteSecrets = InviteSecretKeyring.generate();
       const agent = createMockAgent();
-      const convos = ConvosMiddleware.create(agent);
+      const convos = ConvosMiddleware.create(agent, { inviteSecrets });
+      const { metadata } = convos.createInitialMetadata();
+      const oldInvite = convos.createInvite(mockConversation, { inviteTag: metadata.tag });
+      const oldKeyId = inviteSecrets.currentKeyId;
+      inviteSecrets.rotate();
+      inviteSecrets.remove(oldKeyId);
 
-      const xmtpGroup = createMockGroupWithAppData("test-group-id");
-      const group = convos.group(xmtpGroup);
+      const inviteHandler = vi.fn();
+      convos.on("invite", inviteHandler);
+      const dmCtx = createMockDmContext(oldInvite.slug, joinerInboxId);
+      await convos.middleware()(dmCtx, vi.fn());
 
-      const invite = await group.createInvite();
+      expect(inviteHandler).not.toHaveBeenCalled();
+      expect(mockBlockFn).not.toHaveBeenCalled();
+      const sent = (dmCtx.conversation.send as ReturnType<typeof vi.fn>).mock.calls[0][0];
+      expect(inviteJoinErrorCodec.decode(sent).errorType).toBe(InviteJoinErrorType.InviteRevoked);
+    });
 
-      expect(invite.slug).toBeDefined();
+    it("should revoke invites encrypted with a secret", async () => {
+      const convos = ConvosMiddleware.create(createMockAgent(), {
+        inviteSecrets: InviteSecretKeyring.generate(),
+      });
+      const invite = convos.createInvite(mockConversation, { inviteTag: "tag" });
+
+      const revoked = await convos.revokeInvite(invite.url);
+
+      expect(revoked.conversationId).toBe("test-conversation-id");
+    });
+  });
+
+  describe("rate limiting", () => {
+    it("should answer over-limit requests with a rate limited error", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent, {
+        rateLimit: { perSender: { capacity: 1, refillPerSecond: 0.01 } },
+      });
+      const middleware = convos.middleware();
+
+      const { metadata } = convos.createInitialMetadata();
+      const invite = convos.createInvite(mockConversation, { inviteTag: metadata.tag });
+
+      const inviteHandler = vi.fn();
+      convos.on("invite", inviteHandler);
+
+      await middleware(createMockDmContext(invite.slug, joinerInboxId), vi.fn());
+      const limitedCtx = createMockDmContext(invite.slug, joinerInboxId);
+      await middleware(limitedCtx, vi.fn());
+
+      expect(inviteHandler).toHaveBeenCalledTimes(1);
+      const sent = (limitedCtx.conversation.send as ReturnType<typeof vi.fn>).mock.calls[0][0];
+      expect(sent.type.typeId).toBe("inviteJoinError");
+      expect(sent.fallback).toBe("Too many join requests, please try again later");
+      expect(inviteJoinErrorCodec.decode(sent).errorType).toBe(InviteJoinErrorType.RateLimited);
+      expect(mockBlockFn).not.toHaveBeenCalled();
+    });
+
+    it("should limit requests per conversation", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent, {
+        rateLimit: { perConversation: { capacity: 1, refillPerSecond: 0.01 } },
+      });
+      const middleware = convos.middleware();
+
+      const { metadata } = convos.createInitialMetadata();
+      const invite = convos.createInvite(mockConversation, { inviteTag: metadata.tag });
+
+      const inviteHandler = vi.fn();
+      convos.on("invite", inviteHandler);
+
+      await middleware(createMockDmContext(invite.slug, joinerInboxId), vi.fn());
+      await middleware(createMockDmContext(invite.slug, "another-joiner"), vi.fn());
+
+      expect(inviteHandler).toHaveBeenCalledTimes(1);
+    });
+
+    it("should block senders that keep exceeding the limit", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent, {
+        rateLimit: {
+          perSender: { capacity: 1, refillPerSecond: 0.01 },
+          blockAfterViolations: 2,
+        },
+      });
+      const middleware = convos.middleware();
+
+      const { metadata } = convos.createInitialMetadata();
+      const invite = convos.createInvite(mockConversation, { inviteTag: metadata.tag });
+
+      const blockedHandler = vi.fn();
+      convos.on("senderBlocked", blockedHandler);
+
+      for (let i = 0; i < 3; i++) {
+        await middleware(createMockDmContext(invite.slug, joinerInboxId), vi.fn());
+      }
+
+      expect(mockBlockFn).toHaveBeenCalledWith([joinerInboxId]);
+      expect(blockedHandler.mock.calls[0][0].reason).toBe(BlockReason.RateLimited);
+    });
+
+    it("should not block joiners over a limit someone else exhausted", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent, {
+        rateLimit: {
+          perConversation: { capacity: 1, refillPerSecond: 0.01 },
+          global: { capacity: 2, refillPerSecond: 0.01 },
+          blockAfterViolations: 1,
+        },
+      });
+      const middleware = convos.middleware();
+
+      const { metadata } = convos.createInitialMetadata();
+      const invite = convos.createInvite(mockConversation, { inviteTag: metadata.tag });
+
+      for (let i = 0; i < 4; i++) {
+        await middleware(createMockDmContext(invite.slug, joinerInboxId), vi.fn());
+      }
+
+      expect(mockBlockFn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("block policy", () => {
+    const malformedSlug = "A".repeat(60);
+
+    function sentErrorType(ctx: XMTPMessageContext): InviteJoinErrorType {
+      const sent = (ctx.conversation.send as ReturnType<typeof vi.fn>).mock.calls[0][0];
+      return inviteJoinErrorCodec.decode(sent).errorType;
+    }
+
+    it("should block malformed invites and emit a blocked event by default", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+      const blockedHandler = vi.fn();
+      convos.on("senderBlocked", blockedHandler);
+
+      const next = vi.fn();
+      await convos.middleware()(createMockDmContext(malformedSlug, joinerInboxId), next);
+
+      expect(mockBlockFn).toHaveBeenCalledWith([joinerInboxId]);
+      expect(blockedHandler).toHaveBeenCalledWith({
+        senderInboxId: joinerInboxId,
+        reason: BlockReason.MalformedInvite,
+        strikes: undefined,
+        invite: undefined,
+      });
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it("should warn instead of blocking in warn mode", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent, { blockPolicy: { mode: "warn" } });
+
+      const dmCtx = createMockDmContext(malformedSlug, joinerInboxId);
+      await convos.middleware()(dmCtx, vi.fn());
+
+      expect(mockBlockFn).not.toHaveBeenCalled();
+      expect(sentErrorType(dmCtx)).toBe(InviteJoinErrorType.InvalidInvite);
+    });
+
+    it("should drop the message silently in ignore mode", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent, { blockPolicy: { mode: "ignore" } });
+
+      const dmCtx = createMockDmContext(malformedSlug, joinerInboxId);
+      const next = vi.fn();
+      await convos.middleware()(dmCtx, next);
+
+      expect(mockBlockFn).not.toHaveBeenCalled();
+      expect(dmCtx.conversation.send).not.toHaveBeenCalled();
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it("should warn until the sender reaches the strike limit", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent, {
+        blockPolicy: { mode: "strikes", maxStrikes: 3 },
+      });
+      const middleware = convos.middleware();
+      const blockedHandler = vi.fn();
+      convos.on("senderBlocked", blockedHandler);
+
+      for (let i = 0; i < 2; i++) {
+        const dmCtx = createMockDmContext(malformedSlug, joinerInboxId);
+        await middleware(dmCtx, vi.fn());
+        expect(sentErrorType(dmCtx)).toBe(InviteJoinErrorType.InvalidInvite);
+      }
+      expect(mockBlockFn).not.toHaveBeenCalled();
+
+      await middleware(createMockDmContext(malformedSlug, joinerInboxId), vi.fn());
+
+      expect(mockBlockFn).toHaveBeenCalledWith([joinerInboxId]);
+      expect(blockedHandler).toHaveBeenCalledWith({
+        senderInboxId: joinerInboxId,
+        reason: BlockReason.MalformedInvite,
+        strikes: 3,
+        invite: undefined,
+      });
+    });
+
+    it("should stop emitting to removed blocked handlers", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+      const blockedHandler = vi.fn();
+      convos.on("senderBlocked", blockedHandler);
+      convos.off("senderBlocked", blockedHandler);
+
+      await convos.middleware()(createMockDmContext(malformedSlug, joinerInboxId), vi.fn());
+
+      expect(mockBlockFn).toHaveBeenCalled();
+      expect(blockedHandler).not.toHaveBeenCalled();
+    });
+
+    it("should unblock senders and reset their strikes", async () => {
+      const agent = createMockAgent();
+      const unblock = vi.fn().mockResolvedValue(undefined);
+      agent.client.contacts.unblock = unblock;
+      const convos = ConvosMiddleware.create(agent, {
+        blockPolicy: { mode: "strikes", maxStrikes: 2 },
+      });
+      const middleware = convos.middleware();
+
+      await middleware(createMockDmContext(malformedSlug, joinerInboxId), vi.fn());
+      await convos.unblockSender(joinerInboxId);
+      await middleware(createMockDmContext(malformedSlug, joinerInboxId), vi.fn());
+
+      expect(unblock).toHaveBeenCalledWith([joinerInboxId]);
+      expect(mockBlockFn).not.toHaveBeenCalled();
+    });
+
+    it("should reject unblocking when the client cannot unblock", async () => {
+      const convos = ConvosMiddleware.create(createMockAgent());
+
+      await expect(convos.unblockSender(joinerInboxId)).rejects.toThrow(
+        "XMTP client does not support unblocking contacts"
+      );
+    });
+  });
+
+  describe("events", () => {
+    it("should emit joinAccepted with the parsed invite", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+      const { metadata } = convos.createInitialMetadata();
+      const invite = convos.createInvite(mockConversation, { inviteTag: metadata.tag });
+
+      const joinAccepted = vi.fn();
+      convos.on("joinAccepted", joinAccepted);
+      convos.on("invite", (ctx) => ctx.accept());
+
+      await convos.middleware()(createMockDmContext(invite.slug, joinerInboxId), vi.fn());
+
+      const event = joinAccepted.mock.calls[0][0];
+      expect(event.joinerInboxId).toBe(joinerInboxId);
+      expect(event.conversationId).toBe("test-conversation-id");
+      expect(event.inviteTag).toBe(metadata.tag);
+      expect(event.invite.creatorInboxId).toBe(testInboxId);
+      expect(event.deferred).toBe(false);
+    });
+
+    it("should emit joinRejected with the error sent to the joiner", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+      const { metadata } = convos.createInitialMetadata();
+      const invite = convos.createInvite(mockConversation, { inviteTag: metadata.tag });
+      await convos.revokeInvite(invite.url);
+
+      const joinRejected = vi.fn();
+      convos.on("joinRejected", joinRejected);
+
+      await convos.middleware()(createMockDmContext(invite.slug, joinerInboxId), vi.fn());
+
+      const event = joinRejected.mock.calls[0][0];
+      expect(event.error.errorType).toBe(InviteJoinErrorType.InviteRevoked);
+      expect(event.conversationId).toBeUndefined();
+      expect(event.invite.payload.tag).toBe(metadata.tag);
+    });
+
+    it("should emit joinAccepted and joinRejected for deferred requests", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+      const { metadata } = convos.createInitialMetadata();
+      const invite = convos.createInvite(mockConversation, { inviteTag: metadata.tag });
+      convos.on("invite", async (ctx) => {
+        await ctx.defer();
+      });
+
+      const joinAccepted = vi.fn();
+      const joinRejected = vi.fn();
+      convos.on("joinAccepted", joinAccepted);
+      convos.on("joinRejected", joinRejected);
+
+      const middleware = convos.middleware();
+      await middleware(createMockDmContext(invite.slug, joinerInboxId), vi.fn());
+      await middleware(createMockDmContext(invite.slug, "another-joiner"), vi.fn());
+      const [first, second] = await convos.pendingJoins.list();
+      await convos.pendingJoins.accept(first.id);
+      await convos.pendingJoins.reject(second.id);
+
+      expect(joinAccepted.mock.calls[0][0].deferred).toBe(true);
+      expect(joinAccepted.mock.calls[0][0].invite.payload.tag).toBe(metadata.tag);
+      expect(joinRejected.mock.calls[0][0].deferred).toBe(true);
+      expect(joinRejected.mock.calls[0][0].error.errorType).toBe(
+        InviteJoinErrorType.GenericFailure
+      );
+    });
+
+    it("should emit inviteExpired for expired invites", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+      const { metadata } = convos.createInitialMetadata();
+      const invite = convos.createInvite(mockConversation, {
+        inviteTag: metadata.tag,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      const inviteExpired = vi.fn();
+      const joinRejected = vi.fn();
+      convos.on("inviteExpired", inviteExpired);
+      convos.on("joinRejected", joinRejected);
+
+      await convos.middleware()(createMockDmContext(invite.slug, joinerInboxId), vi.fn());
+
+      expect(inviteExpired.mock.calls[0][0].joinerInboxId).toBe(joinerInboxId);
+      expect(inviteExpired.mock.calls[0][0].invite.isExpired).toBe(true);
+      expect(joinRejected).not.toHaveBeenCalled();
+    });
+
+    it("should emit invalidInvite before applying the block policy", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent, { blockPolicy: { mode: "ignore" } });
+
+      const invalidInvite = vi.fn();
+      convos.on("invalidInvite", invalidInvite);
+
+      await convos.middleware()(createMockDmContext("A".repeat(60), joinerInboxId), vi.fn());
+
+      expect(invalidInvite).toHaveBeenCalledWith({
+        senderInboxId: joinerInboxId,
+        reason: BlockReason.MalformedInvite,
+        invite: undefined,
+      });
+    });
+
+    it("should emit handlerError and reject when an invite handler throws", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+      const { metadata } = convos.createInitialMetadata();
+      const invite = convos.createInvite(mockConversation, { inviteTag: metadata.tag });
+      const failure = new Error("handler failed");
+      convos.on("invite", async () => {
+        throw failure;
+      });
+
+      const handlerError = vi.fn();
+      const joinRejected = vi.fn();
+      convos.on("handlerError", handlerError);
+      convos.on("joinRejected", joinRejected);
+      const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      await convos.middleware()(createMockDmContext(invite.slug, joinerInboxId), vi.fn());
+      consoleError.mockRestore();
+
+      expect(handlerError.mock.calls[0][0].error).toBe(failure);
+      expect(handlerError.mock.calls[0][0].context.joinerInboxId).toBe(joinerInboxId);
+      expect(joinRejected.mock.calls[0][0].error.errorType).toBe(
+        InviteJoinErrorType.GenericFailure
+      );
+    });
+
+    it("should not let a throwing listener break join handling", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+      const { metadata } = convos.createInitialMetadata();
+      const invite = convos.createInvite(mockConversation, { inviteTag: metadata.tag });
+      convos.on("invite", (ctx) => ctx.accept());
+      convos.on("joinAccepted", () => {
+        throw new Error("metrics down");
+      });
+      const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      await convos.middleware()(createMockDmContext(invite.slug, joinerInboxId), vi.fn());
+      consoleError.mockRestore();
+
+      expect(mockConversation.addMembers).toHaveBeenCalledWith([joinerInboxId]);
+      expect(mockConversation.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("single-use invites", () => {
+    const otherJoinerInboxId = "other12345678901234567890123456789012abcdef12345678901234567890ef";
+
+    it("should expose the redemption record on the invite context", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+      const middleware = convos.middleware();
+
+      const { metadata } = convos.createInitialMetadata();
+      const invite = convos.createInvite(mockConversation, {
+        inviteTag: metadata.tag,
+        expiresAfterUse: true,
+      });
+
+      let before: InviteContext["redemption"];
+      const inviteHandler = vi.fn(async (ctx: InviteContext) => {
+        before = ctx.redemption;
+        await ctx.accept();
+      });
+      convos.on("invite", inviteHandler);
+
+      await middleware(createMockDmContext(invite.slug, joinerInboxId), vi.fn());
+
+      const ctx: InviteContext = inviteHandler.mock.calls[0][0];
+      expect(before).toBeUndefined();
+      expect(ctx.redemption?.joinerInboxId).toBe(joinerInboxId);
+      expect(ctx.redemption?.conversationId).toBe("test-conversation-id");
+    });
+
+    it("should reject a second joiner redeeming the same invite", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+      const middleware = convos.middleware();
+
+      const { metadata } = convos.createInitialMetadata();
+      const invite = convos.createInvite(mockConversation, {
+        inviteTag: metadata.tag,
+        expiresAfterUse: true,
+      });
+
+      const inviteHandler = vi.fn((ctx: InviteContext) => ctx.accept());
+      convos.on("invite", inviteHandler);
+
+      await middleware(createMockDmContext(invite.slug, joinerInboxId), vi.fn());
+      const secondCtx = createMockDmContext(invite.slug, otherJoinerInboxId);
+      await middleware(secondCtx, vi.fn());
+
+      expect(inviteHandler).toHaveBeenCalledTimes(1);
+      const sent = (secondCtx.conversation.send as ReturnType<typeof vi.fn>).mock.calls[0][0];
+      expect(inviteJoinErrorCodec.decode(sent).errorType).toBe(InviteJoinErrorType.InviteAlreadyUsed);
+    });
+
+    it("should let the original joiner retry a single-use invite", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+      const middleware = convos.middleware();
+
+      const { metadata } = convos.createInitialMetadata();
+      const invite = convos.createInvite(mockConversation, {
+        inviteTag: metadata.tag,
+        expiresAfterUse: true,
+      });
+
+      const inviteHandler = vi.fn();
+      convos.on("invite", inviteHandler);
+
+      await middleware(createMockDmContext(invite.slug, joinerInboxId), vi.fn());
+      await middleware(createMockDmContext(invite.slug, joinerInboxId), vi.fn());
+
+      expect(inviteHandler).toHaveBeenCalledTimes(2);
+    });
+
+    it.each([
+      ["rejected", (ctx: InviteContext) => ctx.reject()],
+      [
+        "failed in the handler",
+        async () => {
+          throw new Error("handler failed");
+        },
+      ],
+      [
+        "deferred",
+        async (ctx: InviteContext) => {
+          await ctx.defer();
+        },
+      ],
+    ])(
+      "should let another joiner use the invite after the first request was %s",
+      async (_, firstDecision) => {
+        const agent = createMockAgent();
+        const convos = ConvosMiddleware.create(agent);
+        const middleware = convos.middleware();
+
+        const { metadata } = convos.createInitialMetadata();
+        const invite = convos.createInvite(mockConversation, {
+          inviteTag: metadata.tag,
+          expiresAfterUse: true,
+        });
+
+        let decide: (ctx: InviteContext) => Promise<void> = firstDecision;
+        convos.on("invite", (ctx) => decide(ctx));
+        const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+
+        await middleware(createMockDmContext(invite.slug, joinerInboxId), vi.fn());
+        consoleError.mockRestore();
+        for (const pending of await convos.pendingJoins.list()) {
+          await convos.pendingJoins.reject(pending.id);
+        }
+
+        decide = (ctx) => ctx.accept();
+        const secondCtx = createMockDmContext(invite.slug, otherJoinerInboxId);
+        await middleware(secondCtx, vi.fn());
+
+        expect(mockConversation.addMembers).toHaveBeenCalledWith([otherJoinerInboxId]);
+        expect(secondCtx.conversation.send).not.toHaveBeenCalled();
+      }
+    );
+
+    it("should let another joiner use the invite when no invite handler is registered", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+      const middleware = convos.middleware();
+
+      const { metadata } = convos.createInitialMetadata();
+      const invite = convos.createInvite(mockConversation, {
+        inviteTag: metadata.tag,
+        expiresAfterUse: true,
+      });
+
+      await middleware(createMockDmContext(invite.slug, joinerInboxId), vi.fn());
+      convos.on("invite", (ctx) => ctx.accept());
+      await middleware(createMockDmContext(invite.slug, otherJoinerInboxId), vi.fn());
+
+      expect(mockConversation.addMembers).toHaveBeenCalledWith([otherJoinerInboxId]);
+    });
+
+    it("should redeem a deferred single-use invite when the request is accepted", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+      const middleware = convos.middleware();
+
+      const { metadata } = convos.createInitialMetadata();
+      const invite = convos.createInvite(mockConversation, {
+        inviteTag: metadata.tag,
+        expiresAfterUse: true,
+      });
+      convos.on("invite", async (ctx) => {
+        await ctx.defer();
+      });
+
+      await middleware(createMockDmContext(invite.slug, joinerInboxId), vi.fn());
+      await middleware(createMockDmContext(invite.slug, otherJoinerInboxId), vi.fn());
+      const [first, second] = await convos.pendingJoins.list();
+      await convos.pendingJoins.accept(first.id);
+
+      await expect(convos.pendingJoins.accept(second.id)).rejects.toThrow(
+        "This invite has already been used"
+      );
+      expect(mockConversation.addMembers).toHaveBeenCalledTimes(1);
+      expect(mockConversation.addMembers).toHaveBeenCalledWith([joinerInboxId]);
+    });
+
+    it("should not add a joiner whose accept lost the race for a single-use invite", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+      const middleware = convos.middleware();
+
+      const { metadata } = convos.createInitialMetadata();
+      const invite = convos.createInvite(mockConversation, {
+        inviteTag: metadata.tag,
+        expiresAfterUse: true,
+      });
+      const contexts: InviteContext[] = [];
+      convos.on("invite", (ctx) => {
+        contexts.push(ctx);
+      });
+
+      await middleware(createMockDmContext(invite.slug, joinerInboxId), vi.fn());
+      const secondCtx = createMockDmContext(invite.slug, otherJoinerInboxId);
+      await middleware(secondCtx, vi.fn());
+      await contexts[0].accept();
+      await contexts[1].accept();
+
+      expect(mockConversation.addMembers).toHaveBeenCalledTimes(1);
+      const sent = (secondCtx.conversation.send as ReturnType<typeof vi.fn>).mock.calls[0][0];
+      expect(inviteJoinErrorCodec.decode(sent).errorType).toBe(InviteJoinErrorType.InviteAlreadyUsed);
+    });
+
+    it("should not track redemptions for reusable invites", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+      const middleware = convos.middleware();
+
+      const { metadata } = convos.createInitialMetadata();
+      const invite = convos.createInvite(mockConversation, {
+        inviteTag: metadata.tag,
+      });
+
+      const inviteHandler = vi.fn();
+      convos.on("invite", inviteHandler);
+
+      await middleware(createMockDmContext(invite.slug, joinerInboxId), vi.fn());
+      await middleware(createMockDmContext(invite.slug, otherJoinerInboxId), vi.fn());
+
+      expect(inviteHandler).toHaveBeenCalledTimes(2);
+      expect(inviteHandler.mock.calls[0][0].redemption).toBeUndefined();
+    });
+  });
+
+  describe("invite revocation", () => {
+    it("should reject revoked invites before emitting the invite event", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+      const middleware = convos.middleware();
+
+      const { metadata } = convos.createInitialMetadata();
+      const invite = convos.createInvite(mockConversation, {
+        inviteTag: metadata.tag,
+      });
+
+      const inviteHandler = vi.fn();
+      convos.on("invite", inviteHandler);
+
+      await convos.revokeInvite(invite.url);
+
+      const dmCtx = createMockDmContext(invite.slug, joinerInboxId);
+      const next = vi.fn();
+      await middleware(dmCtx, next);
+
+      expect(inviteHandler).not.toHaveBeenCalled();
+      const sent = (dmCtx.conversation.send as ReturnType<typeof vi.fn>).mock.calls[0][0];
+      expect(inviteJoinErrorCodec.decode(sent).errorType).toBe(InviteJoinErrorType.InviteRevoked);
+      expect(mockBlockFn).not.toHaveBeenCalled();
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it("should leave other invites for the conversation valid", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+      const middleware = convos.middleware();
+
+      const { metadata } = convos.createInitialMetadata();
+      const revoked = convos.createInvite(mockConversation, { inviteTag: metadata.tag, name: "Old" });
+      const valid = convos.createInvite(mockConversation, { inviteTag: metadata.tag, name: "New" });
+
+      const inviteHandler = vi.fn();
+      convos.on("invite", inviteHandler);
+
+      await convos.revokeInvite(revoked.slug);
+      await middleware(createMockDmContext(valid.slug, joinerInboxId), vi.fn());
+
+      expect(inviteHandler).toHaveBeenCalledTimes(1);
+    });
+
+    it("should list revoked invites", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+
+      const { metadata } = convos.createInitialMetadata();
+      const invite = convos.createInvite(mockConversation, { inviteTag: metadata.tag });
+      const record = await convos.revokeInvite(invite.slug);
+
+      const revoked = await convos.listRevokedInvites();
+      expect(revoked).toEqual([record]);
+      expect(record.conversationId).toBe("test-conversation-id");
+      expect(record.inviteTag).toBe(metadata.tag);
+      expect(await convos.listRevokedInvites("other-conversation")).toEqual([]);
+    });
+
+    it("should refuse to revoke invites created by another inbox", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+
+      const otherAgent: XMTPAgent = {
+        client: {
+          inboxId: joinerInboxId,
+          conversations: { getConversationById: vi.fn() },
+          contacts: { refreshConsentList: vi.fn(), block: vi.fn() },
+        },
+      };
+      const other = ConvosMiddleware.create(otherAgent, { privateKey: new Uint8Array(32).fill(0x42) });
+      const { metadata } = other.createInitialMetadata();
+      const invite = other.createInvite("test-id", { inviteTag: metadata.tag });
+
+      await expect(convos.revokeInvite(invite.slug)).rejects.toThrow("not created by this inbox");
+    });
+  });
+
+  describe("join outcome", () => {
+    let dm: XMTPConversation;
+    let groupHandler: ((ctx: unknown) => void | Promise<void>) | undefined;
+
+    function createJoinerAgent(): XMTPAgent {
+      dm = createMockConversation("creator-dm");
+      groupHandler = undefined;
+      return {
+        client: {
+          inboxId: joinerInboxId,
+          conversations: {
+            getConversationById: vi.fn().mockResolvedValue(null),
+            createDm: vi.fn().mockResolvedValue(dm),
+          },
+          contacts: { refreshConsentList: vi.fn(), block: vi.fn() },
+        },
+        on: vi.fn().mockImplementation((event, handler) => {
+          if (event === "group") groupHandler = handler;
+        }),
+      };
+    }
+
+    function createCreatorInvite(): { url: string; tag: string; appData: string } {
+      const creator = ConvosMiddleware.create(createMockAgent());
+      const { metadata, encodedMetadata } = creator.createInitialMetadata();
+      const invite = creator.createInvite(mockConversation, { inviteTag: metadata.tag });
+      return { url: invite.url, tag: metadata.tag, appData: encodedMetadata };
+    }
+
+    it("should not return a handle unless watching", async () => {
+      const invite = createCreatorInvite();
+      const joiner = ConvosMiddleware.create(createJoinerAgent());
+
+      const result = await joiner.join(invite.url);
+
+      expect("waitForOutcome" in result).toBe(false);
+      expect(dm.send).toHaveBeenCalled();
+    });
+
+    it("should resolve rejected when the creator replies with an error", async () => {
+      const invite = createCreatorInvite();
+      const joiner = ConvosMiddleware.create(createJoinerAgent());
+      const handle = await joiner.join(invite.url, { watch: true });
+
+      const error = inviteJoinErrorCodec.encode({
+        errorType: InviteJoinErrorType.InviteRevoked,
+        inviteTag: invite.tag,
+        timestamp: new Date(),
+      });
+      await joiner.middleware()(
+        {
+          message: {
+            content: error.content,
+            contentType: error.type,
+            senderInboxId: testInboxId,
+          },
+          conversation: dm,
+        },
+        vi.fn()
+      );
+
+      const outcome = await handle.waitForOutcome({ timeout: 1000 });
+      expect(outcome.status).toBe("rejected");
+      expect(outcome.status === "rejected" && outcome.errorType).toBe(
+        InviteJoinErrorType.InviteRevoked
+      );
+    });
+
+    it("should resolve accepted when added to the invite's group", async () => {
+      const invite = createCreatorInvite();
+      const joiner = ConvosMiddleware.create(createJoinerAgent());
+      const handle = await joiner.join(invite.url, { watch: true });
+
+      const group = { ...createMockConversation("new-group-id"), appData: invite.appData };
+      await groupHandler?.({ conversation: group });
+
+      expect(await handle.waitForOutcome({ timeout: 1000 })).toEqual({
+        status: "accepted",
+        conversationId: "new-group-id",
+      });
+    });
+
+    it("should resolve accepted on the first message in the invite's group", async () => {
+      const invite = createCreatorInvite();
+      const joiner = ConvosMiddleware.create(createJoinerAgent());
+      const handle = await joiner.join(invite.url, { watch: true });
+
+      const group = { ...createMockConversation("new-group-id"), appData: invite.appData };
+      await joiner.middleware()(
+        { message: { content: "welcome!", senderInboxId: testInboxId }, conversation: group },
+        vi.fn()
+      );
+
+      expect((await handle.waitForOutcome({ timeout: 1000 })).status).toBe("accepted");
+    });
+
+    it("should resolve timeout when nothing arrives", async () => {
+      const invite = createCreatorInvite();
+      const joiner = ConvosMiddleware.create(createJoinerAgent());
+      const handle = await joiner.join(invite.url, { watch: true });
+
+      expect(await handle.waitForOutcome({ timeout: 10 })).toEqual({ status: "timeout" });
+    });
+
+    it("should stop watching after watchTimeout when the outcome is never awaited", async () => {
+      const invite = createCreatorInvite();
+      const joiner = ConvosMiddleware.create(createJoinerAgent());
+      const handle = await joiner.join(invite.url, { watch: true, watchTimeout: 10 });
+
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      const group = { ...createMockConversation("new-group-id"), appData: invite.appData };
+      await groupHandler?.({ conversation: group });
+
+      expect(await handle.waitForOutcome()).toEqual({ status: "timeout" });
+    });
+  });
+
+  describe("metadata handling", () => {
+    it("should create and decode metadata", () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+
+      const { metadata, encodedMetadata } = convos.createInitialMetadata();
+      const decoded = convos.decodeMetadata(encodedMetadata);
+
+      expect(decoded.tag).toBe(metadata.tag);
+    });
+
+    it("should rotate invite tag", () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+
+      const { metadata: original } = convos.createInitialMetadata();
+      const { metadata: rotated, newTag } = convos.rotateInviteTag(original);
+
+      expect(newTag).not.toBe(original.tag);
+      expect(rotated.tag).toBe(newTag);
+    });
+
+    it("should extract invite tag from encoded metadata", () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+
+      const { metadata, encodedMetadata } = convos.createInitialMetadata();
+      const tag = convos.getInviteTag(encodedMetadata);
+
+      expect(tag).toBe(metadata.tag);
+    });
+  });
+
+  describe("group() and ConvosGroup", () => {
+    function createMockGroupWithAppData(
+      id: string,
+      appData = ""
+    ): XMTPGroupWithAppData {
+      return {
+        id,
+        appData,
+        updateAppData: vi.fn().mockResolvedValue(undefined),
+        send: vi.fn().mockResolvedValue(undefined),
+        addMembers: vi.fn().mockResolvedValue(undefined),
+      };
+    }
+
+    it("should wrap a group with convos.group()", () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+
+      const xmtpGroup = createMockGroupWithAppData("test-group-id");
+      const group = convos.group(xmtpGroup);
+
+      expect(group.id).toBe("test-group-id");
+      expect(typeof group.createInvite).toBe("function");
+    });
+
+    it("should expose inner group and id", () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+
+      const xmtpGroup = createMockGroupWithAppData("test-group-id", "existing-data");
+      const group = convos.group(xmtpGroup);
+
+      expect(group.id).toBe(xmtpGroup.id);
+      expect(group.inner).toBe(xmtpGroup);
+      expect(group.inner.appData).toBe(xmtpGroup.appData);
+    });
+
+    it("should allow accessing inner group methods", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+
+      const xmtpGroup = createMockGroupWithAppData("test-group-id");
+      const group = convos.group(xmtpGroup);
+
+      await group.inner.send("hello");
+      expect(xmtpGroup.send).toHaveBeenCalledWith("hello");
+
+      await group.inner.addMembers(["inbox1"]);
+      expect(xmtpGroup.addMembers).toHaveBeenCalledWith(["inbox1"]);
+    });
+
+    it("should create invite and auto-create metadata when none exists", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+
+      const xmtpGroup = createMockGroupWithAppData("test-group-id", "");
+      const group = convos.group(xmtpGroup);
+
+      const invite = await group.createInvite({ name: "My Chat" });
+
+      expect(invite.slug).toBeDefined();
+      expect(invite.url).toContain("dev.convos.org/v2");
+      expect(xmtpGroup.updateAppData).toHaveBeenCalled();
+    });
+
+    it("should create invite using existing metadata", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+
+      // Create metadata first
+      const { encodedMetadata } = convos.createInitialMetadata();
+
+      // Create group with existing metadata
+      const xmtpGroup = createMockGroupWithAppData("test-group-id", encodedMetadata);
+      const group = convos.group(xmtpGroup);
+
+      const invite = await group.createInvite({ name: "My Chat" });
+
+      expect(invite.slug).toBeDefined();
+      expect(invite.url).toContain("dev.convos.org/v2");
+      // Should NOT have called updateAppData since metadata already exists
+      expect(xmtpGroup.updateAppData).not.toHaveBeenCalled();
+    });
+
+    it("should create new metadata if existing metadata is corrupt", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+
+      // Group with corrupt/invalid metadata
+      const xmtpGroup = createMockGroupWithAppData("test-group-id", "invalid-garbage-data");
+      const group = convos.group(xmtpGroup);
+
+      const invite = await group.createInvite({ name: "My Chat" });
+
+      expect(invite.slug).toBeDefined();
+      expect(xmtpGroup.updateAppData).toHaveBeenCalled();
+    });
+
+    it("should pass options to createInvite", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+
+      const xmtpGroup = createMockGroupWithAppData("test-group-id");
+      const group = convos.group(xmtpGroup);
+
+      const invite = await group.createInvite({
+        name: "Test Group",
+        description: "A test group",
+        imageURL: "https://example.com/image.png",
+      });
+
+      expect(invite.slug).toBeDefined();
+      expect(invite.url).toBeDefined();
+    });
+
+    it("should work without options", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+
+      const xmtpGroup = createMockGroupWithAppData("test-group-id");
+      const group = convos.group(xmtpGroup);
+
+      const invite = await group.createInvite();
+
+      expect(invite.slug).toBeDefined();
+    });
+
+    it("should rotate invites, keeping profiles and expiry", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+
+      const expiresAt = new Date("2030-01-01T00:00:00.000Z");
+      const { metadata } = convos.createInitialMetadata({ expiresAt });
+      metadata.profiles.push({ inboxId: new Uint8Array([1, 2, 3]), name: "Bot" });
+      const xmtpGroup = createMockGroupWithAppData(
+        "test-group-id",
+        convos.encodeMetadata(metadata)
+      );
+
+      const result = await convos.group(xmtpGroup).rotateInvites();
+
+      expect(result.previousTag).toBe(metadata.tag);
+      expect(result.newTag).not.toBe(metadata.tag);
+      expect(result.invite).toBeUndefined();
+      const savedAppData = (xmtpGroup.updateAppData as ReturnType<typeof vi.fn>).mock.calls[0][0];
+      const saved = convos.decodeMetadata(savedAppData);
+      expect(saved.tag).toBe(result.newTag);
+      expect(saved.expiresAtUnix).toBe(metadata.expiresAtUnix);
+      expect(saved.profiles[0].name).toBe("Bot");
+    });
+
+    it("should re-issue an invite with the new tag when rotating", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+
+      const xmtpGroup = createMockGroupWithAppData("test-group-id", "");
+      const result = await convos.group(xmtpGroup).rotateInvites({ reissue: { name: "Team" } });
+
+      expect(result.previousTag).toBeUndefined();
+      const parsed = parseInviteSlug(result.invite!.slug);
+      expect(parsed.payload.tag).toBe(result.newTag);
+      expect(parsed.payload.name).toBe("Team");
+    });
+
+    it("should revoke an invite for this group", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+
+      const group = convos.group(createMockGroupWithAppData("test-group-id"));
+      const invite = await group.createInvite();
+
+      const record = await group.revokeInvite(invite.url);
+
+      expect(record.conversationId).toBe("test-group-id");
+      expect(await group.listRevokedInvites()).toEqual([record]);
+    });
+
+    it("should refuse to revoke an invite for another group", async () => {
+      const agent = createMockAgent();
+      const convos = ConvosMiddleware.create(agent);
+
+      const group = convos.group(createMockGroupWithAppData("test-group-id"));
+      const otherGroup = convos.group(createMockGroupWithAppData("other-group-id"));
+      const invite = await otherGroup.createInvite();
+
+      await expect(group.revokeInvite(invite.url)).rejects.toThrow(
+        "does not belong to this conversation"
+      );
     });
 
     describe("setConversationProfile", () => {
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  InMemoryInviteRedemptionStore,
+  FileInviteRedemptionStore,
+  type InviteRedemption,
+} from "../../src/middleware/invite-redemption-store.js";
+
+function createRedemption(joinerInboxId: string): InviteRedemption {
+  return {
+    inviteHash: "a1b2c3",
+    conversationId: "test-conversation-id",
+    inviteTag: "invite1234",
+    joinerInboxId,
+    redeemedAt: new Date("2024-01-15T12:00:00Z"),
+  };
+}
+
+describe("InMemoryInviteRedemptionStore", () => {
+  it("should return null for unredeemed invites", async () => {
+    const store = new InMemoryInviteRedemptionStore();
+    expect(await store.get("a1b2c3")).toBeNull();
+  });
+
+  it("should record the first redemption", async () => {
+    const store = new InMemoryInviteRedemptionStore();
+    const redemption = createRedemption("joiner-1");
+
+    const stored = await store.redeem(redemption);
+
+    expect(stored).toEqual(redemption);
+    expect(await store.get("a1b2c3")).toEqual(redemption);
+  });
+
+  it("should keep the first redemption when redeemed again", async () => {
+    const store = new InMemoryInviteRedemptionStore();
+    await store.redeem(createRedemption("joiner-1"));
+
+    const stored = await store.redeem(createRedemption("joiner-2"));
+
+    expect(stored.joinerInboxId).toBe("joiner-1");
+  });
+});
+
+describe("FileInviteRedemptionStore", () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "convos-redemptions-"));
+    filePath = path.join(tempDir, "redemptions.json");
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should return null when the file does not exist", async () => {
+    const store = new FileInviteRedemptionStore(filePath);
+    expect(await store.get("a1b2c3")).toBeNull();
+  });
+
+  it("should persist redemptions across instances", async () => {
+    await new FileInviteRedemptionStore(filePath).redeem(createRedemption("joiner-1"));
+
+    const reloaded = await new FileInviteRedemptionStore(filePath).get("a1b2c3");
+
+    expect(reloaded?.joinerInboxId).toBe("joiner-1");
+    expect(reloaded?.conversationId).toBe("test-conversation-id");
+    expect(reloaded?.redeemedAt.toISOString()).toBe("2024-01-15T12:00:00.000Z");
+  });
+
+  it("should keep the first redemption when redeemed again", async () => {
+    const store = new FileInviteRedemptionStore(filePath);
+    await store.redeem(createRedemption("joiner-1"));
+
+    const stored = await store.redeem(createRedemption("joiner-2"));
+
+    expect(stored.joinerInboxId).toBe("joiner-1");
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  InMemoryInviteRevocationStore,
+  FileInviteRevocationStore,
+  type RevokedInvite,
+} from "../../src/middleware/invite-revocation-store.js";
+
+function createRevokedInvite(inviteHash: string): RevokedInvite {
+  return {
+    inviteHash,
+    conversationId: "test-conversation-id",
+    inviteTag: "invite1234",
+    revokedAt: new Date("2024-01-15T12:00:00Z"),
+  };
+}
+
+describe("InMemoryInviteRevocationStore", () => {
+  it("should report revoked invites", async () => {
+    const store = new InMemoryInviteRevocationStore();
+    await store.revoke(createRevokedInvite("a1b2c3"));
+
+    expect(await store.isRevoked("a1b2c3")).toBe(true);
+    expect(await store.isRevoked("d4e5f6")).toBe(false);
+  });
+
+  it("should list each revoked invite once", async () => {
+    const store = new InMemoryInviteRevocationStore();
+    await store.revoke(createRevokedInvite("a1b2c3"));
+    await store.revoke(createRevokedInvite("a1b2c3"));
+    await store.revoke(createRevokedInvite("d4e5f6"));
+
+    const revoked = await store.list();
+    expect(revoked.map((r) => r.inviteHash)).toEqual(["a1b2c3", "d4e5f6"]);
+  });
+});
+
+describe("FileInviteRevocationStore", () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "convos-revocations-"));
+    filePath = path.join(tempDir, "revocations.json");
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should return an empty list when the file does not exist", async () => {
+    const store = new FileInviteRevocationStore(filePath);
+    expect(await store.list()).toEqual([]);
+    expect(await store.isRevoked("a1b2c3")).toBe(false);
+  });
+
+  it("should persist revocations across instances", async () => {
+    await new FileInviteRevocationStore(filePath).revoke(createRevokedInvite("a1b2c3"));
+
+    const reloaded = new FileInviteRevocationStore(filePath);
+    expect(await reloaded.isRevoked("a1b2c3")).toBe(true);
+
+    const [revoked] = await reloaded.list();
+    expect(revoked.inviteTag).toBe("invite1234");
+    expect(revoked.revokedAt.toISOString()).toBe("2024-01-15T12:00:00.000Z");
+  });
+});
@@ -6,6 +6,8 @@ import {
 } from "../../src/middleware/join-request-handler.js";
 import { createInviteSlug } from "../../src/invite/signed-invite.js";
 import { InviteJoinErrorType } from "../../src/content-types/invite-join-error.js";
+import { LocalInviteSigner } from "../../src/signer/invite-signer.js";
+import { InviteSecretKeyring } from "../../src/invite/invite-secrets.js";
 
 describe("JoinRequestHandler", () => {
   const testPrivateKey = new Uint8Array([
@@ -27,7 +29,12 @@ describe("JoinRequestHandler", () => {
     };
   }
 
-  function createValidInvite(options?: { expiresAt?: Date; conversationExpiresAt?: Date }) {
+  function createValidInvite(options?: {
+    expiresAt?: Date;
+    conversationExpiresAt?: Date;
+    expiresAfterUse?: boolean;
+    inviteSecrets?: InviteSecretKeyring;
+  }) {
     return createInviteSlug({
       conversationId: testConversationId,
       inviteTag: testTag,
@@ -59,6 +66,52 @@ describe("JoinRequestHandler", () => {
       );
     });
 
+    it("should process join requests with a signer instead of a private key", async () => {
+      const handler = new JoinRequestHandler({
+        inboxId: testInboxId,
+        signer: new LocalInviteSigner(testPrivateKey),
+      });
+
+      const result = await handler.processMessage(createValidInvite(), joinerInboxId);
+
+      expect(result.result).toBe(JoinRequestResult.Success);
+      expect(result.conversationId).toBe(testConversationId.toLowerCase());
+    });
+
+    it("should process invites encrypted with an invite secret", async () => {
+      const inviteSecrets = InviteSecretKeyring.generate();
+      const handler = new JoinRequestHandler({
+        inboxId: testInboxId,
+        privateKey: testPrivateKey,
+        inviteSecrets,
+      });
+
+      const result = await handler.processMessage(
+        createValidInvite({ inviteSecrets }),
+        joinerInboxId
+      );
+
+      expect(result.result).toBe(JoinRequestResult.Success);
+      expect(result.conversationId).toBe(testConversationId.toLowerCase());
+    });
+
+    it("should reject invites whose invite secret was removed", async () => {
+      const inviteSecrets = InviteSecretKeyring.generate();
+      const slug = createValidInvite({ inviteSecrets });
+      inviteSecrets.rotate();
+      inviteSecrets.remove(1);
+      const handler = new JoinRequestHandler({
+        inboxId: testInboxId,
+        privateKey: testPrivateKey,
+        inviteSecrets,
+      });
+
+      const result = await handler.processMessage(slug, joinerInboxId);
+
+      expect(result.result).toBe(JoinRequestResult.SendError);
+      expect(result.error?.errorType).toBe(InviteJoinErrorType.InviteRevoked);
+    });
+
     it("should ignore messages from self", async () => {
       const handler = new JoinRequestHandler({
         inboxId: testInboxId,
@@ -206,6 +259,91 @@ describe("JoinRequestHandler", () => {
     });
   });
 
+  describe("invite tag validation", () => {
+    it("should succeed when the tag matches", async () => {
+      const handler = new JoinRequestHandler({
+        inboxId: testInboxId,
+        privateKey: testPrivateKey,
+        getInviteTag: async () => testTag,
+      });
+
+      const result = await handler.processMessage(createValidInvite(), joinerInboxId);
+
+      expect(result.result).toBe(JoinRequestResult.Success);
+    });
+
+    it("should surface a stale tag as a revoked invite", async () => {
+      const onJoinRequest = vi.fn().mockResolvedValue(true);
+      const handler = new JoinRequestHandler({
+        inboxId: testInboxId,
+        privateKey: testPrivateKey,
+        onJoinRequest,
+        getInviteTag: async () => "rotated123",
+      });
+
+      const result = await handler.processMessage(createValidInvite(), joinerInboxId);
+
+      expect(result.result).toBe(JoinRequestResult.SendError);
+      expect(result.error?.errorType).toBe(InviteJoinErrorType.InviteRevoked);
+      expect(result.inviteTag).toBe(testTag);
+      expect(result.currentInviteTag).toBe("rotated123");
+      expect(onJoinRequest).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("single-use invites", () => {
+    const otherJoinerInboxId = "other12345678901234567890123456789012abcdef12345678901234567890ef";
+
+    it("should record the redemption on success", async () => {
+      const handler = new JoinRequestHandler({
+        inboxId: testInboxId,
+        privateKey: testPrivateKey,
+      });
+
+      const slug = createValidInvite({ expiresAfterUse: true });
+      const result = await handler.processMessage(slug, joinerInboxId);
+
+      expect(result.result).toBe(JoinRequestResult.Success);
+      expect(result.redemption?.joinerInboxId).toBe(joinerInboxId);
+    });
+
+    it("should reject a second joiner", async () => {
+      const onJoinRequest = vi.fn().mockResolvedValue(true);
+      const handler = new JoinRequestHandler({
+        inboxId: testInboxId,
+        privateKey: testPrivateKey,
+        onJoinRequest,
+      });
+
+      const slug = createValidInvite({ expiresAfterUse: true });
+      await handler.processMessage(slug, joinerInboxId);
+      const result = await handler.processMessage(slug, otherJoinerInboxId);
+
+      expect(result.result).toBe(JoinRequestResult.SendError);
+      expect(result.error?.errorType).toBe(InviteJoinErrorType.InviteAlreadyUsed);
+      expect(result.redemption?.joinerInboxId).toBe(joinerInboxId);
+      expect(onJoinRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it("should let another joiner use the invite after the first join was refused", async () => {
+      const onJoinRequest = vi.fn().mockResolvedValueOnce(false).mockResolvedValue(true);
+      const handler = new JoinRequestHandler({
+        inboxId: testInboxId,
+        privateKey: testPrivateKey,
+        onJoinRequest,
+      });
+
+      const slug = createValidInvite({ expiresAfterUse: true });
+      const refused = await handler.processMessage(slug, joinerInboxId);
+      const result = await handler.processMessage(slug, otherJoinerInboxId);
+
+      expect(refused.result).toBe(JoinRequestResult.SendError);
+      expect(refused.redemption).toBeUndefined();
+      expect(result.result).toBe(JoinRequestResult.Success);
+      expect(result.redemption?.joinerInboxId).toBe(otherJoinerInboxId);
+    });
+  });
+
   describe("encodeErrorForSending", () => {
     it("should encode error to bytes", () => {
       const handler = new JoinRequestHandler({
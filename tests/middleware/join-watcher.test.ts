@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { JoinWatch } from "../../src/middleware/join-watcher.js";
+import {
+  INVITE_JOIN_ERROR_CONTENT_TYPE,
+  InviteJoinErrorType,
+  createConversationExpiredError,
+  encodeInviteJoinError,
+} from "../../src/content-types/invite-join-error.js";
+
+describe("JoinWatch", () => {
+  const target = {
+    creatorInboxId: "creator-inbox",
+    dmConversationId: "dm-id",
+    inviteTag: "invite1234",
+  };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should resolve rejected for an error from the creator in the DM", async () => {
+    const watch = new JoinWatch(target, vi.fn());
+
+    watch.observeMessage("dm-id", {
+      senderInboxId: "creator-inbox",
+      content: createConversationExpiredError("invite1234"),
+      contentType: INVITE_JOIN_ERROR_CONTENT_TYPE,
+    });
+
+    const outcome = await watch.wait();
+    expect(outcome.status).toBe("rejected");
+    expect(outcome.status === "rejected" && outcome.errorType).toBe(
+      InviteJoinErrorType.ConversationExpired
+    );
+  });
+
+  it("should decode raw error bytes when the codec is not registered", async () => {
+    const watch = new JoinWatch(target, vi.fn());
+
+    watch.observeMessage("dm-id", {
+      senderInboxId: "creator-inbox",
+      content: encodeInviteJoinError(createConversationExpiredError("invite1234")),
+      contentType: INVITE_JOIN_ERROR_CONTENT_TYPE,
+    });
+
+    expect((await watch.wait()).status).toBe("rejected");
+  });
+
+  it("should ignore errors from other senders, conversations or invites", () => {
+    const watch = new JoinWatch(target, vi.fn());
+    const message = {
+      senderInboxId: "creator-inbox",
+      content: createConversationExpiredError("invite1234"),
+      contentType: INVITE_JOIN_ERROR_CONTENT_TYPE,
+    };
+
+    watch.observeMessage("other-dm", message);
+    watch.observeMessage("dm-id", { ...message, senderInboxId: "someone-else" });
+    watch.observeMessage("dm-id", {
+      ...message,
+      content: createConversationExpiredError("other-tag"),
+    });
+    watch.observeMessage("dm-id", { ...message, contentType: undefined });
+
+    expect(watch.settled).toBe(false);
+  });
+
+  it("should resolve accepted for a conversation with the invite tag", async () => {
+    const onSettled = vi.fn();
+    const watch = new JoinWatch(target, onSettled);
+
+    watch.observeConversation({ conversationId: "other-group", inviteTag: "other", isNew: true });
+    watch.observeConversation({ conversationId: "group-id", inviteTag: "invite1234", isNew: true });
+
+    expect(await watch.wait()).toEqual({ status: "accepted", conversationId: "group-id" });
+    expect(onSettled).toHaveBeenCalledWith(watch);
+  });
+
+  it("should match a new group without metadata by creator and name", async () => {
+    const watch = new JoinWatch({ ...target, name: "Book Club" }, vi.fn());
+
+    watch.observeConversation({
+      conversationId: "unrelated",
+      name: "Book Club",
+      addedByInboxId: "someone-else",
+      isNew: true,
+    });
+    watch.observeConversation({
+      conversationId: "existing",
+      name: "Book Club",
+      addedByInboxId: "creator-inbox",
+      isNew: false,
+    });
+    expect(watch.settled).toBe(false);
+
+    watch.observeConversation({
+      conversationId: "group-id",
+      name: "Book Club",
+      addedByInboxId: "creator-inbox",
+      isNew: true,
+    });
+
+    expect(await watch.wait()).toEqual({ status: "accepted", conversationId: "group-id" });
+  });
+
+  it("should not match the join request DM", () => {
+    const watch = new JoinWatch(target, vi.fn());
+
+    watch.observeConversation({
+      conversationId: "dm-id",
+      addedByInboxId: "creator-inbox",
+      isNew: true,
+    });
+
+    expect(watch.settled).toBe(false);
+  });
+
+  it("should keep the first outcome", async () => {
+    const watch = new JoinWatch(target, vi.fn());
+
+    watch.observeConversation({ conversationId: "group-id", inviteTag: "invite1234", isNew: false });
+    watch.settle({ status: "timeout" });
+
+    expect((await watch.wait()).status).toBe("accepted");
+  });
+
+  it("should resolve timeout after the timeout passes", async () => {
+    vi.useFakeTimers();
+    const onSettled = vi.fn();
+    const watch = new JoinWatch(target, onSettled);
+
+    const outcome = watch.wait({ timeout: 1000 });
+    vi.advanceTimersByTime(1000);
+
+    expect(await outcome).toEqual({ status: "timeout" });
+    expect(onSettled).toHaveBeenCalled();
+  });
+
+  it("should time out on its own when nobody waits", () => {
+    vi.useFakeTimers();
+    const onSettled = vi.fn();
+    const watch = new JoinWatch(target, onSettled, 1000);
+
+    vi.advanceTimersByTime(1000);
+
+    expect(watch.settled).toBe(true);
+    expect(onSettled).toHaveBeenCalledWith(watch);
+  });
+
+  it("should unregister without an outcome when cancelled", () => {
+    vi.useFakeTimers();
+    const onSettled = vi.fn();
+    const watch = new JoinWatch(target, onSettled, 1000);
+
+    watch.cancel();
+    vi.advanceTimersByTime(1000);
+
+    expect(watch.settled).toBe(false);
+    expect(onSettled).toHaveBeenCalledTimes(1);
+  });
+});
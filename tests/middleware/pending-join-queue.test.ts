@@ -0,0 +1,217 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  PendingJoinQueue,
+  FilePendingJoinStore,
+  type PendingJoinAgent,
+  type PendingJoinInput,
+} from "../../src/middleware/pending-join-queue.js";
+import {
+  InviteJoinErrorType,
+  createConversationExpiredError,
+  createInviteRevokedError,
+} from "../../src/content-types/invite-join-error.js";
+import { InviteJoinErrorCodec } from "../../src/content-types/invite-join-error-codec.js";
+
+const inviteJoinErrorCodec = new InviteJoinErrorCodec();
+
+describe("PendingJoinQueue", () => {
+  const joinerInboxId = "joiner123456789012345678901234567890abcdef12345678901234567890cd";
+
+  let group: { send: ReturnType<typeof vi.fn>; addMembers: ReturnType<typeof vi.fn> };
+  let dm: { send: ReturnType<typeof vi.fn>; addMembers: ReturnType<typeof vi.fn> };
+
+  function createMockAgent(): PendingJoinAgent {
+    group = { send: vi.fn(), addMembers: vi.fn().mockResolvedValue(undefined) };
+    dm = { send: vi.fn().mockResolvedValue(undefined), addMembers: vi.fn() };
+    return {
+      client: {
+        conversations: {
+          getConversationById: vi.fn().mockImplementation(async (id: string) => {
+            if (id === "group-id") return group;
+            if (id === "dm-id") return dm;
+            return null;
+          }),
+        },
+      },
+    };
+  }
+
+  function createInput(overrides?: Partial<PendingJoinInput>): PendingJoinInput {
+    return {
+      joinerInboxId,
+      conversationId: "group-id",
+      inviteTag: "invite1234",
+      inviteSlug: "slug",
+      inviteHash: "hash",
+      dmConversationId: "dm-id",
+      ...overrides,
+    };
+  }
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should enqueue and list requests", async () => {
+    const queue = new PendingJoinQueue(createMockAgent());
+
+    const request = await queue.enqueue(createInput());
+
+    expect(request.id).toHaveLength(10);
+    expect(await queue.list()).toEqual([request]);
+    expect(await queue.get(request.id)).toEqual(request);
+  });
+
+  it("should add the joiner when accepted", async () => {
+    const queue = new PendingJoinQueue(createMockAgent());
+    const request = await queue.enqueue(createInput());
+
+    await queue.accept(request.id);
+
+    expect(group.addMembers).toHaveBeenCalledWith([joinerInboxId]);
+    expect(await queue.list()).toEqual([]);
+  });
+
+  it("should tell the joiner when the conversation is gone", async () => {
+    const queue = new PendingJoinQueue(createMockAgent());
+    const request = await queue.enqueue(createInput({ conversationId: "missing-id" }));
+
+    await expect(queue.accept(request.id)).rejects.toThrow("Conversation not found");
+
+    const sent = inviteJoinErrorCodec.decode(dm.send.mock.calls[0][0]);
+    expect(sent.errorType).toBe(InviteJoinErrorType.ConversationExpired);
+    expect(await queue.list()).toEqual([]);
+  });
+
+  it("should send the given error when rejected", async () => {
+    const queue = new PendingJoinQueue(createMockAgent());
+    const request = await queue.enqueue(createInput());
+
+    await queue.reject(request.id, createConversationExpiredError("invite1234"));
+
+    const sent = inviteJoinErrorCodec.decode(dm.send.mock.calls[0][0]);
+    expect(sent.errorType).toBe(InviteJoinErrorType.ConversationExpired);
+    expect(group.addMembers).not.toHaveBeenCalled();
+    expect(await queue.list()).toEqual([]);
+  });
+
+  it("should default to a generic failure when rejected without an error", async () => {
+    const queue = new PendingJoinQueue(createMockAgent());
+    const request = await queue.enqueue(createInput());
+
+    await queue.reject(request.id);
+
+    const sent = inviteJoinErrorCodec.decode(dm.send.mock.calls[0][0]);
+    expect(sent.errorType).toBe(InviteJoinErrorType.GenericFailure);
+  });
+
+  it("should notify the listener of decisions", async () => {
+    const onAccepted = vi.fn();
+    const onRejected = vi.fn();
+    const queue = new PendingJoinQueue(createMockAgent(), {}, { onAccepted, onRejected });
+    const accepted = await queue.enqueue(createInput());
+    const rejected = await queue.enqueue(createInput({ joinerInboxId: "other-joiner" }));
+
+    await queue.accept(accepted.id);
+    await queue.reject(rejected.id);
+
+    expect(onAccepted).toHaveBeenCalledWith(accepted);
+    expect(onRejected.mock.calls[0][0]).toEqual(rejected);
+    expect(onRejected.mock.calls[0][1].errorType).toBe(InviteJoinErrorType.GenericFailure);
+  });
+
+  it("should return the existing request when a joiner resends the same invite", async () => {
+    const queue = new PendingJoinQueue(createMockAgent());
+
+    const first = await queue.enqueue(createInput());
+    const again = await queue.enqueue(createInput({ dmConversationId: "other-dm" }));
+    const otherInvite = await queue.enqueue(createInput({ inviteHash: "other-hash" }));
+
+    expect(again).toEqual(first);
+    expect(otherInvite.id).not.toBe(first.id);
+    expect(await queue.list()).toHaveLength(2);
+  });
+
+  it("should reject instead of accepting when onAccepting returns an error", async () => {
+    const onAccepted = vi.fn();
+    const onRejected = vi.fn();
+    const queue = new PendingJoinQueue(
+      createMockAgent(),
+      {},
+      {
+        onAccepting: async (request) => createInviteRevokedError(request.inviteTag),
+        onAccepted,
+        onRejected,
+      }
+    );
+    const request = await queue.enqueue(createInput());
+
+    await expect(queue.accept(request.id)).rejects.toThrow("This invite is no longer valid");
+
+    expect(group.addMembers).not.toHaveBeenCalled();
+    expect(onAccepted).not.toHaveBeenCalled();
+    expect(onRejected.mock.calls[0][1].errorType).toBe(InviteJoinErrorType.InviteRevoked);
+    expect(await queue.list()).toEqual([]);
+  });
+
+  it("should throw for unknown request IDs", async () => {
+    const queue = new PendingJoinQueue(createMockAgent());
+
+    await expect(queue.accept("nope")).rejects.toThrow("not found");
+    await expect(queue.reject("nope")).rejects.toThrow("not found");
+  });
+
+  it("should expire requests after the TTL", async () => {
+    vi.useFakeTimers();
+    const queue = new PendingJoinQueue(createMockAgent(), { ttlMs: 60_000 });
+    const request = await queue.enqueue(createInput());
+
+    vi.advanceTimersByTime(60_001);
+
+    await expect(queue.accept(request.id)).rejects.toThrow("expired");
+    expect(await queue.list()).toEqual([]);
+  });
+
+  it("should expire requests when the invite expires before the TTL", async () => {
+    const queue = new PendingJoinQueue(createMockAgent());
+    const expiresAt = new Date(Date.now() + 1000);
+
+    const request = await queue.enqueue(createInput({ expiresAt }));
+
+    expect(request.expiresAt).toEqual(expiresAt);
+  });
+
+  describe("with FilePendingJoinStore", () => {
+    let tempDir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "convos-pending-"));
+      filePath = path.join(tempDir, "pending-joins.json");
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("should accept requests queued before a restart", async () => {
+      const before = new PendingJoinQueue(createMockAgent(), {
+        store: new FilePendingJoinStore(filePath),
+      });
+      const request = await before.enqueue(createInput());
+
+      const after = new PendingJoinQueue(createMockAgent(), {
+        store: new FilePendingJoinStore(filePath),
+      });
+      const [restored] = await after.list();
+      expect(restored).toEqual(request);
+
+      await after.accept(request.id);
+      expect(group.addMembers).toHaveBeenCalledWith([joinerInboxId]);
+      expect(await new FilePendingJoinStore(filePath).list()).toEqual([]);
+    });
+  });
+});
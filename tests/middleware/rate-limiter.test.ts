@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { TokenBucket, JoinRateLimiter } from "../../src/middleware/rate-limiter.js";
+
+describe("TokenBucket", () => {
+  it("should allow bursts up to capacity", () => {
+    const bucket = new TokenBucket({ capacity: 3, refillPerSecond: 1 }, 0);
+
+    expect(bucket.tryTake(0)).toBe(true);
+    expect(bucket.tryTake(0)).toBe(true);
+    expect(bucket.tryTake(0)).toBe(true);
+    expect(bucket.tryTake(0)).toBe(false);
+  });
+
+  it("should refill over time", () => {
+    const bucket = new TokenBucket({ capacity: 1, refillPerSecond: 2 }, 0);
+
+    expect(bucket.tryTake(0)).toBe(true);
+    expect(bucket.tryTake(250)).toBe(false);
+    expect(bucket.tryTake(750)).toBe(true);
+  });
+
+  it("should not refill beyond capacity", () => {
+    const bucket = new TokenBucket({ capacity: 2, refillPerSecond: 10 }, 0);
+
+    expect(bucket.isFull(60_000)).toBe(true);
+    expect(bucket.tryTake(60_000)).toBe(true);
+    expect(bucket.tryTake(60_000)).toBe(true);
+    expect(bucket.tryTake(60_000)).toBe(false);
+  });
+});
+
+describe("JoinRateLimiter", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should allow everything when no limits are configured", () => {
+    const limiter = new JoinRateLimiter({});
+
+    for (let i = 0; i < 100; i++) {
+      expect(limiter.checkSender("sender")).toBeNull();
+      expect(limiter.checkConversation("conversation")).toBeNull();
+    }
+  });
+
+  it("should limit each sender independently", () => {
+    vi.useFakeTimers();
+    const limiter = new JoinRateLimiter({ perSender: { capacity: 1, refillPerSecond: 0.1 } });
+
+    expect(limiter.checkSender("alice")).toBeNull();
+    expect(limiter.checkSender("alice")).toBe("sender");
+    expect(limiter.checkSender("bob")).toBeNull();
+  });
+
+  it("should apply the global limit across senders", () => {
+    vi.useFakeTimers();
+    const limiter = new JoinRateLimiter({ global: { capacity: 2, refillPerSecond: 0.1 } });
+
+    expect(limiter.checkSender("alice")).toBeNull();
+    expect(limiter.checkSender("bob")).toBeNull();
+    expect(limiter.checkSender("carol")).toBe("global");
+  });
+
+  it("should not charge the sender when the global limit rejects", () => {
+    vi.useFakeTimers();
+    const limiter = new JoinRateLimiter({
+      perSender: { capacity: 1, refillPerSecond: 0.1 },
+      global: { capacity: 1, refillPerSecond: 1 },
+    });
+
+    expect(limiter.checkSender("alice")).toBeNull();
+    expect(limiter.checkSender("bob")).toBe("global");
+    vi.advanceTimersByTime(1000);
+    expect(limiter.checkSender("bob")).toBeNull();
+  });
+
+  it("should limit each conversation independently", () => {
+    vi.useFakeTimers();
+    const limiter = new JoinRateLimiter({ perConversation: { capacity: 1, refillPerSecond: 0.1 } });
+
+    expect(limiter.checkConversation("group-1")).toBeNull();
+    expect(limiter.checkConversation("group-1")).toBe("conversation");
+    expect(limiter.checkConversation("group-2")).toBeNull();
+  });
+
+  it("should report when a sender reaches the block threshold", () => {
+    const limiter = new JoinRateLimiter({ blockAfterViolations: 2 });
+
+    expect(limiter.recordViolation("alice", "sender")).toBe(false);
+    expect(limiter.recordViolation("alice", "sender")).toBe(true);
+
+    limiter.resetViolations("alice");
+    expect(limiter.recordViolation("alice", "sender")).toBe(false);
+  });
+
+  it("should not count conversation or global violations against the sender", () => {
+    const limiter = new JoinRateLimiter({ blockAfterViolations: 1 });
+
+    expect(limiter.recordViolation("alice", "conversation")).toBe(false);
+    expect(limiter.recordViolation("alice", "global")).toBe(false);
+    expect(limiter.recordViolation("alice", "sender")).toBe(true);
+  });
+
+  it("should forget violations of idle senders once many are tracked", () => {
+    vi.useFakeTimers();
+    const limiter = new JoinRateLimiter({
+      perSender: { capacity: 1, refillPerSecond: 1 },
+      blockAfterViolations: 2,
+    });
+
+    limiter.checkSender("alice");
+    limiter.recordViolation("alice", "sender");
+    vi.advanceTimersByTime(1000);
+    for (let i = 0; i < 10_000; i++) {
+      limiter.recordViolation(`sender-${i}`, "sender");
+    }
+
+    expect(limiter.recordViolation("alice", "sender")).toBe(false);
+  });
+
+  it("should never escalate without a block threshold", () => {
+    const limiter = new JoinRateLimiter({});
+
+    for (let i = 0; i < 10; i++) {
+      expect(limiter.recordViolation("alice", "sender")).toBe(false);
+    }
+  });
+});
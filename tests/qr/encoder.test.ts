@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import { encodeQR, getQRByteCapacity } from "../../src/qr/encoder.js";
+import { reedSolomonGenerator, reedSolomonRemainder } from "../../src/qr/reed-solomon.js";
+
+/**
+ * Reads the 15 format bits next to the top left finder, most significant first.
+ */
+function readFormatBits(modules: boolean[][]): string {
+  const bits = [
+    ...[0, 1, 2, 3, 4, 5, 7, 8].map((x) => modules[8][x]),
+    ...[7, 5, 4, 3, 2, 1, 0].map((y) => modules[y][8]),
+  ];
+  return bits.map((bit) => (bit ? "1" : "0")).join("");
+}
+
+describe("encodeQR", () => {
+  it("should compute Reed-Solomon error correction", () => {
+    // "HELLO WORLD" at 1-M, from the worked example in the QR specification tutorials
+    const data = Uint8Array.from([
+      32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17,
+    ]);
+
+    const ecc = reedSolomonRemainder(data, reedSolomonGenerator(10));
+
+    expect(Array.from(ecc)).toEqual([196, 35, 39, 119, 235, 215, 231, 226, 93, 23]);
+  });
+
+  it("should match the byte capacities of the specification", () => {
+    expect(getQRByteCapacity(1, "L")).toBe(17);
+    expect(getQRByteCapacity(1, "H")).toBe(7);
+    expect(getQRByteCapacity(10, "M")).toBe(213);
+    expect(getQRByteCapacity(20, "Q")).toBe(482);
+    expect(getQRByteCapacity(40, "L")).toBe(2953);
+    expect(getQRByteCapacity(40, "H")).toBe(1273);
+  });
+
+  it("should pick the smallest version that fits", () => {
+    expect(encodeQR("x".repeat(14)).version).toBe(1);
+    expect(encodeQR("x".repeat(15)).version).toBe(2);
+    expect(encodeQR("x".repeat(213)).version).toBe(10);
+    expect(encodeQR("x".repeat(17), { errorCorrection: "L" }).version).toBe(1);
+    expect(encodeQR("x", { minVersion: 5 }).version).toBe(5);
+  });
+
+  it("should draw finder and timing patterns", () => {
+    const qr = encodeQR("https://popup.convos.org/v2?i=abc");
+    const { modules, size } = qr;
+
+    expect(size).toBe(qr.version * 4 + 17);
+    for (const [top, left] of [
+      [0, 0],
+      [0, size - 7],
+      [size - 7, 0],
+    ]) {
+      for (let y = 0; y < 7; y++) {
+        for (let x = 0; x < 7; x++) {
+          const ring = Math.max(Math.abs(x - 3), Math.abs(y - 3));
+          expect(modules[top + y][left + x]).toBe(ring !== 2);
+        }
+      }
+    }
+    for (let i = 8; i < size - 8; i++) {
+      expect(modules[6][i]).toBe(i % 2 === 0);
+      expect(modules[i][6]).toBe(i % 2 === 0);
+    }
+  });
+
+  it("should write the format bits for the level and mask", () => {
+    expect(readFormatBits(encodeQR("hello", { errorCorrection: "L", mask: 4 }).modules)).toBe(
+      "110011000101111"
+    );
+    expect(readFormatBits(encodeQR("hello", { errorCorrection: "M", mask: 0 }).modules)).toBe(
+      "101010000010010"
+    );
+  });
+
+  it("should write version information from version 7", () => {
+    const qr = encodeQR("x".repeat(150), { errorCorrection: "L" });
+    // 000111 110010010100 for version 7, least significant bit first
+    const bits = Array.from(
+      { length: 18 },
+      (_, i) => qr.modules[Math.floor(i / 3)][qr.size - 11 + (i % 3)]
+    );
+
+    expect(qr.version).toBe(7);
+    expect(bits.reverse().map((bit) => (bit ? "1" : "0")).join("")).toBe("000111110010010100");
+  });
+
+  it("should encode text as UTF-8", () => {
+    expect(encodeQR("é".repeat(7)).version).toBe(1);
+    expect(encodeQR("é".repeat(8)).version).toBe(2);
+  });
+
+  it("should reject data that does not fit", () => {
+    expect(() => encodeQR("x".repeat(2954), { errorCorrection: "L" })).toThrow("Data too long");
+    expect(() => encodeQR("x".repeat(20), { maxVersion: 1 })).toThrow("at most 14 fit at level M");
+  });
+
+  it("should reject invalid options", () => {
+    expect(() => encodeQR("x", { minVersion: 0 })).toThrow("versions must be between 1 and 40");
+    expect(() => encodeQR("x", { mask: 8 })).toThrow("mask must be between 0 and 7");
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import pako from "pako";
+import { encodeQR } from "../../src/qr/encoder.js";
+import { renderQRPng, renderQRSvg, renderQRTerminal } from "../../src/qr/render.js";
+
+describe("QR rendering", () => {
+  const qr = encodeQR("https://popup.convos.org/v2?i=abc");
+  const width = qr.size + 8;
+
+  describe("renderQRTerminal", () => {
+    it("should draw two module rows per line with a quiet zone", () => {
+      const lines = renderQRTerminal(qr).split("\n");
+
+      expect(lines).toHaveLength(Math.ceil(width / 2));
+      expect(lines.every((line) => [...line].length === width)).toBe(true);
+      // Quiet zone and the light modules are drawn
+      expect(lines[0]).toBe("█".repeat(width));
+    });
+
+    it("should swap dark and light when inverted", () => {
+      const lines = renderQRTerminal(qr, { invert: true, margin: 0 }).split("\n");
+
+      // The finder's dark top row above its hollow second row
+      expect(lines[0].startsWith("█▀▀▀▀▀█")).toBe(true);
+    });
+
+    it("should set colors explicitly in ansi style", () => {
+      const lines = renderQRTerminal(qr, { style: "ansi" }).split("\n");
+
+      expect(lines[0]).toBe("\x1b[37m\x1b[47m▀".repeat(width) + "\x1b[0m");
+    });
+  });
+
+  describe("renderQRSvg", () => {
+    it("should draw one square per dark module", () => {
+      const svg = renderQRSvg(qr, { scale: 4, dark: "#123456" });
+      const dark = qr.modules.flat().filter(Boolean).length;
+
+      expect(svg).toContain(`width="${width * 4}"`);
+      expect(svg).toContain(`viewBox="0 0 ${width} ${width}"`);
+      expect(svg).toContain('fill="#123456"');
+      expect(svg.match(/h1v1h-1z/g)).toHaveLength(dark);
+      expect(svg).toContain("M4,4h1v1h-1z");
+    });
+  });
+
+  describe("renderQRPng", () => {
+    it("should produce a grayscale PNG of the scaled code", () => {
+      const png = renderQRPng(qr, { scale: 2 });
+      const view = new DataView(png.buffer, png.byteOffset);
+
+      expect(Array.from(png.subarray(0, 8))).toEqual([
+        0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+      ]);
+      expect(new TextDecoder().decode(png.subarray(12, 16))).toBe("IHDR");
+      expect(view.getUint32(16)).toBe(width * 2);
+      expect(view.getUint32(20)).toBe(width * 2);
+      expect(new TextDecoder().decode(png.subarray(png.length - 8, png.length - 4))).toBe("IEND");
+    });
+
+    it("should store dark modules as black pixels", () => {
+      const png = renderQRPng(qr, { scale: 1, margin: 0 });
+      const idatLength = new DataView(png.buffer, png.byteOffset).getUint32(33);
+      const pixels = pako.inflate(png.subarray(41, 41 + idatLength));
+
+      expect(pixels).toHaveLength((qr.size + 1) * qr.size);
+      for (let y = 0; y < qr.size; y++) {
+        expect(pixels[y * (qr.size + 1)]).toBe(0);
+        for (let x = 0; x < qr.size; x++) {
+          expect(pixels[y * (qr.size + 1) + 1 + x]).toBe(qr.modules[y][x] ? 0 : 255);
+        }
+      }
+    });
+  });
+});
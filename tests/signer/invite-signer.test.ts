@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { LocalInviteSigner, isInviteSigner } from "../../src/signer/invite-signer.js";
+import {
+  createInviteSlug,
+  createInviteSlugWithSigner,
+  parseInviteSlug,
+  verifyInviteWithPrivateKey,
+  verifyInviteWithSigner,
+  decryptInviteConversationId,
+  decryptInviteConversationIdWithSigner,
+} from "../../src/invite/signed-invite.js";
+import { getPublicKey } from "../../src/crypto/secp256k1.js";
+import { bytesToHex } from "../../src/utils/hex.js";
+
+describe("LocalInviteSigner", () => {
+  const testPrivateKey = new Uint8Array(32).fill(7);
+  const otherPrivateKey = new Uint8Array(32).fill(9);
+  const testInboxId = "abc123def456789012345678901234567890abcdef12345678901234567890ab";
+  const testConversationId = "550e8400-e29b-41d4-a716-446655440000";
+  const testTag = "invite1234";
+
+  it("should accept a hex private key with 0x prefix", async () => {
+    const signer = new LocalInviteSigner("0x" + bytesToHex(testPrivateKey));
+    expect(await signer.getPublicKey()).toEqual(getPublicKey(testPrivateKey));
+  });
+
+  it("should create invites readable with the raw private key", async () => {
+    const slug = await createInviteSlugWithSigner({
+      conversationId: testConversationId,
+      inviteTag: testTag,
+      creatorInboxId: testInboxId,
+      signer: new LocalInviteSigner(testPrivateKey),
+      name: "Signed",
+    });
+
+    const parsed = parseInviteSlug(slug);
+    expect(parsed.payload.name).toBe("Signed");
+    expect(verifyInviteWithPrivateKey(parsed.signedInvite, testPrivateKey)).toBe(true);
+    expect(decryptInviteConversationId(parsed, testPrivateKey)).toBe(testConversationId);
+  });
+
+  it("should verify and decrypt invites created with the raw private key", async () => {
+    const signer = new LocalInviteSigner(testPrivateKey);
+    const parsed = parseInviteSlug(
+      createInviteSlug({
+        conversationId: testConversationId,
+        inviteTag: testTag,
+        creatorInboxId: testInboxId,
+        privateKey: testPrivateKey,
+      })
+    );
+
+    expect(await verifyInviteWithSigner(parsed.signedInvite, signer)).toBe(true);
+    expect(await decryptInviteConversationIdWithSigner(parsed, signer)).toBe(testConversationId);
+  });
+
+  it("should reject invites signed by another key", async () => {
+    const parsed = parseInviteSlug(
+      await createInviteSlugWithSigner({
+        conversationId: testConversationId,
+        inviteTag: testTag,
+        creatorInboxId: testInboxId,
+        signer: new LocalInviteSigner(otherPrivateKey),
+      })
+    );
+
+    const signer = new LocalInviteSigner(testPrivateKey);
+    expect(await verifyInviteWithSigner(parsed.signedInvite, signer)).toBe(false);
+    await expect(decryptInviteConversationIdWithSigner(parsed, signer)).rejects.toThrow();
+  });
+
+  describe("isInviteSigner", () => {
+    it("should recognize signers but not keys", () => {
+      expect(isInviteSigner(new LocalInviteSigner(testPrivateKey))).toBe(true);
+      expect(isInviteSigner(testPrivateKey)).toBe(false);
+      expect(isInviteSigner(bytesToHex(testPrivateKey))).toBe(false);
+      expect(isInviteSigner(null)).toBe(false);
+    });
+  });
+});
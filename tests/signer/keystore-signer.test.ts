@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  KeystoreInviteSigner,
+  encryptKeystore,
+  writeKeystoreFile,
+} from "../../src/signer/keystore-signer.js";
+import { LocalInviteSigner } from "../../src/signer/invite-signer.js";
+import { getPublicKey, hashSha256 } from "../../src/crypto/secp256k1.js";
+import { bytesToHex } from "../../src/utils/hex.js";
+
+// Low scrypt cost keeps the tests fast
+const scryptN = 2 ** 10;
+
+describe("KeystoreInviteSigner", () => {
+  const testPrivateKey = new Uint8Array(32).fill(3);
+  const testInboxId = "abc123def456789012345678901234567890abcdef12345678901234567890ab";
+  const passphrase = "correct horse battery staple";
+
+  it("should not store the private key in the keystore", async () => {
+    const keystore = await encryptKeystore(testPrivateKey, passphrase, { scryptN });
+
+    expect(keystore.publicKey).toBe(bytesToHex(getPublicKey(testPrivateKey)));
+    expect(keystore.kdf.N).toBe(scryptN);
+    expect(JSON.stringify(keystore)).not.toContain(bytesToHex(testPrivateKey));
+  });
+
+  it("should sign and derive keys like the unencrypted key", async () => {
+    const keystore = await encryptKeystore(testPrivateKey, passphrase, { scryptN });
+    const signer = await KeystoreInviteSigner.fromKeystore(keystore, passphrase);
+    const local = new LocalInviteSigner(testPrivateKey);
+    const hash = hashSha256(new TextEncoder().encode("payload"));
+
+    expect(await signer.getPublicKey()).toEqual(await local.getPublicKey());
+    expect(await signer.signHash(hash)).toEqual(await local.signHash(hash));
+    expect(await signer.deriveInviteKey(testInboxId)).toEqual(
+      await local.deriveInviteKey(testInboxId)
+    );
+  });
+
+  it("should reject a wrong passphrase", async () => {
+    const keystore = await encryptKeystore(testPrivateKey, passphrase, { scryptN });
+
+    await expect(KeystoreInviteSigner.fromKeystore(keystore, "wrong")).rejects.toThrow(
+      "Failed to unlock keystore"
+    );
+  });
+
+  it("should reject unsupported keystore versions", async () => {
+    const keystore = await encryptKeystore(testPrivateKey, passphrase, { scryptN });
+
+    await expect(
+      KeystoreInviteSigner.fromKeystore({ ...keystore, version: 2 }, passphrase)
+    ).rejects.toThrow("Unsupported keystore version");
+  });
+
+  describe("files", () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "convos-keystore-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("should write an owner-only keystore file and unlock it", async () => {
+      const filePath = path.join(tempDir, "creator.keystore.json");
+      await writeKeystoreFile(filePath, testPrivateKey, passphrase, { scryptN });
+
+      expect(fs.statSync(filePath).mode & 0o777).toBe(0o600);
+      const signer = await KeystoreInviteSigner.fromFile(filePath, passphrase);
+      expect(await signer.getPublicKey()).toEqual(getPublicKey(testPrivateKey));
+    });
+
+    it("should throw if the file does not exist", async () => {
+      await expect(
+        KeystoreInviteSigner.fromFile(path.join(tempDir, "missing.json"), passphrase)
+      ).rejects.toThrow("Keystore not found");
+    });
+  });
+});
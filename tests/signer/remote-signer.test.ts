@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as net from "node:net";
+import * as os from "node:os";
+import * as path from "node:path";
+import { RemoteInviteSigner, serveInviteSigner } from "../../src/signer/remote-signer.js";
+import { LocalInviteSigner, type InviteSigner } from "../../src/signer/invite-signer.js";
+import {
+  createInviteSlugWithSigner,
+  parseInviteSlug,
+  verifyInviteWithPrivateKey,
+  decryptInviteConversationId,
+} from "../../src/invite/signed-invite.js";
+import { hashSha256 } from "../../src/crypto/secp256k1.js";
+
+describe("RemoteInviteSigner", () => {
+  const testPrivateKey = new Uint8Array(32).fill(5);
+  const testInboxId = "abc123def456789012345678901234567890abcdef12345678901234567890ab";
+  const testConversationId = "550e8400-e29b-41d4-a716-446655440000";
+  let tempDir: string;
+  let socketPath: string;
+  let server: net.Server | undefined;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "convos-signer-"));
+    socketPath = path.join(tempDir, "signer.sock");
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+    server = undefined;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should forward operations to the served signer", async () => {
+    const local = new LocalInviteSigner(testPrivateKey);
+    server = await serveInviteSigner(local, socketPath);
+    const remote = new RemoteInviteSigner(socketPath);
+    const hash = hashSha256(new TextEncoder().encode("payload"));
+
+    expect(await remote.getPublicKey()).toEqual(await local.getPublicKey());
+    expect(await remote.signHash(hash)).toEqual(await local.signHash(hash));
+    expect(await remote.deriveInviteKey(testInboxId)).toEqual(
+      await local.deriveInviteKey(testInboxId)
+    );
+  });
+
+  it("should create invites without the key in process", async () => {
+    server = await serveInviteSigner(new LocalInviteSigner(testPrivateKey), socketPath);
+
+    const slug = await createInviteSlugWithSigner({
+      conversationId: testConversationId,
+      inviteTag: "remote-tag",
+      creatorInboxId: testInboxId,
+      signer: new RemoteInviteSigner(socketPath),
+    });
+
+    const parsed = parseInviteSlug(slug);
+    expect(verifyInviteWithPrivateKey(parsed.signedInvite, testPrivateKey)).toBe(true);
+    expect(decryptInviteConversationId(parsed, testPrivateKey)).toBe(testConversationId);
+  });
+
+  it("should keep serving after requests that are not request objects", async () => {
+    const local = new LocalInviteSigner(testPrivateKey);
+    server = await serveInviteSigner(local, socketPath);
+
+    for (const line of ["null", "[]", JSON.stringify({ method: "getPublicKey" })]) {
+      const response = await new Promise<string>((resolve) => {
+        const socket = net.createConnection(socketPath, () => socket.write(line + "\n"));
+        socket.setEncoding("utf-8");
+        socket.once("data", (data: string) => {
+          socket.destroy();
+          resolve(data);
+        });
+      });
+      expect(JSON.parse(response)).toEqual({ id: 0, error: "Invalid request" });
+    }
+
+    expect(await new RemoteInviteSigner(socketPath).getPublicKey()).toEqual(
+      await local.getPublicKey()
+    );
+  });
+
+  it("should make the socket accessible to the owner only", async () => {
+    server = await serveInviteSigner(new LocalInviteSigner(testPrivateKey), socketPath);
+
+    expect(fs.statSync(socketPath).mode & 0o777).toBe(0o600);
+  });
+
+  it("should replace a stale socket file", async () => {
+    fs.writeFileSync(socketPath, "");
+    server = await serveInviteSigner(new LocalInviteSigner(testPrivateKey), socketPath);
+
+    await expect(new RemoteInviteSigner(socketPath).getPublicKey()).resolves.toHaveLength(65);
+  });
+
+  it("should surface signer errors", async () => {
+    const failing: InviteSigner = {
+      getPublicKey: async () => new Uint8Array(65),
+      signHash: async () => {
+        throw new Error("hardware key locked");
+      },
+      deriveInviteKey: async () => new Uint8Array(32),
+    };
+    server = await serveInviteSigner(failing, socketPath);
+
+    await expect(new RemoteInviteSigner(socketPath).signHash(new Uint8Array(32))).rejects.toThrow(
+      "Remote signer error: hardware key locked"
+    );
+  });
+
+  it("should fail when no signer is listening", async () => {
+    await expect(new RemoteInviteSigner(socketPath).getPublicKey()).rejects.toThrow(
+      "Remote signer unavailable"
+    );
+  });
+
+  it("should time out when the signer does not answer", async () => {
+    const silent = net.createServer(() => undefined);
+    await new Promise<void>((resolve) => silent.listen(socketPath, resolve));
+    server = silent;
+    const connections = new Set<net.Socket>();
+    silent.on("connection", (socket) => connections.add(socket));
+
+    await expect(
+      new RemoteInviteSigner(socketPath, { timeoutMs: 50 }).getPublicKey()
+    ).rejects.toThrow("timed out");
+    for (const socket of connections) {
+      socket.destroy();
+    }
+  });
+});
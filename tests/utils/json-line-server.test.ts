@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as net from "node:net";
+import * as os from "node:os";
+import * as path from "node:path";
+import { serveJsonLines } from "../../src/utils/json-line-server.js";
+
+describe("serveJsonLines", () => {
+  let tempDir: string;
+  let socketPath: string;
+  let server: net.Server | undefined;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "convos-json-lines-"));
+    socketPath = path.join(tempDir, "test.sock");
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+    server = undefined;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should close only the connection whose handler throws", async () => {
+    server = await serveJsonLines(socketPath, async (line) => {
+      if (line === "boom") {
+        throw new Error("handler bug");
+      }
+      return { echo: line };
+    });
+
+    const closed = await new Promise<boolean>((resolve) => {
+      const socket = net.createConnection(socketPath, () => socket.write("boom\n"));
+      socket.on("error", () => {});
+      socket.on("close", () => resolve(true));
+    });
+    expect(closed).toBe(true);
+
+    const response = await new Promise<string>((resolve) => {
+      const socket = net.createConnection(socketPath, () => socket.write("hello\n"));
+      socket.setEncoding("utf-8");
+      socket.once("data", (data: string) => {
+        socket.destroy();
+        resolve(data);
+      });
+    });
+    expect(JSON.parse(response)).toEqual({ echo: "hello" });
+  });
+});